@@ -1,12 +1,12 @@
 import React, { useState, useRef, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import styled from "styled-components";
-import qs from "qs";
-import { useFetchClient } from "@strapi/strapi/admin";
+import { useAuth, useFetchClient } from "@strapi/strapi/admin";
 import {
   Button,
   Typography,
   Box,
+  Flex,
   TextInput,
   Modal,
   Accordion,
@@ -14,6 +14,13 @@ import {
 } from "@strapi/design-system";
 
 import { PLUGIN_ID } from "../../pluginId";
+import {
+  conversationsApi,
+  embeddingsApi,
+  type Citation,
+  type SavedConversation,
+  type SavedConversationMessage,
+} from "../../utils/api";
 import { RobotIcon } from "./RobotIcon";
 import { Markdown } from "./Markdown";
 
@@ -65,6 +72,22 @@ interface SourceDocument {
 interface QueryResponse {
   text: string;
   sourceDocuments: SourceDocument[];
+  /** Sources cited in the text as [1], [2] */
+  citations?: Citation[];
+}
+
+interface ChatTurn extends QueryResponse {
+  question: string;
+}
+
+function toChatTurns(conversation: SavedConversation): ChatTurn[] {
+  const messages = Array.isArray(conversation.messages) ? conversation.messages : [];
+  return messages.map((message: SavedConversationMessage) => ({
+    question: message.question,
+    text: message.answer || "",
+    sourceDocuments: (message.sources || []) as SourceDocument[],
+    citations: message.citations || [],
+  }));
 }
 
 interface AccordionDetailsProps {
@@ -94,7 +117,7 @@ function AccordionDetails({ title, content, children }: AccordionDetailsProps) {
 }
 
 interface ShowResponseProps {
-  data: QueryResponse[];
+  data: ChatTurn[];
   onNavigate: (id: string) => void;
 }
 
@@ -104,7 +127,14 @@ function ShowResponse({ data, onNavigate }: ShowResponseProps) {
       {data.map((item, index) => (
         <Box key={index} marginBottom={4}>
           <Box padding={1}>
-            <Markdown>{item.text}</Markdown>
+            <Typography fontWeight="bold">{item.question}</Typography>
+          </Box>
+          <Box padding={1}>
+            {item.text ? (
+              <Markdown citations={item.citations}>{item.text}</Markdown>
+            ) : (
+              <Typography textColor="neutral500">Thinking...</Typography>
+            )}
           </Box>
 
           {item.sourceDocuments?.length > 0 &&
@@ -128,15 +158,59 @@ function ShowResponse({ data, onNavigate }: ShowResponseProps) {
   );
 }
 
+/**
+ * Conversations are saved as they happen. ?conversation=<id> in the URL opens
+ * the chat on a saved conversation and follows the one being continued.
+ */
 export function ChatModal() {
+  const token = useAuth("ChatModal", (state) => state.token);
   const { get } = useFetchClient();
   const containerRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openConversationId = searchParams.get("conversation");
 
   const [isVisible, setIsVisible] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [inputValue, setInputValue] = useState("");
-  const [data, setData] = useState<QueryResponse[]>([]);
+  const [data, setData] = useState<ChatTurn[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  function setConversationParam(id: string | null) {
+    setSearchParams(
+      (params) => {
+        if (id) {
+          params.set("conversation", id);
+        } else {
+          params.delete("conversation");
+        }
+        return params;
+      },
+      { replace: true }
+    );
+  }
+
+  useEffect(() => {
+    if (!openConversationId || openConversationId === conversationId) return;
+
+    let cancelled = false;
+    conversationsApi
+      .getOne({ get }, openConversationId)
+      .then((conversation) => {
+        if (cancelled) return;
+        setData(toChatTurns(conversation));
+        setConversationId(conversation.documentId);
+        setIsVisible(true);
+      })
+      .catch((error) => {
+        console.error("Failed to load conversation:", error);
+        setConversationParam(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [openConversationId, conversationId, get]);
 
   useEffect(() => {
     if (containerRef.current) {
@@ -153,19 +227,33 @@ export function ChatModal() {
     e.preventDefault();
     if (!inputValue.trim() || isLoading) return;
 
+    const question = inputValue;
+
+    // The answer is filled in as tokens arrive
+    const updateAnswer = (update: (turn: ChatTurn) => ChatTurn) =>
+      setData((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+
     setIsLoading(true);
+    setData((prev) => [...prev, { question, text: "", sourceDocuments: [] }]);
+    setInputValue("");
     try {
-      const response = await get(
-        `/${PLUGIN_ID}/embeddings/embeddings-query?${qs.stringify({
-          query: inputValue,
-        })}`
-      );
-      if (response.data && !response.data.error) {
-        setData((prev) => [...prev, response.data as QueryResponse]);
+      // The server keeps the history of saved conversations, so follow-ups
+      // like "what about pricing?" are resolved without sending it
+      const response: QueryResponse & { conversationId: string } =
+        await embeddingsApi.streamConversation(
+          token,
+          conversationId ? { question, conversationId } : { question, save: true },
+          (text) => updateAnswer((turn) => ({ ...turn, text: turn.text + text }))
+        );
+      updateAnswer(() => ({ ...response, question }));
+      if (response.conversationId !== conversationId) {
+        setConversationId(response.conversationId);
+        setConversationParam(response.conversationId);
       }
-      setInputValue("");
     } catch (error) {
       console.error("Query failed:", error);
+      setData((prev) => prev.slice(0, -1));
+      setInputValue(question);
     } finally {
       setIsLoading(false);
     }
@@ -177,7 +265,13 @@ export function ChatModal() {
         <RobotIcon height={28} width={28} />
       </StyledButton>
 
-      <Modal.Root open={isVisible} onOpenChange={setIsVisible}>
+      <Modal.Root
+        open={isVisible}
+        onOpenChange={(open: boolean) => {
+          setIsVisible(open);
+          if (!open && openConversationId) setConversationParam(null);
+        }}
+      >
         <Modal.Content>
           <Modal.Header>
             <Modal.Title>Chat With Your Data</Modal.Title>
@@ -209,13 +303,28 @@ export function ChatModal() {
             <Modal.Close>
               <Button variant="tertiary">Cancel</Button>
             </Modal.Close>
-            <Button
-              onClick={handleQueryEmbeddings}
-              disabled={!inputValue.trim() || isLoading}
-              loading={isLoading}
-            >
-              {isLoading ? "Sending..." : "Send"}
-            </Button>
+            <Flex gap={2}>
+              {data.length > 0 && (
+                <Button
+                  variant="secondary"
+                  onClick={() => {
+                    setData([]);
+                    setConversationId(null);
+                    setConversationParam(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  New conversation
+                </Button>
+              )}
+              <Button
+                onClick={handleQueryEmbeddings}
+                disabled={!inputValue.trim() || isLoading}
+                loading={isLoading}
+              >
+                {isLoading ? "Sending..." : "Send"}
+              </Button>
+            </Flex>
           </Modal.Footer>
         </Modal.Content>
       </Modal.Root>
@@ -29,7 +29,16 @@ const StyledTypography = styled(Typography)`
   margin-bottom: 0.5rem;
 `;
 
-const CHUNK_SIZE = 4000; // Content over this will be auto-chunked
+const DEFAULT_CHUNK_SIZE = 4000; // Content over this will be auto-chunked
+
+/** Embedding settings for the current content type (contentTypes plugin config) */
+interface ContentTypeConfig {
+  enabled: boolean;
+  fields?: string[];
+  titleField?: string;
+  chunkSize: number;
+  autoEmbed: boolean;
+}
 
 interface ExistingEmbedding {
   documentId: string;
@@ -63,6 +72,18 @@ export function EmbeddingsModal() {
   const [isLoading, setIsLoading] = useState(false);
   const [isCheckingExisting, setIsCheckingExisting] = useState(true);
   const [existingEmbedding, setExistingEmbedding] = useState<ExistingEmbedding | null>(null);
+  const [typeConfig, setTypeConfig] = useState<ContentTypeConfig | null>(null);
+
+  // Load the embedding settings for this content type
+  useEffect(() => {
+    if (!slug) return;
+
+    get(`/${PLUGIN_ID}/content-types/${encodeURIComponent(slug)}`)
+      .then((response: any) => setTypeConfig(response.data))
+      .catch((error: any) => console.error("Failed to load content type config:", error));
+  }, [slug, get]);
+
+  const chunkSize = typeConfig?.chunkSize || DEFAULT_CHUNK_SIZE;
 
   // Check for existing embedding when component mounts or id changes
   useEffect(() => {
@@ -170,9 +191,14 @@ export function EmbeddingsModal() {
     if (!modifiedValues) return [];
 
     const fields: TextFieldOption[] = [];
+    const configuredFields = typeConfig?.fields;
+
+    // Check all fields in form values, or only the configured ones
+    const entries: Array<[string, any]> = configuredFields
+      ? configuredFields.map((name) => [name, modifiedValues[name]])
+      : Object.entries(modifiedValues);
 
-    // Check all fields in form values
-    for (const [name, value] of Object.entries(modifiedValues)) {
+    for (const [name, value] of entries) {
       // Skip non-content fields
       if (["id", "documentId", "createdAt", "updatedAt", "publishedAt", "locale", "localizations"].includes(name)) {
         continue;
@@ -201,11 +227,14 @@ export function EmbeddingsModal() {
       }
     }
 
-    // Sort by character count (longest first) to prioritize main content
-    fields.sort((a, b) => b.charCount - a.charCount);
+    // Sort by character count (longest first) to prioritize main content,
+    // unless the config lists the fields in order
+    if (!configuredFields) {
+      fields.sort((a, b) => b.charCount - a.charCount);
+    }
 
     return fields;
-  }, [modifiedValues, extractTextFromField]);
+  }, [modifiedValues, extractTextFromField, typeConfig]);
 
   // Update available fields when form values change
   useEffect(() => {
@@ -229,8 +258,8 @@ export function EmbeddingsModal() {
   };
 
   const contentLength = content.length;
-  const willChunk = contentLength > CHUNK_SIZE;
-  const estimatedChunks = willChunk ? Math.ceil(contentLength / (CHUNK_SIZE - 200)) : 1;
+  const willChunk = contentLength > chunkSize;
+  const estimatedChunks = willChunk ? Math.ceil(contentLength / (chunkSize - 200)) : 1;
   // Check if content is saved (has an id) - don't require publish
   const isSaved = !!id;
 
@@ -248,7 +277,8 @@ export function EmbeddingsModal() {
   const isValid = title.trim() && content.trim(); // No length limit - auto-chunks if needed
 
   function handleOpenCreate() {
-    setTitle("");
+    const titleValue = typeConfig?.titleField ? modifiedValues[typeConfig.titleField] : "";
+    setTitle(typeof titleValue === "string" ? titleValue : "");
     // Refresh available fields and select first one
     const fields = detectTextFields();
     setAvailableFields(fields);
@@ -282,8 +312,8 @@ export function EmbeddingsModal() {
 
     try {
       const contentToEmbed = content.trim();
-      const shouldChunk = contentToEmbed.length > CHUNK_SIZE;
-      const chunks = shouldChunk ? Math.ceil(contentToEmbed.length / CHUNK_SIZE) : 1;
+      const shouldChunk = contentToEmbed.length > chunkSize;
+      const chunks = shouldChunk ? Math.ceil(contentToEmbed.length / chunkSize) : 1;
 
       if (shouldChunk) {
         console.log(`Creating chunked embedding: ${contentToEmbed.length} chars (~${chunks} parts)`);
@@ -332,8 +362,8 @@ export function EmbeddingsModal() {
     }
   }
 
-  // Don't render if not in edit view context
-  if (!form || !id) {
+  // Don't render if not in edit view context or embeddings are disabled for this type
+  if (!form || !id || typeConfig?.enabled === false) {
     return null;
   }
 
@@ -365,6 +395,12 @@ export function EmbeddingsModal() {
         </Button>
       )}
 
+      {typeConfig?.autoEmbed && (
+        <Typography variant="pi" textColor="neutral600" style={{ display: "block", marginTop: "0.5rem" }}>
+          Embeddings for this content type update automatically on save
+        </Typography>
+      )}
+
       {!isSaved && !existingEmbedding && (
         <Typography variant="pi" textColor="neutral600" style={{ display: "block", marginTop: "0.5rem" }}>
           Save content first to create embedding
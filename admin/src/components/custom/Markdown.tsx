@@ -1,6 +1,11 @@
 import React from "react";
 import ReactMarkdown from "react-markdown";
+import { NavLink } from "react-router-dom";
 import styled from "styled-components";
+import { Link } from "@strapi/design-system";
+
+import { PLUGIN_ID } from "../../pluginId";
+import type { Citation } from "../../utils/api";
 
 const MarkdownWrapper = styled.div`
   /* Headers */
@@ -181,14 +186,67 @@ const MarkdownWrapper = styled.div`
   }
 `;
 
+const CITATION_HREF_PREFIX = "#citation-";
+
+/**
+ * Turn citation markers like [1] or [1, 2] into Markdown links. Markers
+ * without a matching citation are left as text.
+ */
+function linkCitations(text: string, citations: Map<number, Citation>): string {
+  return text.replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, (marker, numbers: string) => {
+    const cited = numbers.split(",").map((n) => parseInt(n, 10));
+    if (!cited.every((n) => citations.has(n))) {
+      return marker;
+    }
+    return cited.map((n) => `[\\[${n}\\]](${CITATION_HREF_PREFIX}${n})`).join("");
+  });
+}
+
 interface MarkdownProps {
   children: string;
+  /** Sources cited in the text as [1], [2]; rendered as links to their embeddings */
+  citations?: Citation[];
 }
 
-export function Markdown({ children }: MarkdownProps) {
+export function Markdown({ children, citations }: MarkdownProps) {
+  if (!citations?.length) {
+    return (
+      <MarkdownWrapper>
+        <ReactMarkdown>{children}</ReactMarkdown>
+      </MarkdownWrapper>
+    );
+  }
+
+  const citationsByNumber = new Map(citations.map((citation) => [citation.number, citation]));
+
   return (
     <MarkdownWrapper>
-      <ReactMarkdown>{children}</ReactMarkdown>
+      <ReactMarkdown
+        components={{
+          a: ({ href, children: linkText }) => {
+            const citation = href?.startsWith(CITATION_HREF_PREFIX)
+              ? citationsByNumber.get(Number(href.slice(CITATION_HREF_PREFIX.length)))
+              : undefined;
+
+            if (!citation) {
+              return <a href={href}>{linkText}</a>;
+            }
+
+            const part = citation.chunkIndex !== null ? ` (part ${citation.chunkIndex + 1})` : "";
+            return (
+              <Link
+                tag={NavLink}
+                to={`/plugins/${PLUGIN_ID}/embeddings/${citation.documentId}`}
+                title={`${citation.title}${part}`}
+              >
+                {linkText}
+              </Link>
+            );
+          },
+        }}
+      >
+        {linkCitations(children, citationsByNumber)}
+      </ReactMarkdown>
     </MarkdownWrapper>
   );
 }
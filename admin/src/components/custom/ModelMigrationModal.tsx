@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Modal,
+  Button,
+  Flex,
+  Typography,
+  Box,
+  Loader,
+  Badge,
+  Divider,
+  Alert,
+  Card,
+  ProgressBar,
+} from '@strapi/design-system';
+import { ArrowClockwise, ArrowRight, ArrowsCounterClockwise, Check, Stack } from '@strapi/icons';
+import { useFetchClient } from '@strapi/strapi/admin';
+import { modelMigrationApi, ModelMigration, ModelMigrationStatus } from '../../utils/api';
+
+const POLL_INTERVAL = 2000;
+
+interface ModelMigrationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATE_LABELS: Record<ModelMigration['state'], string> = {
+  running: 'Re-embedding',
+  ready: 'Ready to switch',
+  failed: 'Failed',
+  switched: 'Switched',
+  completed: 'Completed',
+  rolledBack: 'Rolled back',
+};
+
+export function ModelMigrationModal({ isOpen, onClose }: ModelMigrationModalProps) {
+  const fetchClient = useFetchClient();
+
+  const [status, setStatus] = useState<ModelMigrationStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await modelMigrationApi.getStatus(fetchClient));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load model migration');
+    }
+  }, [fetchClient]);
+
+  // Load when opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+    refresh().finally(() => setIsLoading(false));
+  }, [isOpen, refresh]);
+
+  // Poll while re-embedding
+  useEffect(() => {
+    if (!isOpen || status?.migration?.state !== 'running') return;
+
+    const timer = setTimeout(refresh, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [isOpen, status, refresh]);
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || failureMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const migration = status?.migration || null;
+
+  const renderModels = () => {
+    if (!status) return null;
+
+    return (
+      <Card padding={5} background="neutral0" shadow="tableShadow">
+        <Flex direction="column" gap={3} alignItems="stretch">
+          <Flex justifyContent="space-between" alignItems="center">
+            <Typography variant="pi" textColor="neutral600">Serving queries</Typography>
+            <Typography variant="omega" fontWeight="semiBold">
+              {status.active ? `${status.active.model} (${status.active.tableName})` : 'Not initialized'}
+            </Typography>
+          </Flex>
+          <Divider />
+          <Flex justifyContent="space-between" alignItems="center">
+            <Typography variant="pi" textColor="neutral600">Migration target</Typography>
+            <Typography variant="omega" fontWeight="semiBold">
+              {status.target
+                ? `${status.target.model} via ${status.target.provider} (${status.target.dimensions} dimensions)`
+                : 'Not configured'}
+            </Typography>
+          </Flex>
+        </Flex>
+      </Card>
+    );
+  };
+
+  const renderMigration = () => {
+    if (!migration) return null;
+
+    const percent = migration.total > 0 ? Math.round((migration.processed / migration.total) * 100) : 0;
+    const errors = migration.errorLog || [];
+
+    return (
+      <Card padding={5} background="neutral0" shadow="tableShadow">
+        <Flex direction="column" gap={4} alignItems="stretch">
+          <Flex justifyContent="space-between" alignItems="center">
+            <Typography variant="delta" fontWeight="bold">
+              {migration.sourceModel} → {migration.targetModel}
+            </Typography>
+            <Badge active={migration.state === 'ready' || migration.state === 'switched'}>
+              {migration.rollbackRequested && migration.state === 'running'
+                ? 'Rolling back'
+                : STATE_LABELS[migration.state]}
+            </Badge>
+          </Flex>
+
+          <Divider />
+
+          <ProgressBar value={percent} />
+          <Typography variant="pi" textColor="neutral600">
+            {migration.processed} of {migration.total} entries re-embedded into {migration.targetTable}
+            {migration.failed > 0 && `, ${migration.failed} failed`}
+          </Typography>
+
+          {errors.length > 0 && (
+            <Box padding={3} background="danger100" hasRadius>
+              <Typography variant="sigma" textColor="danger700">
+                Errors
+              </Typography>
+              <Box paddingTop={2}>
+                {errors.slice(0, 3).map((err, i) => (
+                  <Typography key={i} variant="pi" textColor="danger600" tag="p">
+                    • {err.documentId ? `${err.documentId}: ` : ''}{err.error}
+                  </Typography>
+                ))}
+                {errors.length > 3 && (
+                  <Typography variant="pi" textColor="danger600" fontWeight="bold">
+                    + {errors.length - 3} more errors
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          )}
+
+          {migration.state === 'ready' && migration.failed > 0 && (
+            <Typography variant="pi" textColor="neutral600">
+              Switching over now leaves the failed entries out of search. Resume to retry them.
+            </Typography>
+          )}
+
+          {migration.state === 'failed' && (
+            <Typography variant="pi" textColor="neutral600">
+              Resume to embed the entries {migration.targetTable} is still missing, or roll back.
+            </Typography>
+          )}
+
+          {migration.state === 'switched' && (
+            <Typography variant="pi" textColor="neutral600">
+              Queries now use {migration.targetModel}. {migration.sourceTable} still receives every
+              write, so you can roll back. Complete the migration to remove it.
+            </Typography>
+          )}
+        </Flex>
+      </Card>
+    );
+  };
+
+  const renderActions = () => {
+    if (!migration) {
+      return (
+        <Button
+          onClick={() => runAction(() => modelMigrationApi.start(fetchClient), 'Failed to start migration')}
+          loading={isWorking}
+          disabled={!status?.target || !status.active}
+          startIcon={<Stack />}
+        >
+          Start Migration
+        </Button>
+      );
+    }
+
+    const canResume = migration.state === 'failed' || (migration.state === 'ready' && migration.failed > 0);
+    const force = migration.state === 'ready' && migration.failed > 0;
+
+    return (
+      <Flex gap={2}>
+        <Button
+          variant="danger-light"
+          onClick={() => runAction(() => modelMigrationApi.rollback(fetchClient), 'Failed to roll back')}
+          loading={isWorking}
+          disabled={migration.rollbackRequested}
+          startIcon={<ArrowsCounterClockwise />}
+        >
+          Roll Back
+        </Button>
+        {canResume && (
+          <Button
+            variant="secondary"
+            onClick={() => runAction(() => modelMigrationApi.resume(fetchClient), 'Failed to resume migration')}
+            loading={isWorking}
+            startIcon={<ArrowClockwise />}
+          >
+            Resume
+          </Button>
+        )}
+        {migration.state === 'switched' ? (
+          <Button
+            onClick={() => runAction(() => modelMigrationApi.complete(fetchClient), 'Failed to complete migration')}
+            loading={isWorking}
+            startIcon={<Check />}
+          >
+            Complete
+          </Button>
+        ) : (
+          <Button
+            variant={force ? 'danger' : 'default'}
+            onClick={() => runAction(() => modelMigrationApi.switchOver(fetchClient, force), 'Failed to switch')}
+            loading={isWorking}
+            disabled={migration.state !== 'ready'}
+            startIcon={<ArrowRight />}
+          >
+            {force ? 'Switch Anyway' : 'Switch Over'}
+          </Button>
+        )}
+      </Flex>
+    );
+  };
+
+  return (
+    <Modal.Root open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <Modal.Content>
+        <Modal.Header>
+          <Flex gap={2} alignItems="center">
+            <Stack />
+            <Modal.Title>Embedding Model Migration</Modal.Title>
+          </Flex>
+        </Modal.Header>
+
+        <Modal.Body>
+          <Flex direction="column" gap={5} alignItems="stretch">
+            {error && (
+              <Alert variant="danger" closeLabel="Close" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            {isLoading && !status ? (
+              <Flex justifyContent="center" padding={6}>
+                <Loader>Loading...</Loader>
+              </Flex>
+            ) : (
+              <>
+                {renderModels()}
+                {!migration && (
+                  <Typography variant="pi" textColor="neutral500">
+                    {status?.target
+                      ? 'Re-embeds every entry with the target model into a new table in the background. ' +
+                        'Queries keep using the current model until you switch over.'
+                      : 'Set nextEmbeddingProvider in the plugin config to the model you want to migrate to.'}
+                  </Typography>
+                )}
+                {status?.lastCompleted && !migration && (
+                  <Typography variant="pi" textColor="neutral600">
+                    The last migration moved to {status.lastCompleted.targetModel}. Set
+                    embeddingProvider to that model and vectorStore.tableName to{' '}
+                    {status.lastCompleted.targetTable} in the plugin config, and remove
+                    nextEmbeddingProvider.
+                  </Typography>
+                )}
+                {renderMigration()}
+              </>
+            )}
+          </Flex>
+        </Modal.Body>
+
+        <Modal.Footer>
+          <Flex justifyContent="space-between" width="100%">
+            <Modal.Close>
+              <Button variant="tertiary">Close</Button>
+            </Modal.Close>
+            {renderActions()}
+          </Flex>
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+}
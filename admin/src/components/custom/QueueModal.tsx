@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Modal,
+  Button,
+  Flex,
+  Typography,
+  Box,
+  Loader,
+  Badge,
+  Divider,
+  Alert,
+  Card,
+  IconButton,
+} from '@strapi/design-system';
+import { ArrowClockwise, Trash } from '@strapi/icons';
+import { useFetchClient } from '@strapi/strapi/admin';
+import { queueApi, QueueItem, QueueStats } from '../../utils/api';
+
+const POLL_INTERVAL = 5000;
+const PAGE_SIZE = 20;
+
+interface QueueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRetry?: () => void;
+}
+
+export function QueueModal({ isOpen, onClose, onRetry }: QueueModalProps) {
+  const fetchClient = useFetchClient();
+
+  const [stats, setStats] = useState<QueueStats | null>(null);
+  const [failedItems, setFailedItems] = useState<QueueItem[]>([]);
+  const [totalFailed, setTotalFailed] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [queueStats, failed] = await Promise.all([
+        queueApi.getStats(fetchClient),
+        queueApi.getAll(fetchClient, { state: 'dead', pageSize: PAGE_SIZE }),
+      ]);
+      setStats(queueStats);
+      setFailedItems(failed.data || []);
+      setTotalFailed(failed.totalCount || 0);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load queue');
+    }
+  }, [fetchClient]);
+
+  // Load when opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+    refresh().finally(() => setIsLoading(false));
+  }, [isOpen, refresh]);
+
+  // Keep counts current while work is outstanding
+  useEffect(() => {
+    if (!isOpen || !stats || stats.pending + stats.processing === 0) return;
+
+    const timer = setTimeout(refresh, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [isOpen, stats, refresh]);
+
+  const handleRetry = async (item: QueueItem) => {
+    try {
+      await queueApi.retry(fetchClient, item.documentId);
+      await refresh();
+      onRetry?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry item');
+    }
+  };
+
+  const handleRetryAll = async () => {
+    setIsRetrying(true);
+    try {
+      await queueApi.retryAll(fetchClient);
+      await refresh();
+      onRetry?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry items');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleDelete = async (item: QueueItem) => {
+    try {
+      await queueApi.delete(fetchClient, item.documentId);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove item');
+    }
+  };
+
+  const renderStats = () => {
+    if (!stats) return null;
+
+    return (
+      <Card padding={5} background="neutral0" shadow="tableShadow">
+        <Flex gap={6} justifyContent="center">
+          <Flex direction="column" alignItems="center" gap={1}>
+            <Typography variant="alpha" textColor="neutral800">{stats.pending}</Typography>
+            <Typography variant="pi" textColor="neutral600">Pending</Typography>
+          </Flex>
+          <Flex direction="column" alignItems="center" gap={1}>
+            <Typography variant="alpha" textColor="primary600">{stats.processing}</Typography>
+            <Typography variant="pi" textColor="neutral600">Processing</Typography>
+          </Flex>
+          <Flex direction="column" alignItems="center" gap={1}>
+            <Typography variant="alpha" textColor={stats.dead > 0 ? 'danger600' : 'neutral800'}>
+              {stats.dead}
+            </Typography>
+            <Typography variant="pi" textColor="neutral600">Failed</Typography>
+          </Flex>
+        </Flex>
+      </Card>
+    );
+  };
+
+  const renderFailedItems = () => {
+    if (failedItems.length === 0) {
+      return (
+        <Box padding={4} background="success100" hasRadius>
+          <Typography textColor="success700">No failed items.</Typography>
+        </Box>
+      );
+    }
+
+    return (
+      <Card padding={5} background="neutral0" shadow="tableShadow">
+        <Flex direction="column" gap={3} alignItems="stretch">
+          <Typography variant="delta" fontWeight="bold">
+            Failed Items
+          </Typography>
+          <Divider />
+          {failedItems.map((item) => (
+            <Flex key={item.documentId} justifyContent="space-between" alignItems="flex-start" gap={3}>
+              <Flex direction="column" alignItems="flex-start" gap={1}>
+                <Typography variant="omega" fontWeight="semiBold">
+                  {item.title || item.embeddingDocumentId}
+                </Typography>
+                <Typography variant="pi" textColor="danger600">
+                  {item.lastError || 'Unknown error'}
+                </Typography>
+                <Typography variant="pi" textColor="neutral500">
+                  <Badge>{item.attempts} attempts</Badge>
+                  {item.failedAt && ` Failed ${new Date(item.failedAt).toLocaleString()}`}
+                </Typography>
+              </Flex>
+              <Flex gap={1}>
+                <IconButton label="Retry" onClick={() => handleRetry(item)}>
+                  <ArrowClockwise />
+                </IconButton>
+                <IconButton label="Remove" onClick={() => handleDelete(item)}>
+                  <Trash />
+                </IconButton>
+              </Flex>
+            </Flex>
+          ))}
+          {totalFailed > failedItems.length && (
+            <Typography variant="pi" textColor="neutral600" fontWeight="bold">
+              + {totalFailed - failedItems.length} more failed items
+            </Typography>
+          )}
+        </Flex>
+      </Card>
+    );
+  };
+
+  return (
+    <Modal.Root open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <Modal.Content>
+        <Modal.Header>
+          <Modal.Title>Embedding Queue</Modal.Title>
+        </Modal.Header>
+
+        <Modal.Body>
+          <Flex direction="column" gap={5} alignItems="stretch">
+            {error && (
+              <Alert variant="danger" closeLabel="Close" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            {isLoading && !stats ? (
+              <Flex justifyContent="center" padding={6}>
+                <Loader>Loading...</Loader>
+              </Flex>
+            ) : (
+              <>
+                {renderStats()}
+                <Typography variant="pi" textColor="neutral500">
+                  Embedding work is retried with increasing delays. Items that keep failing are
+                  kept here until you retry or remove them.
+                </Typography>
+                {renderFailedItems()}
+              </>
+            )}
+          </Flex>
+        </Modal.Body>
+
+        <Modal.Footer>
+          <Flex justifyContent="space-between" width="100%">
+            <Modal.Close>
+              <Button variant="tertiary">Close</Button>
+            </Modal.Close>
+            <Button
+              onClick={handleRetryAll}
+              loading={isRetrying}
+              disabled={totalFailed === 0}
+              startIcon={<ArrowClockwise />}
+            >
+              Retry All Failed
+            </Button>
+          </Flex>
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Modal,
+  Button,
+  Flex,
+  Typography,
+  Box,
+  Loader,
+  Badge,
+  Divider,
+  SingleSelect,
+  SingleSelectOption,
+  Alert,
+  Card,
+  ProgressBar,
+} from '@strapi/design-system';
+import { ArrowClockwise, Cross } from '@strapi/icons';
+import { useFetchClient } from '@strapi/strapi/admin';
+import { jobsApi, EmbeddingJob, EmbeddableContentType } from '../../utils/api';
+
+const POLL_INTERVAL = 2000;
+const ALL_LOCALES = '__all__';
+
+interface ReindexModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReindexComplete?: () => void;
+}
+
+interface Locale {
+  code: string;
+  name: string;
+}
+
+const STATE_LABELS: Record<EmbeddingJob['state'], string> = {
+  pending: 'Pending',
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function isActive(job: EmbeddingJob | null): boolean {
+  return job?.state === 'pending' || job?.state === 'running';
+}
+
+export function ReindexModal({ isOpen, onClose, onReindexComplete }: ReindexModalProps) {
+  const fetchClient = useFetchClient();
+
+  const [contentTypes, setContentTypes] = useState<EmbeddableContentType[]>([]);
+  const [locales, setLocales] = useState<Locale[]>([]);
+  const [contentType, setContentType] = useState('');
+  const [locale, setLocale] = useState(ALL_LOCALES);
+  const [job, setJob] = useState<EmbeddingJob | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedType = contentTypes.find((type) => type.uid === contentType);
+
+  // Load content types, locales and the latest job when opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    Promise.all([
+      jobsApi.listContentTypes(fetchClient),
+      jobsApi.getAll(fetchClient, { limit: 1 }),
+      fetchClient.get('/i18n/locales').then((response: any) => response.data).catch(() => []),
+    ])
+      .then(([types, jobs, availableLocales]) => {
+        setContentTypes(types);
+        setLocales(Array.isArray(availableLocales) ? availableLocales : []);
+        setJob(jobs[0] || null);
+        if (jobs[0] && isActive(jobs[0])) {
+          setContentType(jobs[0].contentType);
+        } else if (types.length > 0) {
+          setContentType((current) => current || types[0].uid);
+        }
+      })
+      .catch((err: any) => setError(err.message || 'Failed to load reindex options'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const refreshJob = useCallback(async (id: string) => {
+    try {
+      const updated = await jobsApi.getOne(fetchClient, id);
+      setJob(updated);
+      if (!isActive(updated) && onReindexComplete) {
+        onReindexComplete();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to refresh job');
+    }
+  }, [fetchClient, onReindexComplete]);
+
+  // Poll the job while it is active
+  useEffect(() => {
+    if (!isOpen || !job || !isActive(job)) return;
+
+    const timer = setTimeout(() => refreshJob(job.documentId), POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [isOpen, job, refreshJob]);
+
+  const handleStart = async () => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const started = await jobsApi.startReindex(fetchClient, {
+        contentType,
+        locale: locale === ALL_LOCALES ? undefined : locale,
+      });
+      setJob(started);
+    } catch (err: any) {
+      setError(err.message || 'Failed to start reindex');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+
+    try {
+      setJob(await jobsApi.cancel(fetchClient, job.documentId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel job');
+    }
+  };
+
+  const renderJob = () => {
+    if (!job) return null;
+
+    const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+    const errors = job.errorLog || [];
+
+    return (
+      <Card padding={5} background="neutral0" shadow="tableShadow">
+        <Flex direction="column" gap={4} alignItems="stretch">
+          <Flex justifyContent="space-between" alignItems="center">
+            <Typography variant="delta" fontWeight="bold">
+              {job.contentType}
+              {job.targetLocale ? ` (${job.targetLocale})` : ''}
+            </Typography>
+            <Badge active={job.state === 'completed'}>
+              {job.cancelRequested && isActive(job) ? 'Cancelling' : STATE_LABELS[job.state]}
+            </Badge>
+          </Flex>
+
+          <Divider />
+
+          <ProgressBar value={percent} />
+          <Typography variant="pi" textColor="neutral600">
+            {job.processed} of {job.total} entries processed
+            {job.failed > 0 && `, ${job.failed} failed`}
+          </Typography>
+
+          {errors.length > 0 && (
+            <Box padding={3} background="danger100" hasRadius>
+              <Typography variant="sigma" textColor="danger700">
+                Errors
+              </Typography>
+              <Box paddingTop={2}>
+                {errors.slice(0, 3).map((err, i) => (
+                  <Typography key={i} variant="pi" textColor="danger600" tag="p">
+                    • {err.documentId ? `${err.documentId}: ` : ''}{err.error}
+                  </Typography>
+                ))}
+                {errors.length > 3 && (
+                  <Typography variant="pi" textColor="danger600" fontWeight="bold">
+                    + {errors.length - 3} more errors
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          )}
+        </Flex>
+      </Card>
+    );
+  };
+
+  const jobIsActive = isActive(job);
+
+  return (
+    <Modal.Root open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <Modal.Content>
+        <Modal.Header>
+          <Flex gap={2} alignItems="center">
+            <ArrowClockwise />
+            <Modal.Title>Reindex Content</Modal.Title>
+          </Flex>
+        </Modal.Header>
+
+        <Modal.Body>
+          <Flex direction="column" gap={5} alignItems="stretch">
+            {error && (
+              <Alert variant="danger" closeLabel="Close" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            {isLoading && contentTypes.length === 0 ? (
+              <Flex justifyContent="center" padding={6}>
+                <Loader>Loading...</Loader>
+              </Flex>
+            ) : (
+              <Card padding={5} background="neutral0" shadow="tableShadow">
+                <Flex direction="column" gap={4} alignItems="stretch">
+                  <Typography variant="delta" fontWeight="bold">
+                    Content Type
+                  </Typography>
+
+                  <SingleSelect
+                    value={contentType}
+                    onChange={(value: string) => {
+                      setContentType(value);
+                      setLocale(ALL_LOCALES);
+                    }}
+                    disabled={jobIsActive}
+                    placeholder="Select a content type"
+                  >
+                    {contentTypes.map((type) => (
+                      <SingleSelectOption key={type.uid} value={type.uid}>
+                        {type.displayName}
+                      </SingleSelectOption>
+                    ))}
+                  </SingleSelect>
+
+                  {selectedType?.localized && locales.length > 0 && (
+                    <SingleSelect
+                      value={locale}
+                      onChange={(value: string) => setLocale(value)}
+                      disabled={jobIsActive}
+                    >
+                      <SingleSelectOption value={ALL_LOCALES}>All locales</SingleSelectOption>
+                      {locales.map((l) => (
+                        <SingleSelectOption key={l.code} value={l.code}>
+                          {l.name || l.code}
+                        </SingleSelectOption>
+                      ))}
+                    </SingleSelect>
+                  )}
+
+                  <Typography variant="pi" textColor="neutral500">
+                    Embeds every {selectedType?.draftAndPublish && !selectedType.includeDrafts ? 'published ' : ''}
+                    entry, including entries that have never been embedded. Runs in the background;
+                    you can close this dialog and come back later.
+                  </Typography>
+                </Flex>
+              </Card>
+            )}
+
+            {renderJob()}
+          </Flex>
+        </Modal.Body>
+
+        <Modal.Footer>
+          <Flex justifyContent="space-between" width="100%">
+            <Modal.Close>
+              <Button variant="tertiary">Close</Button>
+            </Modal.Close>
+            {jobIsActive ? (
+              <Button
+                onClick={handleCancel}
+                startIcon={<Cross />}
+                variant="danger-light"
+                disabled={job?.cancelRequested}
+              >
+                Cancel Job
+              </Button>
+            ) : (
+              <Button
+                onClick={handleStart}
+                loading={isLoading}
+                disabled={!contentType}
+                startIcon={<ArrowClockwise />}
+              >
+                Start Reindex
+              </Button>
+            )}
+          </Flex>
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+}
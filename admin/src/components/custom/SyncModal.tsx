@@ -207,6 +207,13 @@ export function SyncModal({ isOpen, onClose, onSyncComplete }: SyncModalProps) {
               </Box>
             </>
           )}
+
+          {status.unverified > 0 && (
+            <Typography variant="pi" textColor="neutral600">
+              {status.unverified} entries were stored without a content hash and could not be
+              compared. Recreate All adds the missing hashes.
+            </Typography>
+          )}
         </Flex>
       </Card>
     );
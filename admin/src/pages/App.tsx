@@ -4,6 +4,9 @@ import { Routes, Route } from 'react-router-dom';
 import { HomePage } from './HomePage';
 import CreateEmbeddings from './CreateEmbeddings';
 import EmbeddingDetails from './EmbeddingDetails';
+import Conversations from './Conversations';
+import ConversationDetails from './ConversationDetails';
+import Prompts from './Prompts';
 
 const App = () => {
   return (
@@ -12,6 +15,9 @@ const App = () => {
       <Route path="*" element={<Page.Error />} />
       <Route path="/embeddings" element={<CreateEmbeddings />} />
       <Route path="/embeddings/:id" element={<EmbeddingDetails />} />
+      <Route path="/conversations" element={<Conversations />} />
+      <Route path="/conversations/:id" element={<ConversationDetails />} />
+      <Route path="/prompts" element={<Prompts />} />
     </Routes>
   );
 };
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Main,
+  Box,
+  Flex,
+  Button,
+  Typography,
+  Dialog,
+  Loader,
+  Link,
+  Divider,
+} from "@strapi/design-system";
+import { Discuss, Trash } from "@strapi/icons";
+import { useFetchClient, Layouts, useNotification } from "@strapi/strapi/admin";
+
+import { PLUGIN_ID } from "../pluginId";
+import { BackLink } from "../components/custom/BackLink";
+import { Markdown } from "../components/custom/Markdown";
+import {
+  conversationsApi,
+  type SavedConversation,
+  type SavedConversationMessage,
+} from "../utils/api";
+
+interface MessageProps {
+  message: SavedConversationMessage;
+  onNavigate: (id: string) => void;
+}
+
+function Message({ message, onNavigate }: Readonly<MessageProps>) {
+  const details = [
+    new Date(message.createdAt).toLocaleString(),
+    message.latencyMs !== null ? `${(message.latencyMs / 1000).toFixed(1)}s` : null,
+    message.model,
+  ].filter(Boolean);
+
+  return (
+    <Box padding={4} background="neutral0" hasRadius>
+      <Flex justifyContent="space-between" alignItems="flex-start" gap={4}>
+        <Typography variant="delta">{message.question}</Typography>
+        <Typography variant="pi" textColor="neutral600" style={{ whiteSpace: "nowrap" }}>
+          {details.join(" · ")}
+        </Typography>
+      </Flex>
+      {message.standaloneQuestion && message.standaloneQuestion !== message.question && (
+        <Box paddingTop={1}>
+          <Typography variant="pi" textColor="neutral600">
+            Searched for: {message.standaloneQuestion}
+          </Typography>
+        </Box>
+      )}
+      <Box paddingTop={3}>
+        {message.answer ? (
+          <Markdown citations={message.citations || []}>{message.answer}</Markdown>
+        ) : (
+          <Typography textColor="neutral600">No answer</Typography>
+        )}
+      </Box>
+      {message.sources && message.sources.length > 0 && (
+        <Box paddingTop={3}>
+          <Typography variant="sigma" textColor="neutral600">
+            Sources
+          </Typography>
+          {message.sources.map((source, index) => (
+            <Box key={index} paddingTop={1}>
+              <Link onClick={() => onNavigate(source.metadata.id)} style={{ cursor: "pointer" }}>
+                {source.metadata.title || source.metadata.id}
+              </Link>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default function ConversationDetails() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const fetchClient = useFetchClient();
+  const { toggleNotification } = useNotification();
+
+  const [conversation, setConversation] = useState<SavedConversation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    conversationsApi
+      .getOne(fetchClient, id)
+      .then(setConversation)
+      .catch((error) => console.error("Failed to fetch conversation:", error))
+      .finally(() => setIsLoading(false));
+  }, [id, fetchClient]);
+
+  const handleDelete = async () => {
+    if (!conversation || isDeleting) return;
+    setIsDeleting(true);
+    try {
+      await conversationsApi.delete(fetchClient, conversation.documentId);
+      navigate(`/plugins/${PLUGIN_ID}/conversations`);
+    } catch (error: any) {
+      toggleNotification({
+        type: "danger",
+        message: error.message || "Failed to delete conversation",
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  const backLink = <BackLink to={`/plugins/${PLUGIN_ID}/conversations`} />;
+
+  if (isLoading) {
+    return (
+      <Main>
+        <Layouts.Header title="Loading..." navigationAction={backLink} />
+        <Layouts.Content>
+          <Flex justifyContent="center" padding={8}>
+            <Loader>Loading conversation...</Loader>
+          </Flex>
+        </Layouts.Content>
+      </Main>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <Main>
+        <Layouts.Header title="Conversation Not Found" navigationAction={backLink} />
+        <Layouts.Content>
+          <Box padding={8} textAlign="center">
+            <Typography>The requested conversation could not be found.</Typography>
+          </Box>
+        </Layouts.Content>
+      </Main>
+    );
+  }
+
+  const messages = Array.isArray(conversation.messages) ? conversation.messages : [];
+
+  return (
+    <Main>
+      <Layouts.Header
+        title={conversation.title}
+        subtitle={`Started ${new Date(conversation.createdAt).toLocaleString()}`}
+        primaryAction={
+          <Flex gap={2}>
+            <Button
+              variant="secondary"
+              startIcon={<Discuss />}
+              onClick={() => navigate(`/plugins/${PLUGIN_ID}?conversation=${conversation.documentId}`)}
+            >
+              Continue in chat
+            </Button>
+            <Dialog.Root>
+              <Dialog.Trigger>
+                <Button variant="danger-light" startIcon={<Trash />}>
+                  Delete
+                </Button>
+              </Dialog.Trigger>
+              <Dialog.Content>
+                <Dialog.Header>Confirm Deletion</Dialog.Header>
+                <Dialog.Body>
+                  <Flex direction="column" alignItems="center" gap={2}>
+                    <Typography>Are you sure you want to delete this conversation?</Typography>
+                    <Typography variant="pi" textColor="neutral600">
+                      This action cannot be undone.
+                    </Typography>
+                  </Flex>
+                </Dialog.Body>
+                <Dialog.Footer>
+                  <Dialog.Cancel>
+                    <Button variant="tertiary">Cancel</Button>
+                  </Dialog.Cancel>
+                  <Dialog.Action>
+                    <Button variant="danger" onClick={handleDelete} startIcon={<Trash />} loading={isDeleting}>
+                      {isDeleting ? "Deleting..." : "Delete"}
+                    </Button>
+                  </Dialog.Action>
+                </Dialog.Footer>
+              </Dialog.Content>
+            </Dialog.Root>
+          </Flex>
+        }
+        navigationAction={backLink}
+      />
+      <Layouts.Content>
+        <Box background="neutral100" padding={1} hasRadius>
+          <Flex direction="column" gap={1} alignItems="stretch">
+            {messages.map((message, index) => (
+              <React.Fragment key={message.documentId}>
+                {index > 0 && <Divider />}
+                <Message
+                  message={message}
+                  onNavigate={(embeddingId) => navigate(`/plugins/${PLUGIN_ID}/embeddings/${embeddingId}`)}
+                />
+              </React.Fragment>
+            ))}
+          </Flex>
+        </Box>
+      </Layouts.Content>
+    </Main>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import {
+  Main,
+  Box,
+  Button,
+  Dialog,
+  Flex,
+  IconButton,
+  Loader,
+  TextInput,
+  Typography,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  VisuallyHidden,
+  Pagination,
+  PreviousLink,
+  PageLink,
+  NextLink,
+} from '@strapi/design-system';
+import { Discuss, Search, Trash } from '@strapi/icons';
+import { useFetchClient, Layouts, useNotification } from '@strapi/strapi/admin';
+
+import { PLUGIN_ID } from '../pluginId';
+import { BackLink } from '../components/custom/BackLink';
+import { conversationsApi, SavedConversation } from '../utils/api';
+
+const PAGE_SIZE = 20;
+const SEARCH_DELAY = 500;
+
+const StyledTr = styled(Tr)`
+  cursor: pointer;
+  &:hover {
+    background-color: #f0f0ff;
+  }
+`;
+
+function messageCount(conversation: SavedConversation): number {
+  const { messages } = conversation;
+  if (!messages) return 0;
+  return Array.isArray(messages) ? messages.length : messages.count;
+}
+
+interface ConfirmDeleteProps {
+  onConfirm: () => void;
+}
+
+function ConfirmDeleteConversation({ onConfirm }: Readonly<ConfirmDeleteProps>) {
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger>
+        <IconButton withTooltip={false} label="Delete conversation" onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+          <Trash />
+        </IconButton>
+      </Dialog.Trigger>
+      <Dialog.Content onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+        <Dialog.Header>Confirm Deletion</Dialog.Header>
+        <Dialog.Body>
+          <Flex direction="column" alignItems="center" gap={2}>
+            <Typography>Are you sure you want to delete this conversation?</Typography>
+            <Typography variant="pi" textColor="neutral600">
+              This action cannot be undone.
+            </Typography>
+          </Flex>
+        </Dialog.Body>
+        <Dialog.Footer>
+          <Dialog.Cancel>
+            <Button variant="tertiary">Cancel</Button>
+          </Dialog.Cancel>
+          <Dialog.Action>
+            <Button variant="danger" onClick={onConfirm} startIcon={<Trash />}>
+              Delete
+            </Button>
+          </Dialog.Action>
+        </Dialog.Footer>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
+
+export default function Conversations() {
+  const fetchClient = useFetchClient();
+  const navigate = useNavigate();
+  const { toggleNotification } = useNotification();
+
+  const [conversations, setConversations] = useState<SavedConversation[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [search, setSearch] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE);
+
+  const fetchData = useCallback(
+    async (searchTerm: string, page: number) => {
+      setIsLoading(true);
+      try {
+        const result = await conversationsApi.getAll(fetchClient, {
+          search: searchTerm || undefined,
+          page,
+          pageSize: PAGE_SIZE,
+        });
+        setConversations(result.data);
+        setTotalCount(result.totalCount);
+      } catch (error) {
+        console.error('Failed to fetch conversations:', error);
+        setConversations([]);
+        setTotalCount(0);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [fetchClient]
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchData(search, currentPage), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [search, currentPage, fetchData]);
+
+  // Reset to page 1 when search changes
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [search]);
+
+  const handleReopen = (documentId: string) => {
+    navigate(`/plugins/${PLUGIN_ID}?conversation=${documentId}`);
+  };
+
+  const handleDelete = async (documentId: string) => {
+    try {
+      await conversationsApi.delete(fetchClient, documentId);
+      await fetchData(search, currentPage);
+    } catch (error: any) {
+      toggleNotification({
+        type: 'danger',
+        message: error.message || 'Failed to delete conversation',
+      });
+    }
+  };
+
+  const renderTable = () => {
+    if (isLoading && conversations.length === 0) {
+      return (
+        <Flex justifyContent="center" padding={8}>
+          <Loader>Loading...</Loader>
+        </Flex>
+      );
+    }
+
+    if (conversations.length === 0) {
+      return (
+        <Box padding={8} textAlign="center">
+          <Typography textColor="neutral600">
+            {search
+              ? `No conversations found matching "${search}"`
+              : 'No conversations yet. Questions asked in the chat are saved here.'}
+          </Typography>
+        </Box>
+      );
+    }
+
+    return (
+      <Box padding={0} background="neutral100">
+        <Table colCount={4} rowCount={conversations.length + 1}>
+          <Thead>
+            <Tr>
+              <Th>
+                <Typography variant="sigma">Title</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Questions</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Last activity</Typography>
+              </Th>
+              <Th>
+                <VisuallyHidden>Actions</VisuallyHidden>
+              </Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {conversations.map((conversation) => (
+              <StyledTr
+                key={conversation.documentId}
+                onClick={() => navigate(`/plugins/${PLUGIN_ID}/conversations/${conversation.documentId}`)}
+              >
+                <Td>
+                  <Typography textColor="neutral800">{conversation.title}</Typography>
+                </Td>
+                <Td>
+                  <Typography textColor="neutral800">{messageCount(conversation)}</Typography>
+                </Td>
+                <Td>
+                  <Typography textColor="neutral800">
+                    {new Date(conversation.updatedAt).toLocaleString()}
+                  </Typography>
+                </Td>
+                <Td>
+                  <Flex gap={1}>
+                    <IconButton
+                      withTooltip={false}
+                      label="Continue in chat"
+                      onClick={(e: React.MouseEvent) => {
+                        e.stopPropagation();
+                        handleReopen(conversation.documentId);
+                      }}
+                    >
+                      <Discuss />
+                    </IconButton>
+                    <ConfirmDeleteConversation onConfirm={() => handleDelete(conversation.documentId)} />
+                  </Flex>
+                </Td>
+              </StyledTr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    );
+  };
+
+  return (
+    <Main>
+      <Layouts.Header
+        title="Chat History"
+        subtitle={`${totalCount} conversations`}
+        navigationAction={<BackLink to={`/plugins/${PLUGIN_ID}`} />}
+      />
+      <Layouts.Content>
+        <Box paddingBottom={4}>
+          <TextInput
+            placeholder="Search questions and answers..."
+            name="search"
+            value={search}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+            startAction={<Search />}
+          />
+        </Box>
+        {renderTable()}
+        {totalPages > 1 && (
+          <Flex justifyContent="center" paddingTop={6}>
+            <Pagination activePage={currentPage} pageCount={totalPages}>
+              <PreviousLink
+                onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                disabled={currentPage === 1}
+              >
+                Previous
+              </PreviousLink>
+              {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                <PageLink key={page} number={page} onClick={() => setCurrentPage(page)}>
+                  {page}
+                </PageLink>
+              ))}
+              <NextLink
+                onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                disabled={currentPage === totalPages}
+              >
+                Next
+              </NextLink>
+            </Pagination>
+          </Flex>
+        )}
+      </Layouts.Content>
+    </Main>
+  );
+}
@@ -13,7 +13,7 @@ import {
   PageLink,
   NextLink,
 } from '@strapi/design-system';
-import { Plus, Search, ArrowClockwise } from '@strapi/icons';
+import { Plus, Search, ArrowClockwise, Database, Clock, Stack, Discuss, Cog } from '@strapi/icons';
 import { useFetchClient, Layouts } from '@strapi/strapi/admin';
 import qs from 'qs';
 
@@ -22,6 +22,9 @@ import { EmptyState } from '../components/custom/EmptyState';
 import { EmbeddingsTable } from '../components/custom/EmbeddingsTable';
 import { ChatModal } from '../components/custom/ChatModal';
 import { SyncModal } from '../components/custom/SyncModal';
+import { ReindexModal } from '../components/custom/ReindexModal';
+import { QueueModal } from '../components/custom/QueueModal';
+import { ModelMigrationModal } from '../components/custom/ModelMigrationModal';
 
 interface Embedding {
   id: number;
@@ -59,6 +62,9 @@ export function HomePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+  const [isReindexModalOpen, setIsReindexModalOpen] = useState(false);
+  const [isQueueModalOpen, setIsQueueModalOpen] = useState(false);
+  const [isModelModalOpen, setIsModelModalOpen] = useState(false);
 
   const totalPages = embeddings ? Math.ceil(embeddings.totalCount / PAGE_SIZE) : 0;
 
@@ -115,6 +121,21 @@ export function HomePage() {
 
   const headerActions = (
     <Flex gap={2}>
+      <Button variant="secondary" startIcon={<Discuss />} onClick={() => navigate(`/plugins/${PLUGIN_ID}/conversations`)}>
+        History
+      </Button>
+      <Button variant="secondary" startIcon={<Cog />} onClick={() => navigate(`/plugins/${PLUGIN_ID}/prompts`)}>
+        Prompts
+      </Button>
+      <Button variant="secondary" startIcon={<Clock />} onClick={() => setIsQueueModalOpen(true)}>
+        Queue
+      </Button>
+      <Button variant="secondary" startIcon={<Stack />} onClick={() => setIsModelModalOpen(true)}>
+        Model
+      </Button>
+      <Button variant="secondary" startIcon={<Database />} onClick={() => setIsReindexModalOpen(true)}>
+        Reindex
+      </Button>
       <Button variant="secondary" startIcon={<ArrowClockwise />} onClick={() => setIsSyncModalOpen(true)}>
         Sync
       </Button>
@@ -143,6 +164,20 @@ export function HomePage() {
           onClose={() => setIsSyncModalOpen(false)}
           onSyncComplete={handleSyncComplete}
         />
+        <ReindexModal
+          isOpen={isReindexModalOpen}
+          onClose={() => setIsReindexModalOpen(false)}
+          onReindexComplete={handleSyncComplete}
+        />
+        <QueueModal
+          isOpen={isQueueModalOpen}
+          onClose={() => setIsQueueModalOpen(false)}
+          onRetry={handleSyncComplete}
+        />
+        <ModelMigrationModal
+          isOpen={isModelModalOpen}
+          onClose={() => setIsModelModalOpen(false)}
+        />
       </Main>
     );
   }
@@ -164,6 +199,20 @@ export function HomePage() {
           onClose={() => setIsSyncModalOpen(false)}
           onSyncComplete={handleSyncComplete}
         />
+        <ReindexModal
+          isOpen={isReindexModalOpen}
+          onClose={() => setIsReindexModalOpen(false)}
+          onReindexComplete={handleSyncComplete}
+        />
+        <QueueModal
+          isOpen={isQueueModalOpen}
+          onClose={() => setIsQueueModalOpen(false)}
+          onRetry={handleSyncComplete}
+        />
+        <ModelMigrationModal
+          isOpen={isModelModalOpen}
+          onClose={() => setIsModelModalOpen(false)}
+        />
       </Main>
     );
   }
@@ -278,6 +327,20 @@ export function HomePage() {
         onClose={() => setIsSyncModalOpen(false)}
         onSyncComplete={handleSyncComplete}
       />
+      <ReindexModal
+        isOpen={isReindexModalOpen}
+        onClose={() => setIsReindexModalOpen(false)}
+        onReindexComplete={handleSyncComplete}
+      />
+      <QueueModal
+        isOpen={isQueueModalOpen}
+        onClose={() => setIsQueueModalOpen(false)}
+        onRetry={handleSyncComplete}
+      />
+      <ModelMigrationModal
+        isOpen={isModelModalOpen}
+        onClose={() => setIsModelModalOpen(false)}
+      />
     </Main>
   );
 }
@@ -0,0 +1,337 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Main,
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  Field,
+  Flex,
+  IconButton,
+  Loader,
+  Modal,
+  TextInput,
+  Textarea,
+  Typography,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  VisuallyHidden,
+} from '@strapi/design-system';
+import { Pencil, Plus, Trash } from '@strapi/icons';
+import { useFetchClient, Layouts, useNotification } from '@strapi/strapi/admin';
+
+import { PLUGIN_ID } from '../pluginId';
+import { BackLink } from '../components/custom/BackLink';
+import { promptsApi, PromptPreset, PromptPresetData } from '../utils/api';
+
+const EMPTY_PRESET: PromptPresetData = {
+  name: '',
+  description: '',
+  template: '',
+  isDefault: false,
+};
+
+interface PresetModalProps {
+  /** The preset to edit, null to create one */
+  preset: PromptPreset | null;
+  defaultTemplate: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function PresetModal({ preset, defaultTemplate, onClose, onSaved }: Readonly<PresetModalProps>) {
+  const fetchClient = useFetchClient();
+
+  const [data, setData] = useState<PromptPresetData>(
+    preset
+      ? { name: preset.name, description: preset.description, template: preset.template, isDefault: preset.isDefault }
+      : { ...EMPTY_PRESET, template: defaultTemplate }
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<PromptPresetData>) => setData((current) => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      if (preset) {
+        await promptsApi.update(fetchClient, preset.documentId, data);
+      } else {
+        await promptsApi.create(fetchClient, data);
+      }
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save prompt preset');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal.Root open onOpenChange={(open: boolean) => !open && onClose()}>
+      <Modal.Content>
+        <Modal.Header>
+          <Modal.Title>{preset ? `Edit ${preset.name}` : 'New Prompt Preset'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Flex direction="column" gap={4} alignItems="stretch">
+            {error && (
+              <Alert variant="danger" closeLabel="Close" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+            <Field.Root required>
+              <Field.Label>Name</Field.Label>
+              <TextInput
+                placeholder="support-portal"
+                value={data.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ name: e.target.value })}
+              />
+              <Field.Hint>Letters, digits, - and _. Requests pick the preset with prompt=name.</Field.Hint>
+            </Field.Root>
+            <Field.Root>
+              <Field.Label>Description</Field.Label>
+              <TextInput
+                value={data.description || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ description: e.target.value })}
+              />
+            </Field.Root>
+            <Field.Root required>
+              <Field.Label>System prompt</Field.Label>
+              <Textarea
+                value={data.template}
+                rows={12}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => update({ template: e.target.value })}
+              />
+              <Field.Hint>
+                {'{context}'} is replaced with the numbered source documents and is required. {'{question}'} is the
+                question and {'{history}'} the earlier conversation; without {'{history}'}, the conversation is sent
+                as chat messages.
+              </Field.Hint>
+            </Field.Root>
+            <Checkbox
+              checked={data.isDefault}
+              onCheckedChange={(checked: boolean | 'indeterminate') => update({ isDefault: checked === true })}
+            >
+              Use for requests that do not name a preset
+            </Checkbox>
+          </Flex>
+        </Modal.Body>
+        <Modal.Footer>
+          <Modal.Close>
+            <Button variant="tertiary">Cancel</Button>
+          </Modal.Close>
+          <Button onClick={handleSave} loading={isSaving}>
+            Save
+          </Button>
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+}
+
+interface ConfirmDeleteProps {
+  onConfirm: () => void;
+}
+
+function ConfirmDeletePreset({ onConfirm }: Readonly<ConfirmDeleteProps>) {
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger>
+        <IconButton withTooltip={false} label="Delete preset">
+          <Trash />
+        </IconButton>
+      </Dialog.Trigger>
+      <Dialog.Content>
+        <Dialog.Header>Confirm Deletion</Dialog.Header>
+        <Dialog.Body>
+          <Flex direction="column" alignItems="center" gap={2}>
+            <Typography>Are you sure you want to delete this prompt preset?</Typography>
+            <Typography variant="pi" textColor="neutral600">
+              Requests that name it will fail.
+            </Typography>
+          </Flex>
+        </Dialog.Body>
+        <Dialog.Footer>
+          <Dialog.Cancel>
+            <Button variant="tertiary">Cancel</Button>
+          </Dialog.Cancel>
+          <Dialog.Action>
+            <Button variant="danger" onClick={onConfirm} startIcon={<Trash />}>
+              Delete
+            </Button>
+          </Dialog.Action>
+        </Dialog.Footer>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
+
+export default function Prompts() {
+  const fetchClient = useFetchClient();
+  const { toggleNotification } = useNotification();
+
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [defaultTemplate, setDefaultTemplate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  // undefined: closed, null: creating a preset
+  const [editing, setEditing] = useState<PromptPreset | null | undefined>(undefined);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const result = await promptsApi.getAll(fetchClient);
+      setPresets(result.data);
+      setDefaultTemplate(result.defaultTemplate);
+    } catch (error) {
+      console.error('Failed to fetch prompt presets:', error);
+      setPresets([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchClient]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleSaved = () => {
+    setEditing(undefined);
+    fetchData();
+  };
+
+  const handleDelete = async (documentId: string) => {
+    try {
+      await promptsApi.delete(fetchClient, documentId);
+      await fetchData();
+    } catch (error: any) {
+      toggleNotification({
+        type: 'danger',
+        message: error.message || 'Failed to delete prompt preset',
+      });
+    }
+  };
+
+  const renderTable = () => {
+    if (isLoading) {
+      return (
+        <Flex justifyContent="center" padding={8}>
+          <Loader>Loading...</Loader>
+        </Flex>
+      );
+    }
+
+    if (presets.length === 0) {
+      return (
+        <Box padding={8} textAlign="center">
+          <Typography textColor="neutral600">
+            No prompt presets yet. All answers use the built-in prompt below.
+          </Typography>
+        </Box>
+      );
+    }
+
+    return (
+      <Box padding={0} background="neutral100">
+        <Table colCount={4} rowCount={presets.length + 1}>
+          <Thead>
+            <Tr>
+              <Th>
+                <Typography variant="sigma">Name</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Description</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Last updated</Typography>
+              </Th>
+              <Th>
+                <VisuallyHidden>Actions</VisuallyHidden>
+              </Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {presets.map((preset) => (
+              <Tr key={preset.documentId}>
+                <Td>
+                  <Flex gap={2}>
+                    <Typography textColor="neutral800" fontWeight="bold">
+                      {preset.name}
+                    </Typography>
+                    {preset.isDefault && <Badge active>Default</Badge>}
+                  </Flex>
+                </Td>
+                <Td>
+                  <Typography textColor="neutral800">{preset.description || '-'}</Typography>
+                </Td>
+                <Td>
+                  <Typography textColor="neutral800">{new Date(preset.updatedAt).toLocaleString()}</Typography>
+                </Td>
+                <Td>
+                  <Flex gap={1}>
+                    <IconButton withTooltip={false} label="Edit preset" onClick={() => setEditing(preset)}>
+                      <Pencil />
+                    </IconButton>
+                    <ConfirmDeletePreset onConfirm={() => handleDelete(preset.documentId)} />
+                  </Flex>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    );
+  };
+
+  const hasDefault = presets.some((preset) => preset.isDefault);
+
+  return (
+    <Main>
+      <Layouts.Header
+        title="Prompt Presets"
+        subtitle="System prompts for RAG answers, picked per request with the prompt parameter"
+        primaryAction={
+          <Button startIcon={<Plus />} onClick={() => setEditing(null)} disabled={isLoading}>
+            Add preset
+          </Button>
+        }
+        navigationAction={<BackLink to={`/plugins/${PLUGIN_ID}`} />}
+      />
+      <Layouts.Content>
+        {renderTable()}
+        {!isLoading && (
+          <Box paddingTop={6}>
+            <Typography variant="delta">Built-in prompt</Typography>
+            <Box paddingTop={1} paddingBottom={2}>
+              <Typography variant="pi" textColor="neutral600">
+                {hasDefault
+                  ? 'Not used while a preset is the default.'
+                  : 'Used for requests that do not name a preset.'}
+              </Typography>
+            </Box>
+            <Box padding={4} background="neutral0" hasRadius>
+              <Typography tag="pre" style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>
+                {defaultTemplate}
+              </Typography>
+            </Box>
+          </Box>
+        )}
+      </Layouts.Content>
+      {editing !== undefined && (
+        <PresetModal
+          preset={editing}
+          defaultTemplate={defaultTemplate}
+          onClose={() => setEditing(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+    </Main>
+  );
+}
@@ -15,6 +15,20 @@ interface CreateEmbeddingData {
   };
 }
 
+export interface ConversationMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface StreamConversationData {
+  question: string;
+  history?: ConversationMessage[];
+  /** Start a saved conversation */
+  save?: boolean;
+  /** Continue a saved conversation; its history comes from the server */
+  conversationId?: string;
+}
+
 interface EmbeddingsListParams {
   page?: number;
   pageSize?: number;
@@ -57,6 +71,66 @@ export const embeddingsApi = {
     );
     return response.data;
   },
+
+  /**
+   * Streamed RAG answer: onToken receives the answer as it is generated,
+   * the returned promise the full response with sources. Uses fetch since
+   * the admin fetch client only returns whole responses.
+   */
+  streamConversation: async (
+    token: string | null,
+    data: StreamConversationData,
+    onToken: (text: string) => void
+  ) => {
+    const backendURL = (window as any).strapi?.backendURL || "";
+    const response = await fetch(`${backendURL}${API_BASE}/conversation/stream`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error?.message || `Request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const payload = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !payload) continue;
+
+        const eventData = JSON.parse(payload);
+        if (event === "token") {
+          onToken(eventData.text);
+        } else if (event === "done") {
+          return eventData;
+        } else if (event === "error") {
+          throw new Error(eventData.error);
+        }
+      }
+    }
+
+    throw new Error("The answer stream ended unexpectedly");
+  },
 };
 
 export interface SyncStatus {
@@ -66,6 +140,8 @@ export interface SyncStatus {
   missingInStrapi: number;
   missingInNeon: number;
   contentDifferences: number;
+  /** Entries stored before content hashing, not compared */
+  unverified: number;
 }
 
 export interface SyncResult {
@@ -116,3 +192,263 @@ export const syncApi = {
     return response.data;
   },
 };
+
+export type JobState = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface EmbeddingJob {
+  documentId: string;
+  jobType: "reindex";
+  state: JobState;
+  contentType: string;
+  targetLocale: string | null;
+  total: number;
+  processed: number;
+  failed: number;
+  errorLog: Array<{ documentId: string; locale: string | null; error: string }> | null;
+  cancelRequested: boolean;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+export interface EmbeddableContentType {
+  uid: string;
+  displayName: string;
+  localized: boolean;
+  draftAndPublish: boolean;
+  includeDrafts: boolean;
+  autoEmbed: boolean;
+}
+
+export const jobsApi = {
+  listContentTypes: async (fetchClient: { get: Function }): Promise<EmbeddableContentType[]> => {
+    const response = await fetchClient.get(`${SYNC_BASE}/content-types`);
+    return response.data?.data || [];
+  },
+
+  startReindex: async (
+    fetchClient: { post: Function },
+    options: { contentType: string; locale?: string }
+  ): Promise<EmbeddingJob> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/jobs/reindex`, options);
+    return response.data;
+  },
+
+  getAll: async (
+    fetchClient: { get: Function },
+    params?: { limit?: number; contentType?: string }
+  ): Promise<EmbeddingJob[]> => {
+    const queryString = params ? `?${qs.stringify(params)}` : "";
+    const response = await fetchClient.get(`${SYNC_BASE}/jobs${queryString}`);
+    return response.data?.data || [];
+  },
+
+  getOne: async (fetchClient: { get: Function }, id: string): Promise<EmbeddingJob> => {
+    const response = await fetchClient.get(`${SYNC_BASE}/jobs/${id}`);
+    return response.data;
+  },
+
+  cancel: async (fetchClient: { post: Function }, id: string): Promise<EmbeddingJob> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/jobs/${id}/cancel`);
+    return response.data;
+  },
+};
+
+export type QueueItemState = "pending" | "processing" | "dead";
+
+export interface QueueItem {
+  documentId: string;
+  embeddingDocumentId: string;
+  title: string | null;
+  state: QueueItemState;
+  attempts: number;
+  nextRunAt: string | null;
+  lastError: string | null;
+  failedAt: string | null;
+  updatedAt: string;
+}
+
+export type QueueStats = Record<QueueItemState, number>;
+
+export const queueApi = {
+  getAll: async (
+    fetchClient: { get: Function },
+    params?: { state?: QueueItemState; page?: number; pageSize?: number }
+  ): Promise<{ data: QueueItem[]; count: number; totalCount: number }> => {
+    const queryString = params ? `?${qs.stringify(params)}` : "";
+    const response = await fetchClient.get(`${SYNC_BASE}/queue${queryString}`);
+    return response.data;
+  },
+
+  getStats: async (fetchClient: { get: Function }): Promise<QueueStats> => {
+    const response = await fetchClient.get(`${SYNC_BASE}/queue/stats`);
+    return response.data;
+  },
+
+  retry: async (fetchClient: { post: Function }, id: string): Promise<QueueItem> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/queue/${id}/retry`);
+    return response.data;
+  },
+
+  retryAll: async (fetchClient: { post: Function }): Promise<{ retried: number }> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/queue/retry`);
+    return response.data;
+  },
+
+  delete: async (fetchClient: { del: Function }, id: string): Promise<QueueItem> => {
+    const response = await fetchClient.del(`${SYNC_BASE}/queue/${id}`);
+    return response.data;
+  },
+};
+
+export type ModelMigrationState = "running" | "ready" | "failed" | "switched" | "completed" | "rolledBack";
+
+export interface ModelMigration {
+  documentId: string;
+  state: ModelMigrationState;
+  sourceProvider: string;
+  sourceModel: string;
+  sourceDimensions: number | null;
+  sourceTable: string;
+  targetProvider: string;
+  targetModel: string;
+  targetDimensions: number | null;
+  targetTable: string;
+  total: number;
+  processed: number;
+  failed: number;
+  errorLog: Array<{ documentId: string; error: string }> | null;
+  rollbackRequested: boolean;
+  startedAt: string | null;
+  switchedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ModelMigrationStatus {
+  active: { model: string; tableName: string } | null;
+  /** From nextEmbeddingProvider in the plugin config */
+  target: { provider: string; model: string; dimensions: number } | null;
+  /** Open migration, if any */
+  migration: ModelMigration | null;
+  lastCompleted: ModelMigration | null;
+}
+
+export const modelMigrationApi = {
+  getStatus: async (fetchClient: { get: Function }): Promise<ModelMigrationStatus> => {
+    const response = await fetchClient.get(`${SYNC_BASE}/model-migration`);
+    return response.data;
+  },
+
+  start: async (fetchClient: { post: Function }): Promise<ModelMigration> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/model-migration/start`);
+    return response.data;
+  },
+
+  switchOver: async (fetchClient: { post: Function }, force = false): Promise<ModelMigration> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/model-migration/switch`, { force });
+    return response.data;
+  },
+
+  resume: async (fetchClient: { post: Function }): Promise<ModelMigration> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/model-migration/resume`);
+    return response.data;
+  },
+
+  rollback: async (fetchClient: { post: Function }): Promise<ModelMigration> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/model-migration/rollback`);
+    return response.data;
+  },
+
+  complete: async (fetchClient: { post: Function }): Promise<ModelMigration> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/model-migration/complete`);
+    return response.data;
+  },
+};
+
+export interface Citation {
+  number: number;
+  title: string;
+  /** documentId of the cited embedding */
+  documentId: string;
+  chunkIndex: number | null;
+  sourceDocumentId: string | null;
+}
+
+export interface SavedConversationMessage {
+  documentId: string;
+  question: string;
+  standaloneQuestion: string | null;
+  answer: string | null;
+  sources: Array<{ pageContent: string; metadata: Record<string, any> }> | null;
+  citations: Citation[] | null;
+  latencyMs: number | null;
+  model: string | null;
+  createdAt: string;
+}
+
+export interface SavedConversation {
+  documentId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Count in lists, the messages (oldest first) in getOne */
+  messages?: { count: number } | SavedConversationMessage[];
+}
+
+export const conversationsApi = {
+  getAll: async (
+    fetchClient: { get: Function },
+    params?: { search?: string; page?: number; pageSize?: number }
+  ): Promise<{ data: SavedConversation[]; count: number; totalCount: number }> => {
+    const queryString = params ? `?${qs.stringify(params)}` : "";
+    const response = await fetchClient.get(`${SYNC_BASE}/conversations${queryString}`);
+    return response.data;
+  },
+
+  getOne: async (fetchClient: { get: Function }, id: string): Promise<SavedConversation> => {
+    const response = await fetchClient.get(`${SYNC_BASE}/conversations/${id}`);
+    return response.data;
+  },
+
+  delete: async (fetchClient: { del: Function }, id: string): Promise<SavedConversation> => {
+    const response = await fetchClient.del(`${SYNC_BASE}/conversations/${id}`);
+    return response.data;
+  },
+};
+
+export interface PromptPreset {
+  documentId: string;
+  name: string;
+  description: string | null;
+  template: string;
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+export type PromptPresetData = Pick<PromptPreset, "name" | "description" | "template" | "isDefault">;
+
+export const promptsApi = {
+  getAll: async (fetchClient: { get: Function }): Promise<{ data: PromptPreset[]; defaultTemplate: string }> => {
+    const response = await fetchClient.get(`${SYNC_BASE}/prompts`);
+    return response.data;
+  },
+
+  create: async (fetchClient: { post: Function }, data: PromptPresetData): Promise<PromptPreset> => {
+    const response = await fetchClient.post(`${SYNC_BASE}/prompts`, data);
+    return response.data;
+  },
+
+  update: async (
+    fetchClient: { put: Function },
+    id: string,
+    data: Partial<PromptPresetData>
+  ): Promise<PromptPreset> => {
+    const response = await fetchClient.put(`${SYNC_BASE}/prompts/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (fetchClient: { del: Function }, id: string): Promise<PromptPreset> => {
+    const response = await fetchClient.del(`${SYNC_BASE}/prompts/${id}`);
+    return response.data;
+  },
+};
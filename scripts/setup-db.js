@@ -2,89 +2,43 @@
 
 /**
  * Content Embeddings - Database Setup Script
- * Sets up Neon database for RAG with pgvector
+ * Prepares a PostgreSQL database (e.g. Neon) for the plugin
  *
  * Usage:
- *   node setup-db.js <connection-string> [dimensions]
+ *   node setup-db.js <connection-string> [table-name]
  *   or
  *   NEON_CONNECTION_STRING=... node setup-db.js
  *
- * Dimensions by model:
- *   - text-embedding-3-small: 1536 (default)
- *   - text-embedding-3-large: 3072
- *   - text-embedding-ada-002: 1536
+ * The vector table itself is created and upgraded by the plugin on startup
+ * through versioned migrations (server/src/vector-stores/migrations.ts), with
+ * the dimensions of the configured embedding model. This script enables the
+ * pgvector extension ahead of time, which may need more privileges than the
+ * app's database user has, and reports the migration versions already applied.
  */
 
 const { Pool } = require("pg");
 
-const MODELS = {
-  "text-embedding-3-small": 1536,
-  "text-embedding-3-large": 3072,
-  "text-embedding-ada-002": 1536,
-};
-
-function getSQL(dimensions) {
-  return `
--- Enable pgvector extension
-CREATE EXTENSION IF NOT EXISTS vector;
-
--- Create the embeddings documents table
-CREATE TABLE IF NOT EXISTS embeddings_documents (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  content TEXT,
-  metadata JSONB,
-  embedding vector(${dimensions})
-);
-
--- Create index for similarity search (HNSW - faster for queries)
-CREATE INDEX IF NOT EXISTS embeddings_documents_embedding_hnsw_idx
-ON embeddings_documents
-USING hnsw (embedding vector_cosine_ops);
-
--- Create index on metadata for faster lookups
-CREATE INDEX IF NOT EXISTS embeddings_documents_metadata_idx
-ON embeddings_documents
-USING gin (metadata);
-`;
-}
-
 async function setup() {
   const connectionString = process.argv[2] || process.env.NEON_CONNECTION_STRING;
-  const modelOrDimensions = process.argv[3] || process.env.EMBEDDING_MODEL || "text-embedding-3-small";
-
-  // Determine dimensions from model name or use directly if it's a number
-  let dimensions;
-  let modelName;
-  if (MODELS[modelOrDimensions]) {
-    modelName = modelOrDimensions;
-    dimensions = MODELS[modelOrDimensions];
-  } else if (!isNaN(parseInt(modelOrDimensions))) {
-    dimensions = parseInt(modelOrDimensions);
-    modelName = `custom (${dimensions}d)`;
-  } else {
-    console.error(`Error: Unknown model "${modelOrDimensions}"`);
-    console.error(`Available models: ${Object.keys(MODELS).join(", ")}`);
-    process.exit(1);
-  }
+  const tableName = process.argv[3] || "embeddings_documents";
 
   if (!connectionString) {
     console.error("Error: No connection string provided");
     console.error("");
     console.error("Usage:");
-    console.error("  node setup-db.js <connection-string> [model]");
-    console.error("");
-    console.error("Models:");
-    Object.entries(MODELS).forEach(([name, dims]) => {
-      console.error(`  ${name}: ${dims} dimensions`);
-    });
+    console.error("  node setup-db.js <connection-string> [table-name]");
     console.error("");
     console.error("Example:");
-    console.error("  node setup-db.js 'postgresql://...' text-embedding-3-small");
+    console.error("  node setup-db.js 'postgresql://...'");
     process.exit(1);
   }
 
-  console.log("Setting up database for Content Embeddings plugin...");
-  console.log(`Model: ${modelName} (${dimensions} dimensions)\n`);
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
+    console.error(`Error: Invalid table name "${tableName}"`);
+    process.exit(1);
+  }
+
+  console.log("Setting up database for Content Embeddings plugin...\n");
 
   const pool = new Pool({
     connectionString,
@@ -92,50 +46,47 @@ async function setup() {
   });
 
   try {
-    // Run setup SQL
-    await pool.query(getSQL(dimensions));
-    console.log("Created pgvector extension");
-    console.log(`Created embeddings_documents table (${dimensions} dimensions)`);
-    console.log("Created HNSW index for similarity search");
-    console.log("Created GIN index for metadata lookups");
-
-    // Verify setup
-    const result = await pool.query(`
-      SELECT
-        'pgvector' as component,
-        CASE WHEN EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector')
-             THEN 'OK' ELSE 'MISSING' END as status
-      UNION ALL
-      SELECT
-        'table' as component,
-        CASE WHEN EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'embeddings_documents')
-             THEN 'OK' ELSE 'MISSING' END as status
-    `);
-
-    console.log("\nVerification:");
-    result.rows.forEach((row) => {
-      console.log(`  ${row.component}: ${row.status}`);
-    });
+    await pool.query("CREATE EXTENSION IF NOT EXISTS vector");
+    const extension = await pool.query("SELECT extversion FROM pg_extension WHERE extname = 'vector'");
+    console.log(`pgvector extension: OK (version ${extension.rows[0].extversion})`);
+
+    const metaTable = `${tableName}_migrations`;
+    const exists = await pool.query("SELECT to_regclass($1) IS NOT NULL AS exists", [metaTable]);
+
+    if (exists.rows[0].exists) {
+      const migrations = await pool.query(
+        `SELECT version, name, applied_at FROM ${metaTable} ORDER BY version`
+      );
+      console.log(`\nMigrations applied to ${tableName}:`);
+      migrations.rows.forEach((row) => {
+        console.log(`  ${row.version} ${row.name} (${new Date(row.applied_at).toISOString()})`);
+      });
+    } else {
+      console.log(`\n${tableName} has not been created yet. The plugin creates it on the next Strapi start.`);
+    }
 
     console.log("\n Database setup complete!\n");
     console.log("Next steps:");
     console.log("1. Add to your Strapi config/plugins.ts:");
     console.log(`
-   'content-embeddings': {
+   'strapi-content-embeddings': {
      enabled: true,
      config: {
        openAIApiKey: env('OPENAI_API_KEY'),
        neonConnectionString: env('NEON_CONNECTION_STRING'),
-       embeddingModel: '${modelName.includes('custom') ? 'text-embedding-3-small' : modelName}',
+       embeddingModel: env('EMBEDDING_MODEL', 'text-embedding-3-small'),
      },
    },
 `);
     console.log("2. Set environment variables in .env:");
     console.log("   OPENAI_API_KEY=sk-...");
     console.log("   NEON_CONNECTION_STRING=postgresql://...");
-    console.log(`   EMBEDDING_MODEL=${modelName.includes('custom') ? 'text-embedding-3-small' : modelName}`);
+    console.log("3. Start Strapi. The vector table is created and migrated automatically.");
   } catch (error) {
     console.error("Error setting up database:", error.message);
+    if (/extension "vector"/.test(error.message)) {
+      console.error("The pgvector extension must be available on the server and the user needs permission to enable it.");
+    }
     process.exit(1);
   } finally {
     await pool.end();
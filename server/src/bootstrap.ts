@@ -1,6 +1,13 @@
 import type { Core } from "@strapi/strapi";
 import { pluginManager } from "./plugin-manager";
 import { createMcpServer } from "./mcp/server";
+import {
+  isChatProviderConfigured,
+  isEmbeddingProviderConfigured,
+  resolveChatProviderConfig,
+} from "./providers";
+import { isVectorStoreConfigured } from "./vector-stores";
+import type { PluginConfigSchema } from "./config";
 
 const PLUGIN_ID = "strapi-content-embeddings";
 const OAUTH_PLUGIN_ID = "strapi-oauth-mcp-manager";
@@ -76,20 +83,44 @@ const bootstrap = async ({ strapi }: { strapi: Core.Strapi }) => {
   await strapi.admin.services.permission.actionProvider.registerMany(actions);
 
   // Initialize the plugin manager with configuration
-  const pluginConfig = strapi.config.get(`plugin::${PLUGIN_ID}`) as {
-    openAIApiKey?: string;
-    neonConnectionString?: string;
-    embeddingModel?: string;
-  };
+  const pluginConfig = (strapi.config.get(`plugin::${PLUGIN_ID}`) || {}) as PluginConfigSchema;
 
-  if (pluginConfig?.openAIApiKey && pluginConfig?.neonConnectionString) {
+  if (isEmbeddingProviderConfigured(pluginConfig) && isVectorStoreConfigured(pluginConfig)) {
     try {
+      // An open model migration decides which model and table serve queries
+      const modelMigration = strapi.plugin(PLUGIN_ID).service("model-migration");
+      if (await modelMigration.failInterruptedMigration()) {
+        strapi.log.warn(`[${PLUGIN_ID}] Marked the interrupted model migration as failed`);
+      }
+      const indexes = await modelMigration.resolveIndexes();
+
       await pluginManager.initialize({
-        openAIApiKey: pluginConfig.openAIApiKey,
-        neonConnectionString: pluginConfig.neonConnectionString,
-        embeddingModel: pluginConfig.embeddingModel as any,
+        vectorStore: modelMigration.createStore(indexes.active.tableName),
+        embeddingProvider: indexes.active.provider,
+        chatProvider: isChatProviderConfigured(pluginConfig)
+          ? resolveChatProviderConfig(pluginConfig)
+          : undefined,
+        rateLimit: pluginConfig.rateLimit,
+        hybridSearch: pluginConfig.hybridSearch,
+        rag: pluginConfig.rag,
+        onUsage: (event) => {
+          strapi.plugin(PLUGIN_ID).service("usage").record(event).catch((error: any) => {
+            strapi.log.error(`[${PLUGIN_ID}] Failed to record usage:`, error);
+          });
+        },
       });
 
+      if (indexes.shadow) {
+        try {
+          await pluginManager.attachShadowIndex(
+            modelMigration.createStore(indexes.shadow.tableName),
+            indexes.shadow.provider
+          );
+        } catch (error) {
+          strapi.log.error(`[${PLUGIN_ID}] Failed to attach the model migration index:`, error);
+        }
+      }
+
       // Store plugin manager on strapi for MCP tools to access
       (strapi as any).contentEmbeddingsManager = pluginManager;
 
@@ -99,10 +130,29 @@ const bootstrap = async ({ strapi }: { strapi: Core.Strapi }) => {
     }
   } else {
     strapi.log.warn(
-      `[${PLUGIN_ID}] Missing configuration. Set openAIApiKey and neonConnectionString in plugin config.`
+      `[${PLUGIN_ID}] Missing configuration. Set a vector store (neonConnectionString or vectorStore) and an embedding provider (openAIApiKey or embeddingProvider) in plugin config.`
     );
   }
 
+  // Background jobs run in-process, so any still active were interrupted by a restart
+  try {
+    const interrupted = await strapi.plugin(PLUGIN_ID).service("jobs").failInterruptedJobs();
+    if (interrupted > 0) {
+      strapi.log.warn(`[${PLUGIN_ID}] Marked ${interrupted} interrupted job(s) as failed`);
+    }
+  } catch (error) {
+    strapi.log.error(`[${PLUGIN_ID}] Failed to check for interrupted jobs:`, error);
+  }
+
+  // Start the workers that process queued embedding work
+  if (pluginManager.isInitialized()) {
+    try {
+      await strapi.plugin(PLUGIN_ID).service("queue").start();
+    } catch (error) {
+      strapi.log.error(`[${PLUGIN_ID}] Failed to start embedding queue:`, error);
+    }
+  }
+
   // Initialize MCP server
   const plugin = strapi.plugin(PLUGIN_ID) as any;
   plugin.createMcpServer = () => createMcpServer(strapi);
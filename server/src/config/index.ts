@@ -1,16 +1,161 @@
-// Available OpenAI embedding models and their dimensions
+import type { ChatProviderConfig, EmbeddingProviderConfig } from "../providers/types";
+import type { VectorStoreConfig } from "../vector-stores/types";
+import type { PreprocessOptions } from "../utils/preprocessing";
+import type { RateLimitConfig } from "../utils/rate-limiter";
+
+// Known embedding models and their dimensions
 export const EMBEDDING_MODELS = {
+  // OpenAI (also available as Azure OpenAI deployments)
   "text-embedding-3-small": { dimensions: 1536 },
   "text-embedding-3-large": { dimensions: 3072 },
   "text-embedding-ada-002": { dimensions: 1536 },
+  // Cohere
+  "embed-english-v3.0": { dimensions: 1024 },
+  "embed-multilingual-v3.0": { dimensions: 1024 },
+  "embed-english-light-v3.0": { dimensions: 384 },
+  "embed-multilingual-light-v3.0": { dimensions: 384 },
+  // Common self-hosted models (Ollama, vLLM, LM Studio)
+  "nomic-embed-text": { dimensions: 768 },
+  "mxbai-embed-large": { dimensions: 1024 },
+  "all-minilm": { dimensions: 384 },
 } as const;
 
 export type EmbeddingModelName = keyof typeof EMBEDDING_MODELS;
 
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output?: number;
+}
+
+// Known model prices used for cost estimates (override with `pricing`)
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI embeddings
+  "text-embedding-3-small": { input: 0.02 },
+  "text-embedding-3-large": { input: 0.13 },
+  "text-embedding-ada-002": { input: 0.1 },
+  // Cohere embeddings
+  "embed-english-v3.0": { input: 0.1 },
+  "embed-multilingual-v3.0": { input: 0.1 },
+  "embed-english-light-v3.0": { input: 0.1 },
+  "embed-multilingual-light-v3.0": { input: 0.1 },
+  // OpenAI chat
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  // Anthropic chat
+  "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet-latest": { input: 3, output: 15 },
+};
+
+export const EMBEDDING_PROVIDERS = [
+  "openai",
+  "azure-openai",
+  "openai-compatible",
+  "cohere",
+  "fake",
+] as const;
+
+export const CHAT_PROVIDERS = ["openai", "openai-compatible", "anthropic", "fake"] as const;
+
+export const VECTOR_STORE_TYPES = [
+  "postgres",
+  "strapi",
+  "sqlite",
+  "memory",
+  "qdrant",
+  "chroma",
+] as const;
+
+/**
+ * Embedding settings for one content type, keyed by UID in `contentTypes`
+ */
+export interface ContentTypeEmbeddingConfig {
+  /** Allow embeddings for this type (default: true when listed) */
+  enabled?: boolean;
+  /** Attributes whose text is embedded, in order (default: all text attributes) */
+  fields?: string[];
+  /** Attribute used as the embedding title */
+  titleField?: string;
+  /** Overrides the plugin-wide chunkSize */
+  chunkSize?: number;
+  /** Overrides the plugin-wide chunkOverlap */
+  chunkOverlap?: number;
+  /** Overrides the plugin-wide autoChunk */
+  autoChunk?: boolean;
+  /** Overrides the plugin-wide preprocessContent */
+  preprocessContent?: boolean;
+  /** Individual preprocessing steps (strip HTML, strip Markdown, normalize whitespace) */
+  preprocessing?: PreprocessOptions;
+  /** Embed draft versions of Draft & Publish types instead of the published version (default: false) */
+  includeDrafts?: boolean;
+  /** Embed entries automatically on save/publish and remove them on delete (default: false) */
+  autoEmbed?: boolean;
+}
+
+/**
+ * Background queue for embedding work
+ */
+export interface QueueConfig {
+  /** Items embedded at the same time (default: 2) */
+  concurrency?: number;
+  /** Attempts before an item is moved to the dead-letter state (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms, doubled on each attempt (default: 2000) */
+  backoffDelay?: number;
+  /** Upper bound for the retry delay in ms (default: 300000) */
+  maxBackoffDelay?: number;
+  /** How often workers look for due items in ms (default: 5000) */
+  pollInterval?: number;
+  /** Items each worker embeds with one provider request and one insert (default: 50) */
+  batchSize?: number;
+}
+
+/**
+ * Keyword + vector search combined with reciprocal rank fusion
+ */
+export interface HybridSearchConfig {
+  /** Use hybrid search by default for similarity search and RAG retrieval (default: false) */
+  enabled?: boolean;
+  /** Share of the fused score given to keyword matches, from 0 (vector only) to 1 (keywords only) (default: 0.5) */
+  keywordWeight?: number;
+  /** Rank fusion constant; larger values weigh lower-ranked results more evenly (default: 60) */
+  rankConstant?: number;
+}
+
+/**
+ * How RAG answers pick their context, overridable per request
+ */
+export interface RagConfig {
+  /** Documents fetched from the vector store for each question (default: 6) */
+  candidates?: number;
+  /** Highest cosine distance a document may have to be used, from 0 to 2 (default: 1.0) */
+  maxDistance?: number;
+  /** Documents passed to the chat model as context (default: 3) */
+  contextSize?: number;
+  /** Best context documents returned to the caller as sources; cited ones are always returned (default: 1) */
+  sourceCount?: number;
+  /** Hybrid keyword matches without a vector distance admitted to the context, as maxDistance cannot judge them (default: 1) */
+  keywordOnlyLimit?: number;
+}
+
 export interface PluginConfigSchema {
   openAIApiKey?: string;
+  /** Shorthand for vectorStore.connectionString with the "postgres" vector store */
   neonConnectionString?: string;
+  /** Vector store backend settings (type, connection string, table name, SSL) */
+  vectorStore?: VectorStoreConfig;
+  /** Shorthand for embeddingProvider.model when using OpenAI */
   embeddingModel?: EmbeddingModelName;
+  /** Embedding provider settings (provider, model, dimensions, base URL, API key) */
+  embeddingProvider?: EmbeddingProviderConfig;
+  /** Target of a model migration, started from the admin panel. API keys fall back like embeddingProvider */
+  nextEmbeddingProvider?: EmbeddingProviderConfig;
+  /** Chat provider settings for RAG answers (provider, model, temperature, max tokens, base URL) */
+  chatProvider?: ChatProviderConfig;
   /** Maximum characters per chunk (default: 4000, roughly ~1000 tokens) */
   chunkSize?: number;
   /** Number of characters to overlap between chunks (default: 200) */
@@ -19,6 +164,23 @@ export interface PluginConfigSchema {
   autoChunk?: boolean;
   /** Preprocess content before embedding - strips HTML/Markdown (default: true) */
   preprocessContent?: boolean;
+  /** Content type UIDs whose entries are embedded automatically (shorthand for contentTypes[uid].autoEmbed) */
+  autoEmbed?: string[];
+  /** Per-content-type settings keyed by UID. When set, only listed types get the embedding relation */
+  contentTypes?: Record<string, ContentTypeEmbeddingConfig>;
+  /** Worker concurrency and retry settings for queued embedding work */
+  queue?: QueueConfig;
+  /** Requests and tokens per minute for provider calls (default: unlimited) */
+  rateLimit?: {
+    embedding?: RateLimitConfig;
+    chat?: RateLimitConfig;
+  };
+  /** Model prices in USD per million tokens, merged over the built-in MODEL_PRICING */
+  pricing?: Record<string, ModelPricing>;
+  /** Combine full-text keyword search with vector search */
+  hybridSearch?: HybridSearchConfig;
+  /** Retrieval settings for RAG answers */
+  rag?: RagConfig;
 }
 
 export default {
@@ -32,16 +194,79 @@ export default {
     preprocessContent: true,
   },
   validator(config: PluginConfigSchema) {
-    if (!config.openAIApiKey) {
+    const provider = config.embeddingProvider?.provider || "openai";
+
+    if (!EMBEDDING_PROVIDERS.includes(provider)) {
+      console.warn(
+        `strapi-content-embeddings: Invalid embeddingProvider.provider "${provider}". ` +
+        `Valid options: ${EMBEDDING_PROVIDERS.join(", ")}. Plugin features will be disabled.`
+      );
+    }
+    if (
+      (provider === "openai" || provider === "azure-openai") &&
+      !config.openAIApiKey &&
+      !config.embeddingProvider?.apiKey
+    ) {
       console.warn(
         "strapi-content-embeddings: openAIApiKey is not configured. Plugin features will be disabled."
       );
     }
-    if (!config.neonConnectionString) {
+    if (provider === "cohere" && !config.embeddingProvider?.apiKey) {
+      console.warn(
+        "strapi-content-embeddings: embeddingProvider.apiKey is required for Cohere. Plugin features will be disabled."
+      );
+    }
+    if (provider === "openai-compatible" && !config.embeddingProvider?.baseURL) {
+      console.warn(
+        "strapi-content-embeddings: embeddingProvider.baseURL is required for OpenAI-compatible servers. Plugin features will be disabled."
+      );
+    }
+    const chatProvider = config.chatProvider?.provider || "openai";
+
+    if (!CHAT_PROVIDERS.includes(chatProvider)) {
+      console.warn(
+        `strapi-content-embeddings: Invalid chatProvider.provider "${chatProvider}". ` +
+        `Valid options: ${CHAT_PROVIDERS.join(", ")}. RAG chat will be disabled.`
+      );
+    }
+    if (chatProvider === "anthropic" && !config.chatProvider?.apiKey) {
+      console.warn(
+        "strapi-content-embeddings: chatProvider.apiKey is required for Anthropic. RAG chat will be disabled."
+      );
+    }
+    if (chatProvider === "openai-compatible" && !config.chatProvider?.baseURL) {
+      console.warn(
+        "strapi-content-embeddings: chatProvider.baseURL is required for OpenAI-compatible servers. RAG chat will be disabled."
+      );
+    }
+    const temperature = config.chatProvider?.temperature;
+    if (temperature !== undefined && (temperature < 0 || temperature > 2)) {
+      console.warn(
+        `strapi-content-embeddings: chatProvider.temperature ${temperature} is outside the supported range (0-2).`
+      );
+    }
+    const vectorStoreType = config.vectorStore?.type || "postgres";
+
+    if (!VECTOR_STORE_TYPES.includes(vectorStoreType)) {
+      console.warn(
+        `strapi-content-embeddings: Invalid vectorStore.type "${vectorStoreType}". ` +
+        `Valid options: ${VECTOR_STORE_TYPES.join(", ")}. Plugin features will be disabled.`
+      );
+    }
+    if (
+      vectorStoreType === "postgres" &&
+      !config.neonConnectionString &&
+      !config.vectorStore?.connectionString
+    ) {
       console.warn(
         "strapi-content-embeddings: neonConnectionString is not configured. Plugin features will be disabled."
       );
     }
+    if ((vectorStoreType === "qdrant" || vectorStoreType === "chroma") && !config.vectorStore?.url) {
+      console.warn(
+        `strapi-content-embeddings: vectorStore.url is required for ${vectorStoreType}. Plugin features will be disabled.`
+      );
+    }
     if (config.embeddingModel && !EMBEDDING_MODELS[config.embeddingModel]) {
       console.warn(
         `strapi-content-embeddings: Invalid embeddingModel "${config.embeddingModel}". ` +
@@ -49,6 +274,45 @@ export default {
         `Defaulting to "text-embedding-3-small".`
       );
     }
+    const providerModel = config.embeddingProvider?.model;
+    if (
+      providerModel &&
+      !config.embeddingProvider?.dimensions &&
+      !(EMBEDDING_MODELS as Record<string, unknown>)[providerModel]
+    ) {
+      console.warn(
+        `strapi-content-embeddings: Unknown dimensions for embedding model "${providerModel}". ` +
+        `Set embeddingProvider.dimensions to match the model output.`
+      );
+    }
+    if (config.queue?.concurrency !== undefined && config.queue.concurrency < 1) {
+      console.warn(
+        `strapi-content-embeddings: queue.concurrency ${config.queue.concurrency} must be at least 1. Using 1.`
+      );
+    }
+    const keywordWeight = config.hybridSearch?.keywordWeight;
+    if (keywordWeight !== undefined && (keywordWeight < 0 || keywordWeight > 1)) {
+      console.warn(
+        `strapi-content-embeddings: hybridSearch.keywordWeight ${keywordWeight} is outside the supported range (0-1). ` +
+        `It is clamped to ${keywordWeight < 0 ? 0 : 1}.`
+      );
+    }
+    const maxDistance = config.rag?.maxDistance;
+    if (maxDistance !== undefined && (maxDistance < 0 || maxDistance > 2)) {
+      console.warn(
+        `strapi-content-embeddings: rag.maxDistance ${maxDistance} is outside the cosine distance range (0-2).`
+      );
+    }
+    const keywordOnlyLimit = config.rag?.keywordOnlyLimit;
+    if (keywordOnlyLimit !== undefined && keywordOnlyLimit < 0) {
+      console.warn(`strapi-content-embeddings: rag.keywordOnlyLimit ${keywordOnlyLimit} must be at least 0. Using 0.`);
+    }
+    for (const key of ["candidates", "contextSize"] as const) {
+      const value = config.rag?.[key];
+      if (value !== undefined && value < 1) {
+        console.warn(`strapi-content-embeddings: rag.${key} ${value} must be at least 1. Using 1.`);
+      }
+    }
     if (config.chunkSize && (config.chunkSize < 100 || config.chunkSize > 8000)) {
       console.warn(
         `strapi-content-embeddings: chunkSize ${config.chunkSize} is outside recommended range (100-8000). ` +
@@ -1,5 +1,19 @@
+import conversation from './conversation';
+import conversationMessage from './conversation-message';
 import embedding from './embedding';
+import job from './job';
+import modelMigration from './model-migration';
+import promptPreset from './prompt-preset';
+import queueItem from './queue-item';
+import usageRecord from './usage-record';
 
 export default {
+  conversation,
+  'conversation-message': conversationMessage,
   embedding,
+  job,
+  'model-migration': modelMigration,
+  'prompt-preset': promptPreset,
+  'queue-item': queueItem,
+  'usage-record': usageRecord,
 }
\ No newline at end of file
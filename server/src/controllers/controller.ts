@@ -1,7 +1,152 @@
+import { PassThrough } from "node:stream";
 import type { Core } from "@strapi/strapi";
+import { normalizeSearchFilter } from "../vector-stores/filters";
+import { DEFAULT_SYSTEM_PROMPT, validatePromptTemplate } from "../utils/prompt-template";
 
 const PLUGIN_ID = "strapi-content-embeddings";
 
+/** Preset names are used in query strings and MCP tool calls */
+const PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/i;
+
+/**
+ * Numeric query string (or request body) parameter; undefined when absent
+ */
+function parseNumberParam(ctx: any, name: string, params: Record<string, any> = ctx.query): number | undefined {
+  const value = params[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    ctx.throw(400, `${name} must be a number`);
+  }
+  return parsed;
+}
+
+/**
+ * RAG retrieval overrides from the query string or request body
+ */
+function parseRagOptions(ctx: any, params: Record<string, any> = ctx.query) {
+  const { mode } = params;
+
+  if (mode && mode !== "vector" && mode !== "hybrid") {
+    ctx.throw(400, 'mode must be "vector" or "hybrid"');
+  }
+
+  return {
+    candidates: parseNumberParam(ctx, "candidates", params),
+    maxDistance: parseNumberParam(ctx, "maxDistance", params),
+    contextSize: parseNumberParam(ctx, "contextSize", params),
+    sourceCount: parseNumberParam(ctx, "sourceCount", params),
+    keywordOnlyLimit: parseNumberParam(ctx, "keywordOnlyLimit", params),
+    keywordWeight: parseNumberParam(ctx, "keywordWeight", params),
+    mode,
+  };
+}
+
+/**
+ * System prompt template of the prompt preset named by the prompt
+ * parameter, or of the default preset when there is none. undefined means
+ * the built-in prompt.
+ */
+async function getSystemPrompt(strapi: Core.Strapi, ctx: any, params: Record<string, any>) {
+  const { prompt } = params;
+
+  if (prompt !== undefined && typeof prompt !== "string") {
+    ctx.throw(400, "prompt must be the name of a prompt preset");
+  }
+
+  const template = await strapi.plugin(PLUGIN_ID).service("prompts").resolvePrompt(prompt || undefined);
+  if (template === null) {
+    ctx.throw(400, `Unknown prompt preset "${prompt}"`);
+  }
+  return (template as string | undefined) || undefined;
+}
+
+/**
+ * Prompt preset fields from the request body. Creating requires a name and
+ * a template; updates may send only the fields they change.
+ */
+function parsePromptPreset(ctx: any, body: Record<string, any>, isUpdate: boolean) {
+  const { name, description, template, isDefault } = body;
+
+  if (name !== undefined || !isUpdate) {
+    if (typeof name !== "string" || !PRESET_NAME_PATTERN.test(name)) {
+      ctx.throw(400, "name is required and may only contain letters, digits, - and _ (at most 50 characters)");
+    }
+  }
+
+  if (template !== undefined || !isUpdate) {
+    const templateError = validatePromptTemplate(template);
+    if (templateError) {
+      ctx.throw(400, templateError);
+    }
+  }
+
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    ctx.throw(400, "description must be a string");
+  }
+
+  if (isDefault !== undefined && typeof isDefault !== "boolean") {
+    ctx.throw(400, "isDefault must be a boolean");
+  }
+
+  return {
+    ...(name !== undefined && { name: name as string }),
+    ...(description !== undefined && { description: description as string | null }),
+    ...(template !== undefined && { template: template as string }),
+    ...(isDefault !== undefined && { isDefault: isDefault as boolean }),
+  };
+}
+
+/**
+ * Earlier conversation turns from the request body; empty when absent
+ */
+function parseHistory(ctx: any, history: unknown = []) {
+  const isMessage = (message: any) =>
+    message &&
+    (message.role === "user" || message.role === "assistant") &&
+    typeof message.content === "string";
+
+  if (!Array.isArray(history) || !history.every(isMessage)) {
+    ctx.throw(400, 'history must be a list of { role: "user" | "assistant", content } messages');
+  }
+  return history as Array<{ role: "user" | "assistant"; content: string }>;
+}
+
+/**
+ * Where to save a conversation turn: the admin user asking and the saved
+ * conversation (none yet for a new one). null when the request does not ask
+ * to save the turn, with { save: true } or a conversationId.
+ */
+async function getSaveTarget(strapi: Core.Strapi, ctx: any, params: Record<string, any>) {
+  const { conversationId, save } = params;
+
+  if (!conversationId && save !== true && save !== "true") {
+    return null;
+  }
+
+  // Conversations belong to admin users, so content API requests cannot save them
+  const ownerId: number | undefined = ctx.state.auth?.strategy?.name === "admin" ? ctx.state.user?.id : undefined;
+  if (!ownerId) {
+    ctx.throw(400, "Saved conversations are only available in the admin panel");
+  }
+
+  if (conversationId) {
+    const conversation = await strapi
+      .plugin(PLUGIN_ID)
+      .service("conversations")
+      .getConversation(ownerId, String(conversationId));
+
+    if (!conversation) {
+      ctx.throw(404, "Conversation not found");
+    }
+  }
+
+  return { ownerId: ownerId as number, conversationId: conversationId ? String(conversationId) : undefined };
+}
+
 const controller = ({ strapi }: { strapi: Core.Strapi }) => ({
   async createEmbedding(ctx: any) {
     try {
@@ -88,20 +233,361 @@ const controller = ({ strapi }: { strapi: Core.Strapi }) => ({
     }
   },
 
+  /**
+   * RAG answer for a question
+   * GET /strapi-content-embeddings/embeddings-query?query=...
+   *
+   * Optional overrides: candidates, maxDistance, contextSize, sourceCount, keywordOnlyLimit, mode, keywordWeight,
+   * and prompt, the name of a prompt preset
+   */
   async queryEmbeddings(ctx: any) {
+    const { query } = ctx.query;
+    const options = { ...parseRagOptions(ctx), systemPrompt: await getSystemPrompt(strapi, ctx, ctx.query) };
+
     try {
-      const { query } = ctx.query;
       const result = await strapi
         .plugin(PLUGIN_ID)
         .service("embeddings")
-        .queryEmbeddings(query);
+        .queryEmbeddings(query, options);
+
+      ctx.body = result;
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to query embeddings");
+    }
+  },
+
+  /**
+   * RAG answer for a question in a conversation
+   * POST /strapi-content-embeddings/conversation
+   * Body: { question, history: [{ role: "user" | "assistant", content }], ...overrides }
+   *
+   * Follow-up questions are rewritten into standalone ones before retrieval.
+   * Takes the same overrides as queryEmbeddings. In the admin panel,
+   * { save: true } starts a saved conversation and { conversationId }
+   * continues one; its history then comes from the saved messages.
+   */
+  async queryConversation(ctx: any) {
+    const body = ctx.request.body || {};
+    const { question } = body;
+
+    if (!question || typeof question !== "string") {
+      ctx.throw(400, "question is required");
+    }
+
+    const history = parseHistory(ctx, body.history);
+    const options = { ...parseRagOptions(ctx, body), systemPrompt: await getSystemPrompt(strapi, ctx, body) };
+    const target = await getSaveTarget(strapi, ctx, body);
+
+    try {
+      const result = target
+        ? await strapi
+            .plugin(PLUGIN_ID)
+            .service("conversations")
+            .ask(target.ownerId, target.conversationId, question, options)
+        : await strapi
+            .plugin(PLUGIN_ID)
+            .service("embeddings")
+            .queryConversation(question, history, options);
+
+      if (!result) {
+        ctx.throw(404, "Conversation not found");
+      }
 
       ctx.body = result;
     } catch (error: any) {
+      if (error.status === 404) {
+        ctx.throw(404, error.message);
+      }
       ctx.throw(500, error.message || "Failed to query embeddings");
     }
   },
 
+  /**
+   * Streamed RAG answer over Server-Sent Events
+   * GET  /strapi-content-embeddings/embeddings-query/stream?query=...
+   * POST /strapi-content-embeddings/conversation/stream  (same body as queryConversation)
+   *
+   * Sends a "token" event ({ text }) per generated token, then one "done"
+   * event with the full answer and source documents, or an "error" event.
+   * Saves the conversation like queryConversation. When the client
+   * disconnects, the answer is aborted and not saved.
+   */
+  async streamQuery(ctx: any) {
+    const params = ctx.method === "GET" ? { ...ctx.query, question: ctx.query.query } : ctx.request.body || {};
+    const { question } = params;
+
+    if (!question || typeof question !== "string") {
+      ctx.throw(400, "question is required");
+    }
+
+    const history = parseHistory(ctx, params.history);
+    const options = { ...parseRagOptions(ctx, params), systemPrompt: await getSystemPrompt(strapi, ctx, params) };
+    const target = await getSaveTarget(strapi, ctx, params);
+
+    const stream = new PassThrough();
+    const abort = new AbortController();
+    // Not writable once ended, or destroyed after the client went away
+    const send = (event: string, data: unknown) => {
+      if (stream.writable) {
+        stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+    const end = () => {
+      if (stream.writable) {
+        stream.end();
+      }
+    };
+
+    // Long answers must not hit the socket timeout, and proxies must not buffer
+    ctx.req.socket.setTimeout(0);
+    ctx.req.socket.setNoDelay(true);
+    // The response closes before finishing when the client disconnects
+    ctx.res.on("close", () => {
+      if (!ctx.res.writableFinished) {
+        abort.abort();
+      }
+      end();
+    });
+    ctx.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    ctx.status = 200;
+    ctx.body = stream;
+
+    const onToken = (token: string) => send("token", { text: token });
+    const answer = target
+      ? strapi
+          .plugin(PLUGIN_ID)
+          .service("conversations")
+          .ask(target.ownerId, target.conversationId, question, options, onToken, abort.signal)
+      : strapi
+          .plugin(PLUGIN_ID)
+          .service("embeddings")
+          .queryConversation(question, history, options, onToken, abort.signal);
+
+    // Not awaited: Koa starts sending the stream once the handler returns
+    answer
+      .then((result: any) => {
+        if (!result) {
+          send("error", { error: "Conversation not found" });
+        } else if (result.error) {
+          send("error", { error: result.error });
+        } else {
+          send("done", result);
+        }
+      })
+      .catch((error: any) => send("error", { error: error.message || "Failed to query embeddings" }))
+      .finally(end);
+  },
+
+  /**
+   * Saved conversations of the admin user
+   * GET /strapi-content-embeddings/conversations?search=...&page=1&pageSize=20
+   */
+  async getConversations(ctx: any) {
+    try {
+      const { search, page, pageSize } = ctx.query;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("conversations")
+        .listConversations(ctx.state.user.id, {
+          search: search || undefined,
+          page: page ? parseInt(page, 10) : undefined,
+          pageSize: pageSize ? parseInt(pageSize, 10) : undefined,
+        });
+
+      ctx.body = result;
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get conversations");
+    }
+  },
+
+  /**
+   * A saved conversation with its messages
+   * GET /strapi-content-embeddings/conversations/:id
+   */
+  async getConversation(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("conversations")
+        .getConversation(ctx.state.user.id, id);
+
+      if (!result) {
+        ctx.throw(404, "Conversation not found");
+      }
+
+      ctx.body = result;
+    } catch (error: any) {
+      if (error.status === 404) {
+        ctx.throw(404, error.message);
+      }
+      ctx.throw(500, error.message || "Failed to get conversation");
+    }
+  },
+
+  /**
+   * Delete a saved conversation and its messages
+   * DELETE /strapi-content-embeddings/conversations/:id
+   */
+  async deleteConversation(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("conversations")
+        .deleteConversation(ctx.state.user.id, id);
+
+      if (!result) {
+        ctx.throw(404, "Conversation not found");
+      }
+
+      ctx.body = result;
+    } catch (error: any) {
+      if (error.status === 404) {
+        ctx.throw(404, error.message);
+      }
+      ctx.throw(500, error.message || "Failed to delete conversation");
+    }
+  },
+
+  /**
+   * Prompt presets for RAG answers, with the built-in prompt used when no
+   * preset is the default
+   * GET /strapi-content-embeddings/prompts
+   */
+  async getPromptPresets(ctx: any) {
+    try {
+      const result = await strapi.plugin(PLUGIN_ID).service("prompts").listPresets();
+
+      ctx.body = { data: result, defaultTemplate: DEFAULT_SYSTEM_PROMPT };
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get prompt presets");
+    }
+  },
+
+  /**
+   * POST /strapi-content-embeddings/prompts
+   * Body: { name, description?, template, isDefault? }
+   */
+  async createPromptPreset(ctx: any) {
+    const data = parsePromptPreset(ctx, ctx.request.body || {}, false);
+    const prompts = strapi.plugin(PLUGIN_ID).service("prompts");
+
+    if (await prompts.findPresetByName(data.name)) {
+      ctx.throw(400, `A prompt preset named "${data.name}" already exists`);
+    }
+
+    try {
+      ctx.body = await prompts.createPreset(data);
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to create prompt preset");
+    }
+  },
+
+  /**
+   * PUT /strapi-content-embeddings/prompts/:id
+   * Body: any of { name, description, template, isDefault }
+   */
+  async updatePromptPreset(ctx: any) {
+    const { id } = ctx.params;
+    const data = parsePromptPreset(ctx, ctx.request.body || {}, true);
+    const prompts = strapi.plugin(PLUGIN_ID).service("prompts");
+
+    if (data.name) {
+      const existing = await prompts.findPresetByName(data.name);
+      if (existing && existing.documentId !== id) {
+        ctx.throw(400, `A prompt preset named "${data.name}" already exists`);
+      }
+    }
+
+    try {
+      const result = await prompts.updatePreset(id, data);
+
+      if (!result) {
+        ctx.throw(404, "Prompt preset not found");
+      }
+
+      ctx.body = result;
+    } catch (error: any) {
+      if (error.status === 404) {
+        ctx.throw(404, error.message);
+      }
+      ctx.throw(500, error.message || "Failed to update prompt preset");
+    }
+  },
+
+  /**
+   * DELETE /strapi-content-embeddings/prompts/:id
+   */
+  async deletePromptPreset(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      const result = await strapi.plugin(PLUGIN_ID).service("prompts").deletePreset(id);
+
+      if (!result) {
+        ctx.throw(404, "Prompt preset not found");
+      }
+
+      ctx.body = result;
+    } catch (error: any) {
+      if (error.status === 404) {
+        ctx.throw(404, error.message);
+      }
+      ctx.throw(500, error.message || "Failed to delete prompt preset");
+    }
+  },
+
+  /**
+   * Semantic search with optional metadata filters
+   * GET /api/strapi-content-embeddings/search?query=...&limit=5&filters[collectionType]=api::article.article&filters[locale]=en
+   *
+   * mode=hybrid adds full-text keyword matches; keywordWeight (0-1) sets their share
+   */
+  async searchEmbeddings(ctx: any) {
+    const { query, limit, filters, mode } = ctx.query;
+
+    if (!query) {
+      ctx.throw(400, "query is required");
+    }
+
+    if (mode && mode !== "vector" && mode !== "hybrid") {
+      ctx.throw(400, 'mode must be "vector" or "hybrid"');
+    }
+
+    const keywordWeight = parseNumberParam(ctx, "keywordWeight");
+
+    try {
+      normalizeSearchFilter(filters);
+    } catch (error: any) {
+      ctx.throw(400, error.message);
+    }
+
+    try {
+      const results = await strapi
+        .plugin(PLUGIN_ID)
+        .service("embeddings")
+        .similaritySearch(query, limit ? parseInt(limit, 10) : 5, filters, {
+          mode,
+          keywordWeight,
+        });
+
+      ctx.body = {
+        data: results.map((doc: any) => ({
+          id: doc.id,
+          content: doc.pageContent,
+          metadata: doc.metadata,
+        })),
+      };
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to search embeddings");
+    }
+  },
+
   /**
    * Get all chunks related to a document
    * GET /api/strapi-content-embeddings/embeddings/related-chunks/:id
@@ -125,6 +611,303 @@ const controller = ({ strapi }: { strapi: Core.Strapi }) => ({
     }
   },
 
+  /**
+   * List the content types that can be embedded
+   * GET /strapi-content-embeddings/content-types
+   */
+  async listContentTypes(ctx: any) {
+    try {
+      const result = strapi
+        .plugin(PLUGIN_ID)
+        .service("auto-embed")
+        .listContentTypes();
+
+      ctx.body = { data: result };
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to list content types");
+    }
+  },
+
+  /**
+   * Get the embedding settings for a content type (used by the edit view widget)
+   * GET /strapi-content-embeddings/content-types/:uid
+   */
+  async getContentTypeConfig(ctx: any) {
+    try {
+      const { uid } = ctx.params;
+      const result = strapi
+        .plugin(PLUGIN_ID)
+        .service("auto-embed")
+        .getContentTypeConfig(uid);
+
+      ctx.body = result;
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get content type config");
+    }
+  },
+
+  /**
+   * Start a background reindex of a content type
+   * POST /strapi-content-embeddings/jobs/reindex
+   *
+   * Body: { contentType: string, locale?: string }
+   */
+  async startReindex(ctx: any) {
+    const { contentType, locale } = ctx.request.body || {};
+
+    if (!contentType) {
+      ctx.throw(400, "contentType is required");
+    }
+
+    try {
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("jobs")
+        .startReindex({ contentType, locale: locale || undefined });
+
+      ctx.body = result;
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to start reindex");
+    }
+  },
+
+  /**
+   * List recent jobs
+   * GET /strapi-content-embeddings/jobs
+   */
+  async getJobs(ctx: any) {
+    try {
+      const { limit, contentType } = ctx.query;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("jobs")
+        .listJobs({
+          limit: limit ? parseInt(limit, 10) : undefined,
+          contentType,
+        });
+
+      ctx.body = { data: result };
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get jobs");
+    }
+  },
+
+  /**
+   * Get a job with its progress
+   * GET /strapi-content-embeddings/jobs/:id
+   */
+  async getJob(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("jobs")
+        .getJob(id);
+
+      if (!result) {
+        ctx.throw(404, "Job not found");
+      }
+
+      ctx.body = result;
+    } catch (error: any) {
+      if (error.status === 404) {
+        ctx.throw(404, error.message);
+      }
+      ctx.throw(500, error.message || "Failed to get job");
+    }
+  },
+
+  /**
+   * Request cancellation of a running job
+   * POST /strapi-content-embeddings/jobs/:id/cancel
+   */
+  async cancelJob(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("jobs")
+        .cancelJob(id);
+
+      ctx.body = result;
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to cancel job");
+    }
+  },
+
+  /**
+   * List queued embedding work
+   * GET /strapi-content-embeddings/queue
+   *
+   * Query params:
+   * - state: pending | processing | dead
+   * - page, pageSize
+   */
+  async getQueueItems(ctx: any) {
+    try {
+      const { state, page, pageSize } = ctx.query;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("queue")
+        .listItems({
+          state: state || undefined,
+          page: page ? parseInt(page, 10) : undefined,
+          pageSize: pageSize ? parseInt(pageSize, 10) : undefined,
+        });
+
+      ctx.body = result;
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get queue items");
+    }
+  },
+
+  /**
+   * Count queue items by state
+   * GET /strapi-content-embeddings/queue/stats
+   */
+  async getQueueStats(ctx: any) {
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("queue").getStats();
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get queue stats");
+    }
+  },
+
+  /**
+   * Retry a dead-letter queue item
+   * POST /strapi-content-embeddings/queue/:id/retry
+   */
+  async retryQueueItem(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("queue").retryItem(id);
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to retry queue item");
+    }
+  },
+
+  /**
+   * Retry every dead-letter queue item
+   * POST /strapi-content-embeddings/queue/retry
+   */
+  async retryDeadQueueItems(ctx: any) {
+    try {
+      const retried = await strapi.plugin(PLUGIN_ID).service("queue").retryAllDead();
+      ctx.body = { retried };
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to retry queue items");
+    }
+  },
+
+  /**
+   * Remove a queue item without processing it
+   * DELETE /strapi-content-embeddings/queue/:id
+   */
+  async deleteQueueItem(ctx: any) {
+    try {
+      const { id } = ctx.params;
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("queue").deleteItem(id);
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to delete queue item");
+    }
+  },
+
+  /**
+   * Active embedding model, configured migration target and open migration
+   * GET /strapi-content-embeddings/model-migration
+   */
+  async getModelMigration(ctx: any) {
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("model-migration").getStatus();
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get model migration");
+    }
+  },
+
+  /**
+   * Start re-embedding everything with nextEmbeddingProvider into a shadow table
+   * POST /strapi-content-embeddings/model-migration/start
+   */
+  async startModelMigration(ctx: any) {
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("model-migration").startMigration();
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to start model migration");
+    }
+  },
+
+  /**
+   * Serve queries from the migrated index
+   * POST /strapi-content-embeddings/model-migration/switch
+   * Body: { force: true } switches even though some entries failed to embed
+   */
+  async switchModelMigration(ctx: any) {
+    const force = ctx.request.body?.force === true;
+
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("model-migration").switchOver({ force });
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to switch embedding model");
+    }
+  },
+
+  /**
+   * Re-embed the entries a failed or interrupted migration is missing
+   * POST /strapi-content-embeddings/model-migration/resume
+   */
+  async resumeModelMigration(ctx: any) {
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("model-migration").resumeMigration();
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to resume model migration");
+    }
+  },
+
+  /**
+   * Go back to the previous model and remove the migrated index
+   * POST /strapi-content-embeddings/model-migration/rollback
+   */
+  async rollbackModelMigration(ctx: any) {
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("model-migration").rollback();
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to roll back model migration");
+    }
+  },
+
+  /**
+   * Remove the previous index after switching
+   * POST /strapi-content-embeddings/model-migration/complete
+   */
+  async completeModelMigration(ctx: any) {
+    try {
+      ctx.body = await strapi.plugin(PLUGIN_ID).service("model-migration").complete();
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to complete model migration");
+    }
+  },
+
+  /**
+   * Daily token usage and estimated cost per operation
+   * GET /strapi-content-embeddings/usage
+   *
+   * Query params:
+   * - days: number (default: 30) - Days to include, counting today
+   */
+  async getUsage(ctx: any) {
+    try {
+      const { days } = ctx.query;
+      const result = await strapi
+        .plugin(PLUGIN_ID)
+        .service("usage")
+        .getDailyTotals({ days: days ? parseInt(days, 10) : undefined });
+
+      ctx.body = { data: result };
+    } catch (error: any) {
+      ctx.throw(500, error.message || "Failed to get usage");
+    }
+  },
+
   /**
    * Sync embeddings from Neon DB to Strapi DB
    * GET /api/strapi-content-embeddings/sync
@@ -2,6 +2,9 @@ import type { Core } from "@strapi/strapi";
 import { pluginManager } from "./plugin-manager";
 
 const destroy = async ({ strapi }: { strapi: Core.Strapi }) => {
+  // Stop the embedding queue workers
+  strapi.plugin("strapi-content-embeddings").service("queue").stop();
+
   // Clean up the plugin manager (close DB connections)
   await pluginManager.destroy();
   console.log("Content Embeddings plugin destroyed");
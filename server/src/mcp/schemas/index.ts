@@ -4,16 +4,51 @@
 
 import { z } from 'zod';
 
+const oneOrMany = z.union([z.string(), z.array(z.string())]);
+const MetadataValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Search Filter Schema
+export const SearchFilterSchema = z.object({
+  collectionType: oneOrMany.optional(),
+  fieldName: oneOrMany.optional(),
+  locale: oneOrMany.optional(),
+  documentIds: z.array(z.string()).optional(),
+  createdAfter: z.string().optional(),
+  createdBefore: z.string().optional(),
+  updatedAfter: z.string().optional(),
+  updatedBefore: z.string().optional(),
+  metadata: z.record(z.union([MetadataValueSchema, z.array(MetadataValueSchema)])).optional(),
+});
+
 // Semantic Search Schema
 export const SemanticSearchSchema = z.object({
   query: z.string().min(1, 'Query is required'),
   limit: z.number().min(1).max(20).optional().default(5),
+  filters: SearchFilterSchema.optional(),
+  mode: z.enum(['vector', 'hybrid']).optional(),
+  keywordWeight: z.number().min(0).max(1).optional(),
 });
 
 // RAG Query Schema
 export const RagQuerySchema = z.object({
   query: z.string().min(1, 'Query is required'),
   includeSourceDocuments: z.boolean().optional().default(true),
+  candidates: z.number().int().min(1).max(50).optional(),
+  maxDistance: z.number().min(0).max(2).optional(),
+  contextSize: z.number().int().min(1).max(50).optional(),
+  sourceCount: z.number().int().min(0).max(50).optional(),
+  keywordOnlyLimit: z.number().int().min(0).max(50).optional(),
+  mode: z.enum(['vector', 'hybrid']).optional(),
+  keywordWeight: z.number().min(0).max(1).optional(),
+  prompt: z.string().min(1).optional(),
+  history: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string(),
+      })
+    )
+    .optional(),
 });
 
 // List Embeddings Schema
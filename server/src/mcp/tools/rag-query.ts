@@ -6,6 +6,7 @@
 
 import type { Core } from '@strapi/strapi';
 import { ragQueryTool } from '../../tools/rag-query';
+import type { ConversationMessage, RagQueryOptions } from '../../plugin-manager';
 
 export const ragQueryMcpTool = {
   name: 'rag_query',
@@ -22,6 +23,53 @@ export const ragQueryMcpTool = {
         description: 'Include the source documents used to generate the answer (default: true)',
         default: true,
       },
+      candidates: {
+        type: 'number',
+        description: 'Documents fetched from the vector store (default: from plugin config, 6)',
+      },
+      maxDistance: {
+        type: 'number',
+        description: 'Highest cosine distance (0-2) a document may have to be used as context (default: 1.0)',
+      },
+      contextSize: {
+        type: 'number',
+        description: 'Documents passed to the chat model as context (default: 3)',
+      },
+      sourceCount: {
+        type: 'number',
+        description: 'Best context documents returned as sources, besides the cited ones (default: 1)',
+      },
+      keywordOnlyLimit: {
+        type: 'number',
+        description: 'Hybrid keyword matches without a vector distance allowed into the context (default: 1)',
+      },
+      mode: {
+        type: 'string',
+        enum: ['vector', 'hybrid'],
+        description: 'hybrid also retrieves exact keyword matches (default: from plugin config)',
+      },
+      keywordWeight: {
+        type: 'number',
+        description: 'Share of keyword matches in hybrid ranking, from 0 to 1 (default: 0.5)',
+      },
+      prompt: {
+        type: 'string',
+        description: 'Name of a prompt preset whose system prompt shapes the answer (default: the default preset)',
+      },
+      history: {
+        type: 'array',
+        description:
+          'Earlier turns of the conversation, oldest first. Follow-up questions are rewritten ' +
+          'into standalone questions using them.',
+        items: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', enum: ['user', 'assistant'] },
+            content: { type: 'string' },
+          },
+          required: ['role', 'content'],
+        },
+      },
     },
     required: ['query'],
   },
@@ -29,7 +77,12 @@ export const ragQueryMcpTool = {
 
 export async function handleRagQuery(
   strapi: Core.Strapi,
-  args: { query: string; includeSourceDocuments?: boolean }
+  args: {
+    query: string;
+    includeSourceDocuments?: boolean;
+    history?: ConversationMessage[];
+    prompt?: string;
+  } & RagQueryOptions
 ) {
   const result = await ragQueryTool.execute(args, strapi);
   return {
@@ -6,6 +6,7 @@
 
 import type { Core } from '@strapi/strapi';
 import { semanticSearchTool } from '../../tools/semantic-search';
+import type { SearchFilter } from '../../vector-stores';
 
 export const semanticSearchMcpTool = {
   name: 'semantic_search',
@@ -22,6 +23,50 @@ export const semanticSearchMcpTool = {
         description: 'Maximum number of results to return (default: 5, max: 20)',
         default: 5,
       },
+      filters: {
+        type: 'object',
+        description: 'Only search embeddings that match all of these conditions',
+        properties: {
+          collectionType: {
+            type: ['string', 'array'],
+            items: { type: 'string' },
+            description: 'Content type UID(s), e.g. "api::article.article"',
+          },
+          fieldName: {
+            type: ['string', 'array'],
+            items: { type: 'string' },
+            description: 'Embedded field name(s)',
+          },
+          locale: {
+            type: ['string', 'array'],
+            items: { type: 'string' },
+            description: 'Locale code(s), e.g. "en"',
+          },
+          documentIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'documentIds of the content entries the embeddings were created from',
+          },
+          createdAfter: { type: 'string', description: 'ISO 8601 date' },
+          createdBefore: { type: 'string', description: 'ISO 8601 date' },
+          updatedAfter: { type: 'string', description: 'ISO 8601 date' },
+          updatedBefore: { type: 'string', description: 'ISO 8601 date' },
+          metadata: {
+            type: 'object',
+            description: 'Custom metadata values by key; an array matches any of its values',
+            additionalProperties: true,
+          },
+        },
+      },
+      mode: {
+        type: 'string',
+        enum: ['vector', 'hybrid'],
+        description: 'hybrid also matches exact keywords such as names and product codes (default: from plugin config)',
+      },
+      keywordWeight: {
+        type: 'number',
+        description: 'Share of keyword matches in hybrid ranking, from 0 to 1 (default: 0.5)',
+      },
     },
     required: ['query'],
   },
@@ -29,7 +74,7 @@ export const semanticSearchMcpTool = {
 
 export async function handleSemanticSearch(
   strapi: Core.Strapi,
-  args: { query: string; limit?: number }
+  args: { query: string; limit?: number; filters?: SearchFilter; mode?: 'vector' | 'hybrid'; keywordWeight?: number }
 ) {
   const result = await semanticSearchTool.execute(args, strapi);
   return {
@@ -0,0 +1,185 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Document } from "@langchain/core/documents";
+import { PluginManager } from "./plugin-manager";
+import { HashEmbeddings } from "./providers/embeddings/fake";
+import { MemoryVectorStore } from "./vector-stores/memory";
+import type { VectorStore } from "./vector-stores";
+
+const doc = (id: string, title: string) =>
+  new Document({ id, pageContent: `${title} text`, metadata: { id: `emb-${id}`, title } });
+
+/**
+ * Plugin manager with fake providers over a store that returns fixed
+ * vector and keyword results. The fake chat model answers with its system
+ * prompt, so with systemPrompt "{context}" answers are the context.
+ */
+async function createManager(
+  vectorResults: Array<[Document, number]>,
+  keywordResults: Array<[Document, number]> = []
+) {
+  const store = {
+    type: "memory",
+    initialize: async () => {},
+    search: async () => vectorResults,
+    keywordSearch: async () => keywordResults,
+  } as unknown as VectorStore;
+
+  const manager = new PluginManager();
+  await manager.initialize({
+    vectorStore: store,
+    embeddingProvider: { provider: "fake", model: "fake-hash", dimensions: 8 },
+    chatProvider: { provider: "fake", model: "fake-echo", temperature: 0, template: "{system}" },
+  });
+  return manager;
+}
+
+describe("PluginManager.queryEmbedding", () => {
+  describe("hybrid retrieval", () => {
+    const vectorResults: Array<[Document, number]> = [
+      [doc("a", "Close match"), 0.2],
+      [doc("b", "Distant match"), 1.5],
+    ];
+    const keywordResults: Array<[Document, number]> = [
+      [doc("k1", "Best keyword match"), 3],
+      [doc("k2", "Other keyword match"), 2],
+      [doc("b", "Distant match"), 1],
+    ];
+
+    it("admits keywordOnlyLimit keyword-only matches and applies maxDistance to the rest", async () => {
+      const manager = await createManager(vectorResults, keywordResults);
+
+      const { text } = await manager.queryEmbedding("question", {
+        mode: "hybrid",
+        contextSize: 5,
+        systemPrompt: "{context}",
+      });
+
+      expect(text).toBe("[1] Title: Close match\nClose match text\n\n[2] Title: Best keyword match\nBest keyword match text");
+    });
+
+    it("uses only documents within maxDistance when keywordOnlyLimit is 0", async () => {
+      const manager = await createManager(vectorResults, keywordResults);
+
+      const { text } = await manager.queryEmbedding("question", {
+        mode: "hybrid",
+        contextSize: 5,
+        keywordOnlyLimit: 0,
+        systemPrompt: "{context}",
+      });
+
+      expect(text).toBe("[1] Title: Close match\nClose match text");
+    });
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const manager = await createManager([[doc("a", "Close match"), 0.2]]);
+    const abort = new AbortController();
+    abort.abort();
+
+    await expect(manager.queryEmbedding("question", {}, [], undefined, abort.signal)).rejects.toThrow(/abort/i);
+    await expect(manager.queryEmbedding("question", {}, [], () => {}, abort.signal)).rejects.toThrow(/abort/i);
+  });
+
+  describe("citations", () => {
+    it("reads chunk indexes stored as text", async () => {
+      const chunk = new Document({
+        pageContent: "Chunk text",
+        metadata: {
+          id: "emb-1",
+          title: "Guide [Part 3/4]",
+          documentId: "doc-1",
+          custom: { chunkIndex: "2", originalTitle: "Guide" },
+        },
+      });
+      const manager = await createManager([[chunk, 0.1]]);
+
+      const { citations } = await manager.queryEmbedding("question", { systemPrompt: "{context} [1]" });
+
+      expect(citations).toEqual([
+        { number: 1, title: "Guide", documentId: "emb-1", chunkIndex: 2, sourceDocumentId: "doc-1" },
+      ]);
+    });
+
+    it("leaves the chunk index out when it is not a number", async () => {
+      const entry = new Document({
+        pageContent: "Entry text",
+        metadata: { id: "emb-1", title: "Entry", custom: { chunkIndex: "first" } },
+      });
+      const manager = await createManager([[entry, 0.1]]);
+
+      const { citations } = await manager.queryEmbedding("question", { systemPrompt: "{context} [1]" });
+
+      expect(citations[0].chunkIndex).toBeNull();
+    });
+  });
+});
+
+describe("PluginManager.createEmbeddings", () => {
+  const entry = { id: "one", title: "One", content: "first text", collectionType: "standalone" };
+
+  async function createEmbeddedManager() {
+    const manager = new PluginManager();
+    await manager.initialize({
+      vectorStore: new MemoryVectorStore(),
+      embeddingProvider: { provider: "fake", model: "fake-hash", dimensions: 8 },
+    });
+    await manager.createEmbeddings([entry]);
+    return manager;
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("replaces the previous vectors of a document", async () => {
+    const manager = await createEmbeddedManager();
+
+    await manager.createEmbeddings([{ ...entry, content: "changed text" }], { replace: true });
+
+    const stored = await manager.getAllNeonEmbeddings({ includeContent: true });
+    expect(stored.map(({ content }) => content)).toEqual(["changed text"]);
+  });
+
+  it("keeps the previous vectors when the provider fails", async () => {
+    const manager = await createEmbeddedManager();
+    vi.spyOn(HashEmbeddings.prototype, "embedDocuments").mockRejectedValue(new Error("rate limited"));
+
+    await expect(
+      manager.createEmbeddings([{ ...entry, content: "changed text" }], { replace: true })
+    ).rejects.toThrow("rate limited");
+
+    const stored = await manager.getAllNeonEmbeddings({ includeContent: true });
+    expect(stored.map(({ content }) => content)).toEqual(["first text"]);
+  });
+});
+
+describe("PluginManager with a shadow index", () => {
+  const hashModel = { provider: "fake", model: "fake-hash", dimensions: 8 } as const;
+  const entry = (id: string, content: string) => ({ id, title: id, content, collectionType: "standalone" });
+
+  async function createMigratingManager() {
+    const shadowStore = new MemoryVectorStore();
+    const manager = new PluginManager();
+    await manager.initialize({ vectorStore: new MemoryVectorStore(), embeddingProvider: hashModel });
+    await manager.attachShadowIndex(shadowStore, { ...hashModel, model: "fake-hash-next", dimensions: 16 });
+    await manager.createEmbeddings([entry("one", "first text"), entry("two", "second text")]);
+    return { manager, shadowStore };
+  }
+
+  it("deletes a vector from both indexes", async () => {
+    const { manager, shadowStore } = await createMigratingManager();
+    const [vector] = (await manager.getAllNeonEmbeddings()).filter(({ strapiId }) => strapiId === "one");
+
+    await manager.deleteNeonEmbeddingById(vector.id);
+
+    expect((await manager.getAllNeonEmbeddings()).map(({ strapiId }) => strapiId)).toEqual(["two"]);
+    expect((await shadowStore.list()).map(({ strapiId }) => strapiId)).toEqual(["two"]);
+  });
+
+  it("clears both indexes", async () => {
+    const { manager, shadowStore } = await createMigratingManager();
+
+    expect(await manager.clearAllNeonEmbeddings()).toBe(2);
+    expect(await shadowStore.list()).toEqual([]);
+  });
+});
@@ -1,22 +1,99 @@
-import { OpenAIEmbeddings, ChatOpenAI } from "@langchain/openai";
-import { PGVectorStore } from "@langchain/community/vectorstores/pgvector";
-import { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { Document } from "@langchain/core/documents";
+import { AIMessage, HumanMessage, SystemMessage, type BaseMessage, type UsageMetadata } from "@langchain/core/messages";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import {
-  RunnableSequence,
-  RunnablePassthrough,
-} from "@langchain/core/runnables";
-import { Pool, PoolConfig } from "pg";
-import {
-  EMBEDDING_MODELS,
-  type EmbeddingModelName,
-} from "./config";
+  createChatModel,
+  createEmbeddings,
+  type ResolvedChatProviderConfig,
+  type ResolvedEmbeddingProviderConfig,
+} from "./providers";
+import type {
+  ListOptions,
+  SearchFilter,
+  StoredVector,
+  VectorDebugInfo,
+  VectorRecord,
+  VectorStore,
+} from "./vector-stores";
+import { RateLimiter, type RateLimitConfig } from "./utils/rate-limiter";
+import { reciprocalRankFusion, DEFAULT_RANK_CONSTANT } from "./utils/rank-fusion";
+import type { HybridSearchConfig, RagConfig } from "./config";
+import { estimateTokens } from "./utils/chunking";
+import { hashContent } from "./utils/hash";
+import { findCitations, stripCitations } from "./utils/citations";
+import { DEFAULT_SYSTEM_PROMPT, renderPromptTemplate, usesPromptVariable } from "./utils/prompt-template";
+
+export type UsageOperation = "embedDocuments" | "embedQuery" | "chat";
+
+/**
+ * Token usage of one provider call, reported through onUsage
+ */
+export interface UsageEvent {
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type SearchMode = "vector" | "hybrid";
+
+/**
+ * Per-search overrides of the hybridSearch config
+ */
+export interface SearchOptions {
+  /** "hybrid" adds keyword matches to the vector results (default: from hybridSearch.enabled) */
+  mode?: SearchMode;
+  /** Share of the fused score given to keyword matches, 0-1 */
+  keywordWeight?: number;
+}
+
+/**
+ * Per-request retrieval settings for RAG answers, over the rag config
+ */
+export interface RagQueryOptions extends RagConfig, SearchOptions {
+  /** System prompt template with {context}, {question} and {history} placeholders (default: DEFAULT_SYSTEM_PROMPT) */
+  systemPrompt?: string;
+}
+
+export const DEFAULT_RAG_CONFIG: Required<RagConfig> = {
+  candidates: 6,
+  maxDistance: 1.0,
+  contextSize: 3,
+  sourceCount: 1,
+  keywordOnlyLimit: 1,
+};
+
+/** Most documents a RAG query fetches from the vector store */
+const MAX_RAG_CANDIDATES = 50;
+
+/** Most recent conversation messages sent to the chat model with a question */
+const MAX_HISTORY_MESSAGES = 20;
+
+/** Each ranking contributes this many candidates per requested result to the fusion */
+const HYBRID_CANDIDATE_FACTOR = 4;
+const HYBRID_MIN_CANDIDATES = 20;
+const DEFAULT_KEYWORD_WEIGHT = 0.5;
 
 interface PluginConfig {
-  openAIApiKey: string;
-  neonConnectionString: string;
-  embeddingModel?: EmbeddingModelName;
+  vectorStore: VectorStore;
+  embeddingProvider: ResolvedEmbeddingProviderConfig;
+  /** Omit to disable RAG chat */
+  chatProvider?: ResolvedChatProviderConfig;
+  /** Requests and tokens per minute for each provider (default: unlimited) */
+  rateLimit?: {
+    embedding?: RateLimitConfig;
+    chat?: RateLimitConfig;
+  };
+  /** Called after every provider call with its token usage */
+  onUsage?: (event: UsageEvent) => void;
+  /** Defaults for keyword + vector search */
+  hybridSearch?: HybridSearchConfig;
+  /** Defaults for RAG retrieval */
+  rag?: RagConfig;
 }
 
 interface EmbeddingDocument {
@@ -25,125 +102,139 @@ interface EmbeddingDocument {
   content: string;
   collectionType?: string;
   fieldName?: string;
+  locale?: string | null;
+  /** Source content entry, for filtered search */
+  documentId?: string | null;
+  createdAt?: string | Date;
+  updatedAt?: string | Date;
+  /** Custom metadata of the embedding entry, for filtered search */
+  metadata?: Record<string, unknown> | null;
+  /** Vector computed earlier for the same content and model; skips the provider call */
+  embedding?: number[];
 }
 
 interface CreateEmbeddingResult {
   embeddingId: string;
   embedding: number[];
+  contentHash: string;
+  model: string;
 }
 
-interface QueryResponse {
-  text: string;
-  sourceDocuments: Document[];
+/**
+ * A vector store together with the embedding model that fills it
+ */
+interface EmbeddingIndex {
+  vectorStore: VectorStore;
+  embeddings: EmbeddingsInterface;
+  provider: string;
+  model: string;
+  dimensions: number;
 }
 
-class PluginManager {
-  private embeddings: OpenAIEmbeddings | null = null;
-  private chat: ChatOpenAI | null = null;
-  private pool: Pool | null = null;
-  private embeddingModel: EmbeddingModelName = "text-embedding-3-small";
-  private dimensions: number = 1536;
-  private vectorStoreConfig: {
-    pool: Pool;
-    tableName: string;
-    columns: {
-      idColumnName: string;
-      vectorColumnName: string;
-      contentColumnName: string;
-      metadataColumnName: string;
-    };
-    distanceStrategy: "cosine" | "innerProduct" | "euclidean";
-  } | null = null;
-
-  async initializePool(connectionString: string): Promise<Pool> {
-    console.log("Initializing Neon DB Pool");
-
-    if (this.pool) return this.pool;
+/**
+ * A search hit with its cosine distance, or null for keyword-only matches
+ */
+interface RetrievedDocument {
+  document: Document;
+  distance: number | null;
+}
 
-    try {
-      const poolConfig: PoolConfig = {
-        connectionString,
-        ssl: { rejectUnauthorized: false },
-        max: 10,
-      };
+/**
+ * A previous turn of a conversation
+ */
+export interface ConversationMessage {
+  role: "user" | "assistant";
+  content: string;
+}
 
-      this.pool = new Pool(poolConfig);
+/**
+ * A context document the answer cites as [number]
+ */
+export interface Citation {
+  number: number;
+  title: string;
+  /** documentId of the embedding entry */
+  documentId: string;
+  /** Position of the chunk in its document, null for unchunked entries */
+  chunkIndex: number | null;
+  /** documentId of the content entry the embedding was made from, if any */
+  sourceDocumentId: string | null;
+}
 
-      // Test the connection
-      const client = await this.pool.connect();
-      await client.query("SELECT 1");
-      client.release();
+interface QueryResponse {
+  text: string;
+  /** The sourceCount best matches and every cited document, in context order */
+  sourceDocuments: Document[];
+  citations: Citation[];
+  /** The question used for retrieval, rewritten from a follow-up when there is history */
+  standaloneQuestion?: string;
+}
 
-      // Initialize the vector store table if it doesn't exist
-      await this.initializeVectorTable();
+/** A conversation as plain text, for prompts */
+function formatTranscript(history: ConversationMessage[]): string {
+  return history
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n");
+}
 
-      console.log("Neon DB Pool initialized successfully");
-      return this.pool;
-    } catch (error) {
-      console.error(`Failed to initialize Neon DB Pool: ${error}`);
-      throw new Error(`Failed to initialize Neon DB Pool: ${error}`);
-    }
-  }
+function toCitation(number: number, document: Document): Citation {
+  const metadata = document.metadata || {};
+  // Qdrant and Chroma return custom metadata values as text
+  const chunkIndex = Number(metadata.custom?.chunkIndex ?? metadata.chunkIndex ?? NaN);
+
+  return {
+    number,
+    title: metadata.custom?.originalTitle || metadata.title || "",
+    documentId: metadata.id,
+    chunkIndex: Number.isFinite(chunkIndex) ? chunkIndex : null,
+    sourceDocumentId: metadata.documentId ?? null,
+  };
+}
 
-  private async initializeVectorTable(): Promise<void> {
-    if (!this.pool) throw new Error("Pool not initialized");
+export class PluginManager {
+  private embeddings: EmbeddingsInterface | null = null;
+  private chat: BaseChatModel | null = null;
+  private vectorStore: VectorStore | null = null;
+  private embeddingProvider: string = "openai";
+  private embeddingModel: string = "text-embedding-3-small";
+  private dimensions: number = 1536;
+  private chatProvider: string = "openai";
+  private chatModel: string = "gpt-4o-mini";
+  private embeddingLimiter = new RateLimiter();
+  private chatLimiter = new RateLimiter();
+  private onUsage: ((event: UsageEvent) => void) | null = null;
+  private hybridSearch: HybridSearchConfig = {};
+  private rag: RagConfig = {};
+  private warnedNoKeywordSearch = false;
+  /** Receives every write but serves no queries: the target of a model migration, or the previous index kept for rollback */
+  private shadowIndex: EmbeddingIndex | null = null;
+
+  async initializeVectorStore(vectorStore: VectorStore): Promise<VectorStore> {
+    console.log(`Initializing ${vectorStore.type} vector store`);
+
+    if (this.vectorStore) return this.vectorStore;
 
-    const client = await this.pool.connect();
     try {
-      // Enable the pgvector extension
-      await client.query("CREATE EXTENSION IF NOT EXISTS vector");
-
-      // Create the documents table if it doesn't exist
-      // Note: If you change embedding models with different dimensions,
-      // you may need to drop and recreate this table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS embeddings_documents (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          content TEXT,
-          metadata JSONB,
-          embedding vector(${this.dimensions})
-        )
-      `);
-
-      // Drop any IVFFlat indexes that may have been created (they cause issues with small datasets)
-      await client.query(`
-        DROP INDEX IF EXISTS embeddings_documents_embedding_idx
-      `);
-
-      // Create HNSW index for similarity search (works better with any dataset size)
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS embeddings_documents_embedding_hnsw_idx
-        ON embeddings_documents
-        USING hnsw (embedding vector_cosine_ops)
-      `);
-
-      // Create GIN index on metadata for faster lookups
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS embeddings_documents_metadata_idx
-        ON embeddings_documents
-        USING gin (metadata)
-      `);
-
-      console.log(`Vector table initialized (dimensions: ${this.dimensions})`);
+      await vectorStore.initialize(this.dimensions);
+      this.vectorStore = vectorStore;
+
+      console.log(`${vectorStore.type} vector store initialized successfully`);
+      return this.vectorStore;
     } catch (error) {
-      // Index creation might fail if not enough rows, that's okay
-      console.log("Note: Index creation may require more data");
-    } finally {
-      client.release();
+      console.error(`Failed to initialize ${vectorStore.type} vector store: ${error}`);
+      throw new Error(`Failed to initialize ${vectorStore.type} vector store: ${error}`);
     }
   }
 
-  async initializeEmbeddings(openAIApiKey: string): Promise<OpenAIEmbeddings> {
-    console.log(`Initializing OpenAI Embeddings (model: ${this.embeddingModel})`);
+  async initializeEmbeddings(
+    providerConfig: ResolvedEmbeddingProviderConfig
+  ): Promise<EmbeddingsInterface> {
+    console.log(`Initializing ${providerConfig.provider} Embeddings (model: ${providerConfig.model})`);
 
     if (this.embeddings) return this.embeddings;
 
     try {
-      this.embeddings = new OpenAIEmbeddings({
-        openAIApiKey,
-        modelName: this.embeddingModel,
-        dimensions: this.dimensions,
-      });
+      this.embeddings = createEmbeddings(providerConfig);
 
       return this.embeddings;
     } catch (error) {
@@ -152,17 +243,13 @@ class PluginManager {
     }
   }
 
-  async initializeChat(openAIApiKey: string): Promise<ChatOpenAI> {
-    console.log("Initializing Chat Model");
+  async initializeChat(providerConfig: ResolvedChatProviderConfig): Promise<BaseChatModel> {
+    console.log(`Initializing ${providerConfig.provider} Chat Model (model: ${providerConfig.model})`);
 
     if (this.chat) return this.chat;
 
     try {
-      this.chat = new ChatOpenAI({
-        modelName: "gpt-4o-mini",
-        temperature: 0.7,
-        openAIApiKey,
-      });
+      this.chat = createChatModel(providerConfig);
 
       return this.chat;
     } catch (error) {
@@ -172,182 +259,543 @@ class PluginManager {
   }
 
   async initialize(config: PluginConfig): Promise<void> {
-    // Set embedding model and dimensions from config
-    const model = config.embeddingModel || "text-embedding-3-small";
-    if (EMBEDDING_MODELS[model]) {
-      this.embeddingModel = model;
-      this.dimensions = EMBEDDING_MODELS[model].dimensions;
+    // Set embedding provider, model and dimensions from the resolved config
+    this.embeddingProvider = config.embeddingProvider.provider;
+    this.embeddingModel = config.embeddingProvider.model;
+    this.dimensions = config.embeddingProvider.dimensions;
+    this.embeddingLimiter = new RateLimiter(config.rateLimit?.embedding);
+    this.chatLimiter = new RateLimiter(config.rateLimit?.chat);
+    this.onUsage = config.onUsage || null;
+    this.hybridSearch = config.hybridSearch || {};
+    this.rag = config.rag || {};
+
+    console.log(
+      `Using embedding model: ${this.embeddingModel} via ${this.embeddingProvider} (${this.dimensions} dimensions)`
+    );
+
+    await this.initializeVectorStore(config.vectorStore);
+    await this.initializeEmbeddings(config.embeddingProvider);
+
+    if (config.chatProvider) {
+      // A broken chat setup only disables RAG chat, not embeddings and search
+      try {
+        await this.initializeChat(config.chatProvider);
+        this.chatProvider = config.chatProvider.provider;
+        this.chatModel = config.chatProvider.model;
+      } catch (error) {
+        console.warn(`RAG chat is disabled: ${error}`);
+      }
     } else {
-      console.warn(`Invalid embedding model "${model}", using default`);
-      this.embeddingModel = "text-embedding-3-small";
-      this.dimensions = EMBEDDING_MODELS["text-embedding-3-small"].dimensions;
-    }
-
-    console.log(`Using embedding model: ${this.embeddingModel} (${this.dimensions} dimensions)`);
-
-    await this.initializePool(config.neonConnectionString);
-    await this.initializeEmbeddings(config.openAIApiKey);
-    await this.initializeChat(config.openAIApiKey);
-
-    if (this.pool) {
-      this.vectorStoreConfig = {
-        pool: this.pool,
-        tableName: "embeddings_documents",
-        columns: {
-          idColumnName: "id",
-          vectorColumnName: "embedding",
-          contentColumnName: "content",
-          metadataColumnName: "metadata",
-        },
-        distanceStrategy: "cosine",
-      };
+      console.warn("No chat provider configured, RAG chat is disabled");
     }
 
     console.log("Plugin Manager Initialization Complete");
   }
 
   async createEmbedding(docData: EmbeddingDocument): Promise<CreateEmbeddingResult> {
-    if (!this.embeddings || !this.vectorStoreConfig || !this.pool) {
+    const [result] = await this.createEmbeddings([docData]);
+    return result;
+  }
+
+  /**
+   * Embed many documents with one provider request (split by the provider
+   * client where it has a per-request limit) and store them with one insert.
+   * Documents that carry a vector are stored as-is, and identical texts are
+   * only sent once. While a shadow index is attached it is written too.
+   * With replace, the documents' previous vectors are removed, but only once
+   * the new ones are computed, so a failed provider call leaves them in place.
+   * Retries are handled by the embedding queue.
+   */
+  async createEmbeddings(
+    docs: EmbeddingDocument[],
+    options: { replace?: boolean } = {}
+  ): Promise<CreateEmbeddingResult[]> {
+    if (!this.embeddings || !this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
-    const maxRetries = 3;
-    const retryDelay = 2000; // 2 seconds
+    if (docs.length === 0) {
+      return [];
+    }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Generate the embedding vector (single API call)
-        const embeddingVector = await this.embeddings.embedQuery(docData.content);
-
-        // Insert directly into DB with pre-computed embedding (no second API call)
-        const metadata = {
-          id: docData.id,
-          title: docData.title,
-          collectionType: docData.collectionType || "standalone",
-          fieldName: docData.fieldName || "content",
-        };
-
-        const vectorString = `[${embeddingVector.join(",")}]`;
-
-        const result = await this.pool.query(
-          `INSERT INTO embeddings_documents (content, metadata, embedding)
-           VALUES ($1, $2::jsonb, $3::vector)
-           RETURNING id`,
-          [docData.content, JSON.stringify(metadata), vectorString]
-        );
-
-        return {
-          embeddingId: result.rows[0]?.id || "",
-          embedding: embeddingVector,
-        };
-      } catch (error: any) {
-        const isRateLimit = error.message?.includes("429") || error.message?.includes("rate");
-        const isLastAttempt = attempt === maxRetries;
-
-        if (isRateLimit && !isLastAttempt) {
-          console.log(`[createEmbedding] Rate limited, waiting ${retryDelay}ms before retry ${attempt + 1}/${maxRetries}...`);
-          await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
-          continue;
-        }
+    // Captured once so a switch during the provider call cannot mix the indexes
+    const index = this.getActiveIndex();
+    const shadow = this.shadowIndex;
+
+    const hashes = docs.map((doc) => hashContent(doc.content));
+    const vectorsByHash = await this.embedUnique(index, docs, hashes, true);
+    // Keep the shadow index current so switching to it (or back to it) loses nothing
+    const shadowVectors = shadow ? await this.embedUnique(shadow, docs, hashes, false) : null;
+
+    if (options.replace) {
+      for (const doc of docs) {
+        await index.vectorStore.deleteByStrapiId(doc.id);
+        await shadow?.vectorStore.deleteByStrapiId(doc.id);
+      }
+    }
 
-        console.error(`[createEmbedding] Failed (attempt ${attempt}/${maxRetries}):`, error.message || error);
-        if (isLastAttempt) {
-          throw new Error(`Failed to create embedding after ${maxRetries} attempts: ${error.message || error}`);
+    const embeddingIds = await index.vectorStore.insertMany(this.toRecords(index, docs, hashes, vectorsByHash));
+    if (shadow && shadowVectors) {
+      await shadow.vectorStore.insertMany(this.toRecords(shadow, docs, hashes, shadowVectors));
+    }
+
+    return docs.map((_, i) => ({
+      embeddingId: embeddingIds[i],
+      embedding: vectorsByHash.get(hashes[i])!,
+      contentHash: hashes[i],
+      model: index.model,
+    }));
+  }
+
+  /**
+   * Vectors by content hash, embedding each distinct text once.
+   * Vectors passed with the documents are only valid for the active model.
+   */
+  private async embedUnique(
+    index: EmbeddingIndex,
+    docs: EmbeddingDocument[],
+    hashes: string[],
+    usePassedVectors: boolean
+  ): Promise<Map<string, number[]>> {
+    const vectorsByHash = new Map<string, number[]>();
+    if (usePassedVectors) {
+      docs.forEach((doc, i) => {
+        if (doc.embedding?.length) {
+          vectorsByHash.set(hashes[i], doc.embedding);
         }
+      });
+    }
+
+    const pending = new Map<string, string>();
+    docs.forEach((doc, i) => {
+      if (!vectorsByHash.has(hashes[i])) {
+        pending.set(hashes[i], doc.content);
       }
+    });
+
+    if (pending.size > 0) {
+      const vectors = await this.embedTexts([...pending.values()], index);
+      [...pending.keys()].forEach((hash, i) => vectorsByHash.set(hash, vectors[i]));
+    }
+
+    return vectorsByHash;
+  }
+
+  private toRecords(
+    index: EmbeddingIndex,
+    docs: EmbeddingDocument[],
+    hashes: string[],
+    vectorsByHash: Map<string, number[]>
+  ): VectorRecord[] {
+    return docs.map((doc, i) => ({
+      content: doc.content,
+      metadata: {
+        id: doc.id,
+        title: doc.title,
+        collectionType: doc.collectionType || "standalone",
+        fieldName: doc.fieldName || "content",
+        locale: doc.locale ?? null,
+        contentHash: hashes[i],
+        model: index.model,
+        documentId: doc.documentId ?? null,
+        createdAt: doc.createdAt ? new Date(doc.createdAt).toISOString() : undefined,
+        updatedAt: doc.updatedAt ? new Date(doc.updatedAt).toISOString() : undefined,
+        custom: doc.metadata || undefined,
+      },
+      embedding: vectorsByHash.get(hashes[i])!,
+    }));
+  }
+
+  private getActiveIndex(): EmbeddingIndex {
+    if (!this.embeddings || !this.vectorStore) {
+      throw new Error("Plugin manager not initialized");
     }
 
-    throw new Error("Failed to create embedding: unexpected error");
+    return {
+      vectorStore: this.vectorStore,
+      embeddings: this.embeddings,
+      provider: this.embeddingProvider,
+      model: this.embeddingModel,
+      dimensions: this.dimensions,
+    };
+  }
+
+  /**
+   * Start writing to a second index built with another embedding model.
+   * Queries keep using the active index until switchIndexes is called.
+   */
+  async attachShadowIndex(
+    vectorStore: VectorStore,
+    providerConfig: ResolvedEmbeddingProviderConfig
+  ): Promise<void> {
+    if (this.shadowIndex) {
+      throw new Error("A shadow index is already attached");
+    }
+
+    console.log(
+      `Attaching shadow index: ${providerConfig.model} via ${providerConfig.provider} (${providerConfig.dimensions} dimensions)`
+    );
+
+    await vectorStore.initialize(providerConfig.dimensions);
+    this.shadowIndex = {
+      vectorStore,
+      embeddings: createEmbeddings(providerConfig),
+      provider: providerConfig.provider,
+      model: providerConfig.model,
+      dimensions: providerConfig.dimensions,
+    };
+  }
+
+  /**
+   * Stop writing to the shadow index, optionally removing its table
+   */
+  async detachShadowIndex(options: { drop?: boolean } = {}): Promise<void> {
+    const shadow = this.shadowIndex;
+    if (!shadow) return;
+
+    this.shadowIndex = null;
+    if (options.drop) {
+      await shadow.vectorStore.drop();
+    }
+    await shadow.vectorStore.destroy();
+  }
+
+  /**
+   * Make the shadow index active and keep the previous one as the shadow.
+   * Runs synchronously, so no request sees a half-switched state.
+   */
+  switchIndexes(): void {
+    if (!this.shadowIndex) {
+      throw new Error("No shadow index to switch to");
+    }
+
+    const previous = this.getActiveIndex();
+    const next = this.shadowIndex;
+
+    this.vectorStore = next.vectorStore;
+    this.embeddings = next.embeddings;
+    this.embeddingProvider = next.provider;
+    this.embeddingModel = next.model;
+    this.dimensions = next.dimensions;
+    this.shadowIndex = previous;
+
+    console.log(`Switched to embedding model ${next.model} (previous: ${previous.model})`);
+  }
+
+  /**
+   * Replace the shadow index vectors of the given documents
+   */
+  async embedIntoShadow(docs: EmbeddingDocument[]): Promise<void> {
+    const shadow = this.shadowIndex;
+    if (!shadow) {
+      throw new Error("No shadow index attached");
+    }
+
+    if (docs.length === 0) {
+      return;
+    }
+
+    for (const doc of docs) {
+      await shadow.vectorStore.deleteByStrapiId(doc.id);
+    }
+
+    const hashes = docs.map((doc) => hashContent(doc.content));
+    const vectors = await this.embedUnique(shadow, docs, hashes, false);
+    await shadow.vectorStore.insertMany(this.toRecords(shadow, docs, hashes, vectors));
+  }
+
+  /**
+   * Vectors already in the shadow index, without their content
+   */
+  async listShadowVectors(): Promise<StoredVector[]> {
+    if (!this.shadowIndex) {
+      throw new Error("No shadow index attached");
+    }
+
+    return this.shadowIndex.vectorStore.list();
+  }
+
+  getShadowModel(): { provider: string; model: string; dimensions: number } | null {
+    if (!this.shadowIndex) return null;
+    const { provider, model, dimensions } = this.shadowIndex;
+    return { provider, model, dimensions };
+  }
+
+  /**
+   * Embed document texts, waiting for the embedding rate limit.
+   * Token counts are estimated since embedding responses do not report usage.
+   */
+  private async embedTexts(texts: string[], index: EmbeddingIndex): Promise<number[][]> {
+    const inputTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+    await this.embeddingLimiter.acquire(inputTokens);
+
+    const vectors = await index.embeddings.embedDocuments(texts);
+    this.reportUsage("embedDocuments", index.provider, index.model, inputTokens, 0);
+
+    return vectors;
+  }
+
+  /**
+   * Embed a search query, waiting for the embedding rate limit.
+   * Search the same index the vector was made for.
+   */
+  private async embedQueryText(query: string, index: EmbeddingIndex): Promise<number[]> {
+    const inputTokens = estimateTokens(query);
+    await this.embeddingLimiter.acquire(inputTokens);
+
+    const vector = await index.embeddings.embedQuery(query);
+    this.reportUsage("embedQuery", index.provider, index.model, inputTokens, 0);
+
+    return vector;
+  }
+
+  /**
+   * Run the chat model, waiting for the chat rate limit.
+   * Uses the token usage reported by the provider when available.
+   * Aborting the signal cancels the provider request.
+   */
+  private async invokeChat(messages: BaseMessage[], signal?: AbortSignal): Promise<string> {
+    if (!this.chat) {
+      throw new Error("Chat model not configured");
+    }
+
+    const estimatedInput = this.estimateMessageTokens(messages);
+    await this.chatLimiter.acquire(estimatedInput);
+
+    const response = await this.chat.invoke(messages, { signal });
+    const text = await new StringOutputParser().invoke(response);
+
+    this.recordChatUsage(estimatedInput, text, response.usage_metadata as UsageMetadata | undefined);
+
+    return text;
+  }
+
+  /**
+   * Like invokeChat, but hands each token to onToken as the model produces it.
+   * Models without streaming support produce the whole answer as one token.
+   */
+  private async streamChat(
+    messages: BaseMessage[],
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!this.chat) {
+      throw new Error("Chat model not configured");
+    }
+
+    const estimatedInput = this.estimateMessageTokens(messages);
+    await this.chatLimiter.acquire(estimatedInput);
+
+    let text = "";
+    let usage: UsageMetadata | undefined;
+
+    for await (const chunk of await this.chat.stream(messages, { signal })) {
+      const token = typeof chunk.content === "string" ? chunk.content : "";
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+      // Providers report usage on the last chunk
+      usage = (chunk.usage_metadata as UsageMetadata | undefined) ?? usage;
+    }
+
+    this.recordChatUsage(estimatedInput, text, usage);
+
+    return text;
+  }
+
+  private estimateMessageTokens(messages: BaseMessage[]): number {
+    return messages.reduce(
+      (sum, message) => sum + estimateTokens(typeof message.content === "string" ? message.content : JSON.stringify(message.content)),
+      0
+    );
+  }
+
+  private recordChatUsage(estimatedInput: number, text: string, usage: UsageMetadata | undefined): void {
+    const inputTokens = usage?.input_tokens ?? estimatedInput;
+    const outputTokens = usage?.output_tokens ?? estimateTokens(text);
+
+    // Count what the estimate missed: the output and any extra input
+    this.chatLimiter.record(outputTokens + Math.max(inputTokens - estimatedInput, 0));
+    this.reportUsage("chat", this.chatProvider, this.chatModel, inputTokens, outputTokens);
+  }
+
+  private reportUsage(
+    operation: UsageOperation,
+    provider: string,
+    model: string,
+    inputTokens: number,
+    outputTokens: number
+  ): void {
+    try {
+      this.onUsage?.({ operation, provider, model, inputTokens, outputTokens });
+    } catch (error) {
+      console.error("Failed to report usage:", error);
+    }
   }
 
   async deleteEmbedding(strapiId: string): Promise<void> {
-    if (!this.pool) {
+    if (!this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
     try {
-      await this.pool.query(
-        `DELETE FROM embeddings_documents WHERE metadata->>'id' = $1`,
-        [strapiId]
-      );
+      await this.vectorStore.deleteByStrapiId(strapiId);
+      await this.shadowIndex?.vectorStore.deleteByStrapiId(strapiId);
     } catch (error) {
       console.error(`Failed to delete embedding: ${error}`);
       throw new Error(`Failed to delete embedding: ${error}`);
     }
   }
 
-  async queryEmbedding(query: string): Promise<QueryResponse> {
-    if (!this.embeddings || !this.chat || !this.vectorStoreConfig) {
+  /**
+   * RAG settings for one request: request options over the rag config over
+   * the defaults, clamped so the context never exceeds the candidates and the
+   * sources never exceed the context
+   */
+  getRagSettings(options: RagConfig = {}): Required<RagConfig> {
+    const pick = (key: keyof RagConfig) => options[key] ?? this.rag[key] ?? DEFAULT_RAG_CONFIG[key];
+    const candidates = Math.min(Math.max(Math.floor(pick("candidates")), 1), MAX_RAG_CANDIDATES);
+    const contextSize = Math.min(Math.max(Math.floor(pick("contextSize")), 1), candidates);
+
+    return {
+      candidates,
+      maxDistance: Math.min(Math.max(pick("maxDistance"), 0), 2),
+      contextSize,
+      sourceCount: Math.min(Math.max(Math.floor(pick("sourceCount")), 0), contextSize),
+      keywordOnlyLimit: Math.min(Math.max(Math.floor(pick("keywordOnlyLimit")), 0), contextSize),
+    };
+  }
+
+  /**
+   * Rewrite a follow-up question into one that can be understood without the
+   * conversation, so retrieval finds the documents it is about
+   */
+  async condenseQuestion(
+    question: string,
+    history: ConversationMessage[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (history.length === 0) {
+      return question;
+    }
+
+    const condensePrompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        `Given a conversation and a follow-up question, rewrite the follow-up question as a standalone question
+that can be understood without the conversation. Keep names and specific terms. If the question already
+stands alone, return it unchanged. Reply with the question only.`,
+      ],
+      ["human", "Conversation:\n{history}\n\nFollow-up question: {question}"],
+    ]);
+
+    const messages = await condensePrompt.formatMessages({
+      history: formatTranscript(history),
+      question,
+    });
+
+    const standalone = (await this.invokeChat(messages, signal)).trim();
+    return standalone || question;
+  }
+
+  /**
+   * Answer a question from the embedded content. With onToken the answer is
+   * streamed: tokens are passed to it as they arrive, and the full response
+   * (with sources) is still returned at the end. Aborting the signal stops
+   * the chat model calls, e.g. when the client has gone away.
+   */
+  async queryEmbedding(
+    query: string,
+    options: RagQueryOptions = {},
+    history: ConversationMessage[] = [],
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<QueryResponse> {
+    if (!this.embeddings || !this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
+    if (!this.chat) {
+      throw new Error("Chat model not configured");
+    }
+
     try {
-      const vectorStore = await PGVectorStore.initialize(
-        this.embeddings,
-        this.vectorStoreConfig
+      const { candidates, maxDistance, contextSize, sourceCount, keywordOnlyLimit } = this.getRagSettings(options);
+      // Earlier answers cite another question's context; their numbers would mislead
+      const recentHistory = history.slice(-MAX_HISTORY_MESSAGES).map((message) =>
+        message.role === "assistant" ? { ...message, content: stripCitations(message.content) } : message
       );
 
-      // Use similaritySearchWithScore to get relevance scores
-      // Retrieve more documents initially, then filter by score
-      const resultsWithScores = await vectorStore.similaritySearchWithScore(query, 6);
+      // Follow-ups like "what about pricing?" retrieve nothing useful on their own
+      const standaloneQuestion = await this.condenseQuestion(query, recentHistory, signal);
 
-      console.log(`[queryEmbedding] Query: "${query}"`);
-      console.log(`[queryEmbedding] Found ${resultsWithScores.length} results:`);
-      resultsWithScores.forEach(([doc, score], i) => {
-        console.log(`  ${i + 1}. Score: ${score.toFixed(4)}, Title: ${doc.metadata?.title || 'N/A'}`);
+      // Search with scores (cosine distance)
+      // Retrieve more documents initially, then filter by score
+      const index = this.getActiveIndex();
+      const retrieved = await this.retrieve(index, standaloneQuestion, candidates, undefined, options);
+
+      console.log(`[queryEmbedding] Query: "${standaloneQuestion}"`);
+      console.log(`[queryEmbedding] Found ${retrieved.length} results:`);
+      retrieved.forEach(({ document, distance }, i) => {
+        const score = distance === null ? "keyword match" : distance.toFixed(4);
+        console.log(`  ${i + 1}. Score: ${score}, Title: ${document.metadata?.title || 'N/A'}`);
       });
 
-      // Filter by similarity threshold (cosine distance: 0 = identical, higher = more different)
-      // Increase threshold to allow more results
-      const SIMILARITY_THRESHOLD = 1.0;
-      const relevantResults = resultsWithScores.filter(([_, score]) => score < SIMILARITY_THRESHOLD);
-
-      console.log(`[queryEmbedding] ${relevantResults.length} results passed threshold (< ${SIMILARITY_THRESHOLD})`);
+      // Filter by distance threshold (cosine distance: 0 = identical, higher = more different)
+      // Raise maxDistance to allow more results. Keyword-only matches have no distance to
+      // check, and any shared word makes one, so only the best keywordOnlyLimit are kept.
+      let keywordOnly = 0;
+      const relevantResults = retrieved.filter(({ distance }) =>
+        distance === null ? keywordOnly++ < keywordOnlyLimit : distance <= maxDistance
+      );
 
-      // Take top 3 most relevant documents for context
-      const topResults = relevantResults.slice(0, 3);
-      const sourceDocuments = topResults.map(([doc]) => doc);
+      console.log(`[queryEmbedding] ${relevantResults.length} results passed threshold (<= ${maxDistance})`);
 
-      // Only show the single best matching source to the user
-      const bestMatchForDisplay = topResults.length > 0 ? [topResults[0][0]] : [];
+      // Take the most relevant documents for context
+      const sourceDocuments = relevantResults.slice(0, contextSize).map(({ document }) => document);
 
-      // Format documents for context - include title from metadata
+      // Format documents for context - numbered for citations, with title from metadata
       const formatDocs = (docs: Document[]): string => {
-        return docs.map((doc) => {
+        return docs.map((doc, i) => {
           const title = doc.metadata?.title ? `Title: ${doc.metadata.title}\n` : '';
-          return `${title}${doc.pageContent}`;
+          return `[${i + 1}] ${title}${doc.pageContent}`;
         }).join("\n\n");
       };
 
-      // Create RAG prompt
-      const ragPrompt = ChatPromptTemplate.fromMessages([
-        [
-          "system",
-          `You are a helpful assistant that answers questions based on the provided context.
-If you cannot find the answer in the context, say so. Be concise and accurate.
-
-Context:
-{context}`,
-        ],
-        ["human", "{question}"],
-      ]);
-
-      // Build LCEL chain - use all relevant docs for context
-      const ragChain = RunnableSequence.from([
-        {
-          context: async () => formatDocs(sourceDocuments),
-          question: new RunnablePassthrough(),
-        },
-        ragPrompt,
-        this.chat,
-        new StringOutputParser(),
-      ]);
-
-      const text = await ragChain.invoke(query);
+      // Rendered by hand rather than as a ChatPromptTemplate, which would
+      // reject the literal braces templates may contain
+      const template = options.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+      const systemPrompt = renderPromptTemplate(template, {
+        context: formatDocs(sourceDocuments),
+        question: query,
+        history: formatTranscript(recentHistory),
+      });
+
+      // A template with {history} already has the conversation; otherwise it follows as messages
+      const historyMessages = usesPromptVariable(template, "history")
+        ? []
+        : recentHistory.map((message) =>
+            message.role === "user" ? new HumanMessage(message.content) : new AIMessage(message.content)
+          );
+
+      const messages = [new SystemMessage(systemPrompt), ...historyMessages, new HumanMessage(query)];
+
+      const text = onToken
+        ? await this.streamChat(messages, onToken, signal)
+        : await this.invokeChat(messages, signal);
+
+      const cited = findCitations(text, sourceDocuments.length);
+      const citations = cited.map((number) => toCitation(number, sourceDocuments[number - 1]));
+
+      // Return the best matches and everything the answer relies on as sources
+      const displayed = sourceDocuments.filter((_, i) => i < sourceCount || cited.includes(i + 1));
 
       return {
         text,
-        sourceDocuments: bestMatchForDisplay, // Only return best match to display
+        sourceDocuments: displayed,
+        citations,
+        ...(recentHistory.length > 0 && { standaloneQuestion }),
       };
     } catch (error) {
       console.error(`Failed to query embeddings: ${error}`);
@@ -357,66 +805,109 @@ Context:
 
   async similaritySearch(
     query: string,
-    k: number = 4
+    k: number = 4,
+    filter?: SearchFilter,
+    options: SearchOptions = {}
   ): Promise<Document[]> {
-    if (!this.embeddings || !this.vectorStoreConfig) {
+    if (!this.embeddings || !this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
     try {
-      const vectorStore = await PGVectorStore.initialize(
-        this.embeddings,
-        this.vectorStoreConfig
-      );
-
-      return await vectorStore.similaritySearch(query, k);
+      const results = await this.retrieve(this.getActiveIndex(), query, k, filter, options);
+      return results.map(({ document }) => document);
     } catch (error) {
       console.error(`Failed to perform similarity search: ${error}`);
       throw new Error(`Failed to perform similarity search: ${error}`);
     }
   }
 
+  /**
+   * Find the k best documents for a query. In hybrid mode the vector and
+   * keyword rankings are merged with reciprocal rank fusion; stores without
+   * keyword search use the vector ranking alone.
+   */
+  private async retrieve(
+    index: EmbeddingIndex,
+    query: string,
+    k: number,
+    filter?: SearchFilter,
+    options: SearchOptions = {}
+  ): Promise<RetrievedDocument[]> {
+    const mode = options.mode || (this.hybridSearch.enabled ? "hybrid" : "vector");
+    const queryVector = await this.embedQueryText(query, index);
+    const store = index.vectorStore;
+
+    if (mode !== "hybrid" || !store.keywordSearch) {
+      if (mode === "hybrid" && !this.warnedNoKeywordSearch) {
+        console.warn(`The ${store.type} vector store has no keyword search; hybrid search uses vectors only`);
+        this.warnedNoKeywordSearch = true;
+      }
+
+      const results = await store.search(queryVector, k, filter);
+      return results.map(([document, distance]) => ({ document, distance }));
+    }
+
+    const keywordWeight = Math.min(
+      Math.max(options.keywordWeight ?? this.hybridSearch.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT, 0),
+      1
+    );
+    const candidates = Math.max(k * HYBRID_CANDIDATE_FACTOR, HYBRID_MIN_CANDIDATES);
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      store.search(queryVector, candidates, filter),
+      store.keywordSearch(query, candidates, filter),
+    ]);
+
+    const distances = new Map(vectorResults.map(([document, distance]) => [document.id, distance]));
+    const fused = reciprocalRankFusion(
+      [
+        { items: vectorResults.map(([document]) => document), weight: 1 - keywordWeight },
+        { items: keywordResults.map(([document]) => document), weight: keywordWeight },
+      ],
+      (document) => String(document.id),
+      this.hybridSearch.rankConstant ?? DEFAULT_RANK_CONSTANT
+    );
+
+    return fused.slice(0, k).map(({ item }) => ({
+      document: item,
+      distance: distances.get(item.id) ?? null,
+    }));
+  }
+
   isInitialized(): boolean {
-    return !!(this.embeddings && this.chat && this.pool);
+    return !!(this.embeddings && this.vectorStore);
+  }
+
+  isChatInitialized(): boolean {
+    return !!this.chat;
   }
 
   /**
-   * Get all embeddings from Neon DB
+   * Chat model answering RAG queries, recorded with saved conversations
+   */
+  getChatModel(): string {
+    return this.chatModel;
+  }
+
+  /**
+   * Model name stored with each vector, used to tell reusable vectors apart
+   */
+  getEmbeddingModel(): string {
+    return this.embeddingModel;
+  }
+
+  /**
+   * Get all embeddings from the vector store
    * Returns the metadata (including Strapi documentId) for each embedding
    */
-  async getAllNeonEmbeddings(): Promise<Array<{
-    id: string;
-    strapiId: string;
-    title: string;
-    content: string;
-    collectionType: string;
-    fieldName: string;
-  }>> {
-    if (!this.pool) {
+  async getAllNeonEmbeddings(options?: ListOptions): Promise<StoredVector[]> {
+    if (!this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
     try {
-      const result = await this.pool.query(`
-        SELECT
-          id,
-          content,
-          metadata->>'id' as strapi_id,
-          metadata->>'title' as title,
-          metadata->>'collectionType' as collection_type,
-          metadata->>'fieldName' as field_name
-        FROM embeddings_documents
-        ORDER BY id
-      `);
-
-      return result.rows.map((row) => ({
-        id: row.id,
-        strapiId: row.strapi_id,
-        title: row.title || '',
-        content: row.content || '',
-        collectionType: row.collection_type || 'standalone',
-        fieldName: row.field_name || 'content',
-      }));
+      return await this.vectorStore.list(options);
     } catch (error) {
       console.error(`Failed to get Neon embeddings: ${error}`);
       throw new Error(`Failed to get Neon embeddings: ${error}`);
@@ -424,18 +915,28 @@ Context:
   }
 
   /**
-   * Delete an embedding from Neon by its Neon UUID (not Strapi ID)
+   * Delete an embedding from the vector store by its vector id (not Strapi ID).
+   * The shadow index has its own vector ids, so its copy is found by Strapi id
+   * and content hash.
    */
   async deleteNeonEmbeddingById(neonId: string): Promise<void> {
-    if (!this.pool) {
+    if (!this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
     try {
-      await this.pool.query(
-        `DELETE FROM embeddings_documents WHERE id = $1`,
-        [neonId]
-      );
+      const shadow = this.shadowIndex;
+      const vector = shadow ? (await this.vectorStore.list()).find((stored) => stored.id === neonId) : undefined;
+
+      await this.vectorStore.deleteById(neonId);
+
+      if (shadow && vector) {
+        for (const copy of await shadow.vectorStore.list()) {
+          if (copy.strapiId === vector.strapiId && copy.contentHash === vector.contentHash) {
+            await shadow.vectorStore.deleteById(copy.id);
+          }
+        }
+      }
     } catch (error) {
       console.error(`Failed to delete Neon embedding: ${error}`);
       throw new Error(`Failed to delete Neon embedding: ${error}`);
@@ -443,32 +944,30 @@ Context:
   }
 
   async destroy(): Promise<void> {
-    if (this.pool) {
-      await this.pool.end();
-      this.pool = null;
+    await this.detachShadowIndex();
+    if (this.vectorStore) {
+      await this.vectorStore.destroy();
+      this.vectorStore = null;
     }
     this.embeddings = null;
     this.chat = null;
-    this.vectorStoreConfig = null;
   }
 
   /**
-   * Clear all embeddings from Neon DB
-   * Returns the number of deleted rows
+   * Clear all embeddings from the vector store and the shadow index
+   * Returns the number of deleted rows in the active store
    */
   async clearAllNeonEmbeddings(): Promise<number> {
-    if (!this.pool) {
+    if (!this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
     try {
-      const result = await this.pool.query(`
-        DELETE FROM embeddings_documents
-        RETURNING id
-      `);
+      const deleted = await this.vectorStore.clear();
+      await this.shadowIndex?.vectorStore.clear();
 
-      console.log(`[clearAllNeonEmbeddings] Deleted ${result.rowCount} embeddings from Neon`);
-      return result.rowCount || 0;
+      console.log(`[clearAllNeonEmbeddings] Deleted ${deleted} embeddings from ${this.vectorStore.type} vector store`);
+      return deleted;
     } catch (error) {
       console.error(`Failed to clear Neon embeddings: ${error}`);
       throw new Error(`Failed to clear Neon embeddings: ${error}`);
@@ -476,42 +975,15 @@ Context:
   }
 
   /**
-   * Debug method to inspect raw data in Neon DB
+   * Debug method to inspect raw data in the vector store
    */
-  async debugNeonEmbeddings(): Promise<Array<{
-    id: string;
-    content: string;
-    metadata: any;
-    metadataType: string;
-    hasEmbedding: boolean;
-    embeddingLength: number;
-  }>> {
-    if (!this.pool) {
+  async debugNeonEmbeddings(): Promise<VectorDebugInfo[]> {
+    if (!this.vectorStore) {
       throw new Error("Plugin manager not initialized");
     }
 
     try {
-      const result = await this.pool.query(`
-        SELECT
-          id,
-          content,
-          metadata,
-          pg_typeof(metadata) as metadata_type,
-          embedding IS NOT NULL as has_embedding,
-          CASE WHEN embedding IS NOT NULL THEN array_length(embedding::float[], 1) ELSE 0 END as embedding_length
-        FROM embeddings_documents
-        ORDER BY id
-        LIMIT 20
-      `);
-
-      return result.rows.map((row) => ({
-        id: row.id,
-        content: row.content?.substring(0, 200) + (row.content?.length > 200 ? '...' : ''),
-        metadata: row.metadata,
-        metadataType: row.metadata_type,
-        hasEmbedding: row.has_embedding,
-        embeddingLength: row.embedding_length || 0,
-      }));
+      return await this.vectorStore.debug();
     } catch (error) {
       console.error(`Failed to debug Neon embeddings: ${error}`);
       throw new Error(`Failed to debug Neon embeddings: ${error}`);
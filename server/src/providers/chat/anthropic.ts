@@ -0,0 +1,23 @@
+/**
+ * Anthropic Chat Adapter
+ *
+ * Uses the Anthropic Messages API.
+ */
+
+import { ChatAnthropic } from "@langchain/anthropic";
+import type { ChatProviderAdapter } from "../types";
+
+export const anthropicChatProvider: ChatProviderAdapter = {
+  name: "anthropic",
+  defaultModel: "claude-3-5-haiku-latest",
+  requiresApiKey: true,
+  create: (config) =>
+    new ChatAnthropic({
+      apiKey: config.apiKey,
+      model: config.model,
+      temperature: config.temperature,
+      // The Messages API requires max_tokens on every request
+      maxTokens: config.maxTokens || 1024,
+      anthropicApiUrl: config.baseURL,
+    }),
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { EchoChatModel } from "./fake";
+
+describe("EchoChatModel", () => {
+  const messages = [
+    new SystemMessage("Context: the Pro plan costs $10"),
+    new HumanMessage("first question"),
+    new HumanMessage("How much is Pro?"),
+  ];
+
+  it("echoes the last question and the system prompt", async () => {
+    const response = await new EchoChatModel().invoke(messages);
+
+    expect(response.content).toBe('You asked: "How much is Pro?"\n\nContext: the Pro plan costs $10');
+  });
+
+  it("fills a custom template", async () => {
+    const response = await new EchoChatModel({ template: "[{question}]" }).invoke(messages);
+
+    expect(response.content).toBe("[How much is Pro?]");
+  });
+
+  it("streams the same text word by word", async () => {
+    const model = new EchoChatModel({ template: "one two three" });
+    const chunks: string[] = [];
+
+    for await (const chunk of await model.stream(messages)) {
+      chunks.push(chunk.content as string);
+    }
+
+    expect(chunks).toEqual(["one", " two", " three"]);
+  });
+
+  it("stops streaming once the signal is aborted", async () => {
+    const model = new EchoChatModel({ template: "one two three" });
+    const abort = new AbortController();
+    const chunks: string[] = [];
+
+    const read = async () => {
+      for await (const chunk of await model.stream(messages, { signal: abort.signal })) {
+        chunks.push(chunk.content as string);
+        abort.abort();
+      }
+    };
+
+    await expect(read()).rejects.toThrow(/abort/i);
+    expect(chunks).toEqual(["one"]);
+  });
+});
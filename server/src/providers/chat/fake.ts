@@ -0,0 +1,70 @@
+/**
+ * Fake Chat Adapter
+ *
+ * Offline chat model for tests and local development. Instead of calling
+ * an LLM it fills a template with the incoming prompt:
+ *   {question} - the last user message
+ *   {system}   - the system prompt (includes the retrieved context for RAG)
+ * Streaming emits the filled template word by word. Like a provider
+ * request, it stops with an error once the call's signal is aborted.
+ */
+
+import {
+  SimpleChatModel,
+  type BaseChatModelParams,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk } from "@langchain/core/outputs";
+import type { ChatProviderAdapter } from "../types";
+
+const DEFAULT_TEMPLATE = 'You asked: "{question}"\n\n{system}';
+
+interface EchoChatModelParams extends BaseChatModelParams {
+  template?: string;
+}
+
+export class EchoChatModel extends SimpleChatModel {
+  template: string;
+
+  constructor(params: EchoChatModelParams = {}) {
+    super(params);
+    this.template = params.template || DEFAULT_TEMPLATE;
+  }
+
+  _llmType(): string {
+    return "fake-echo";
+  }
+
+  async _call(messages: BaseMessage[], options?: this["ParsedCallOptions"]): Promise<string> {
+    options?.signal?.throwIfAborted();
+
+    const textOf = (message?: BaseMessage) =>
+      typeof message?.content === "string" ? message.content : JSON.stringify(message?.content ?? "");
+
+    const system = messages.filter((m) => m.getType() === "system").map(textOf).join("\n\n");
+    const question = textOf([...messages].reverse().find((m) => m.getType() === "human"));
+
+    return this.template
+      .replace(/\{question\}/g, () => question)
+      .replace(/\{system\}/g, () => system);
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options?: this["ParsedCallOptions"]
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const text = await this._call(messages, options);
+
+    for (const token of text.match(/\s*\S+/g) || []) {
+      options?.signal?.throwIfAborted();
+      yield new ChatGenerationChunk({ text: token, message: new AIMessageChunk(token) });
+    }
+  }
+}
+
+export const fakeChatProvider: ChatProviderAdapter = {
+  name: "fake",
+  defaultModel: "fake-echo",
+  requiresApiKey: false,
+  create: (config) => new EchoChatModel({ template: config.template }),
+};
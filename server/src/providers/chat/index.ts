@@ -0,0 +1,69 @@
+/**
+ * Chat Provider Registry
+ *
+ * Resolves the plugin config into the chat model used for RAG answers.
+ * Without a chatProvider block the plugin uses OpenAI with openAIApiKey.
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { PluginConfigSchema } from "../../config";
+import type {
+  ChatProviderAdapter,
+  ChatProviderName,
+  ResolvedChatProviderConfig,
+} from "../types";
+import { openAIChatProvider } from "./openai";
+import { openAICompatibleChatProvider } from "./openai-compatible";
+import { anthropicChatProvider } from "./anthropic";
+import { fakeChatProvider } from "./fake";
+
+export const chatProviders: Record<ChatProviderName, ChatProviderAdapter> = {
+  openai: openAIChatProvider,
+  "openai-compatible": openAICompatibleChatProvider,
+  anthropic: anthropicChatProvider,
+  fake: fakeChatProvider,
+};
+
+/**
+ * Apply defaults and legacy fallbacks to the chat provider config
+ */
+export function resolveChatProviderConfig(config: PluginConfigSchema): ResolvedChatProviderConfig {
+  const providerConfig = config.chatProvider || {};
+  const provider = providerConfig.provider || "openai";
+  const adapter = chatProviders[provider];
+
+  if (!adapter) {
+    throw new Error(
+      `Unknown chat provider "${provider}". ` +
+      `Valid options: ${Object.keys(chatProviders).join(", ")}`
+    );
+  }
+
+  return {
+    ...providerConfig,
+    provider,
+    model: providerConfig.model || adapter.defaultModel,
+    temperature: providerConfig.temperature ?? 0.7,
+    apiKey: providerConfig.apiKey || (provider === "openai" ? config.openAIApiKey : undefined),
+  };
+}
+
+/**
+ * Check whether the chat provider has the credentials and URL it needs
+ */
+export function isChatProviderConfigured(config: PluginConfigSchema): boolean {
+  try {
+    const resolved = resolveChatProviderConfig(config);
+    const adapter = chatProviders[resolved.provider];
+    return (!adapter.requiresApiKey || !!resolved.apiKey) && (!adapter.requiresBaseURL || !!resolved.baseURL);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create the LangChain chat model for a resolved config
+ */
+export function createChatModel(config: ResolvedChatProviderConfig): BaseChatModel {
+  return chatProviders[config.provider].create(config);
+}
@@ -0,0 +1,30 @@
+/**
+ * OpenAI-Compatible Chat Adapter
+ *
+ * For self-hosted servers exposing the OpenAI chat completions API
+ * (Ollama, vLLM, LM Studio, LocalAI, ...). Requires baseURL.
+ */
+
+import { ChatOpenAI } from "@langchain/openai";
+import type { ChatProviderAdapter } from "../types";
+
+export const openAICompatibleChatProvider: ChatProviderAdapter = {
+  name: "openai-compatible",
+  defaultModel: "llama3.1",
+  requiresApiKey: false,
+  requiresBaseURL: true,
+  create: (config) => {
+    if (!config.baseURL) {
+      throw new Error('The "openai-compatible" chat provider requires a baseURL');
+    }
+
+    return new ChatOpenAI({
+      // Most self-hosted servers ignore the key, but the client refuses to start without one
+      apiKey: config.apiKey || "not-needed",
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      configuration: { baseURL: config.baseURL },
+    });
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * OpenAI Chat Adapter
+ *
+ * Uses the hosted OpenAI chat completions API.
+ */
+
+import { ChatOpenAI } from "@langchain/openai";
+import type { ChatProviderAdapter } from "../types";
+
+export const openAIChatProvider: ChatProviderAdapter = {
+  name: "openai",
+  defaultModel: "gpt-4o-mini",
+  requiresApiKey: true,
+  create: (config) =>
+    new ChatOpenAI({
+      apiKey: config.apiKey,
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      configuration: config.baseURL ? { baseURL: config.baseURL } : undefined,
+    }),
+};
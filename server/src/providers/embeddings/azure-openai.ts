@@ -0,0 +1,25 @@
+/**
+ * Azure OpenAI Embeddings Adapter
+ *
+ * Targets an embeddings deployment in an Azure OpenAI resource, addressed
+ * either by instance name or by a full endpoint URL (baseURL).
+ */
+
+import { AzureOpenAIEmbeddings } from "@langchain/openai";
+import type { EmbeddingProviderAdapter } from "../types";
+
+export const azureOpenAIEmbeddingProvider: EmbeddingProviderAdapter = {
+  name: "azure-openai",
+  defaultModel: "text-embedding-3-small",
+  requiresApiKey: true,
+  create: (config) =>
+    new AzureOpenAIEmbeddings({
+      azureOpenAIApiKey: config.apiKey,
+      azureOpenAIApiInstanceName: config.baseURL ? undefined : config.azureInstanceName,
+      azureOpenAIEndpoint: config.baseURL,
+      azureOpenAIApiEmbeddingsDeploymentName: config.azureDeploymentName || config.model,
+      azureOpenAIApiVersion: config.azureApiVersion || "2024-02-01",
+      model: config.model,
+      dimensions: config.model.startsWith("text-embedding-3") ? config.dimensions : undefined,
+    }),
+};
@@ -0,0 +1,20 @@
+/**
+ * Cohere Embeddings Adapter
+ *
+ * Uses the Cohere embed API. Documents are embedded as "search_document"
+ * and queries as "search_query", as recommended for v3 models.
+ */
+
+import { CohereEmbeddings } from "@langchain/cohere";
+import type { EmbeddingProviderAdapter } from "../types";
+
+export const cohereEmbeddingProvider: EmbeddingProviderAdapter = {
+  name: "cohere",
+  defaultModel: "embed-english-v3.0",
+  requiresApiKey: true,
+  create: (config) =>
+    new CohereEmbeddings({
+      apiKey: config.apiKey,
+      model: config.model,
+    }),
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { HashEmbeddings } from "./fake";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe("HashEmbeddings", () => {
+  const embeddings = new HashEmbeddings({ dimensions: 64 });
+
+  it("returns the same vector for the same text", async () => {
+    const [first] = await embeddings.embedDocuments(["How do I reset my password?"]);
+    const second = await new HashEmbeddings({ dimensions: 64 }).embedQuery("How do I reset my password?");
+
+    expect(first).toEqual(second);
+  });
+
+  it("returns unit vectors of the configured dimensions", async () => {
+    const vector = await embeddings.embedQuery("pricing plans");
+
+    expect(vector).toHaveLength(64);
+    expect(cosine(vector, vector)).toBeCloseTo(1);
+  });
+
+  it("ignores case and punctuation", async () => {
+    expect(await embeddings.embedQuery("Reset Password!")).toEqual(await embeddings.embedQuery("reset password"));
+  });
+
+  it("puts texts sharing words closer together", async () => {
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      "reset your password",
+      "how to reset a forgotten password",
+      "quarterly revenue report",
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("gives empty and symbol-only text a stable unit vector", async () => {
+    for (const text of ["", "?!"]) {
+      const vector = await embeddings.embedQuery(text);
+      expect(vector).toEqual(await embeddings.embedQuery(text));
+      expect(cosine(vector, vector)).toBeCloseTo(1);
+    }
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Fake Embeddings Adapter
+ *
+ * Deterministic, offline embeddings for tests and local development.
+ * Each word is hashed into one of `dimensions` buckets (feature hashing),
+ * so texts sharing words end up close together and the same text always
+ * produces the same vector. No network calls, no API key.
+ */
+
+import { createHash } from "node:crypto";
+import { Embeddings, type EmbeddingsParams } from "@langchain/core/embeddings";
+import type { EmbeddingProviderAdapter } from "../types";
+
+interface HashEmbeddingsParams extends EmbeddingsParams {
+  dimensions: number;
+}
+
+/**
+ * Hash a string to an unsigned 32-bit integer
+ */
+function hash32(value: string): number {
+  return createHash("sha256").update(value).digest().readUInt32BE(0);
+}
+
+export class HashEmbeddings extends Embeddings {
+  dimensions: number;
+
+  constructor(params: HashEmbeddingsParams) {
+    super(params);
+    this.dimensions = params.dimensions;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    // Fall back to the raw text so empty or symbol-only input still gets a stable vector
+    for (const token of tokens.length > 0 ? tokens : [text]) {
+      const h = hash32(token);
+      const sign = h & 1 ? 1 : -1;
+      vector[(h >>> 1) % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+
+    return vector.map((v) => v / norm);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((doc) => this.embed(doc));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+export const fakeEmbeddingProvider: EmbeddingProviderAdapter = {
+  name: "fake",
+  defaultModel: "fake-hash",
+  defaultDimensions: 1536,
+  requiresApiKey: false,
+  create: (config) => new HashEmbeddings({ dimensions: config.dimensions }),
+};
@@ -0,0 +1,121 @@
+/**
+ * Embedding Provider Registry
+ *
+ * Resolves the plugin config into a concrete embedding provider.
+ * The legacy top-level options (openAIApiKey, embeddingModel) keep working
+ * and map onto the "openai" provider.
+ */
+
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { EMBEDDING_MODELS, type PluginConfigSchema } from "../../config";
+import type {
+  EmbeddingProviderAdapter,
+  EmbeddingProviderName,
+  ResolvedEmbeddingProviderConfig,
+} from "../types";
+import { openAIEmbeddingProvider } from "./openai";
+import { azureOpenAIEmbeddingProvider } from "./azure-openai";
+import { openAICompatibleEmbeddingProvider } from "./openai-compatible";
+import { cohereEmbeddingProvider } from "./cohere";
+import { fakeEmbeddingProvider } from "./fake";
+
+export const embeddingProviders: Record<EmbeddingProviderName, EmbeddingProviderAdapter> = {
+  openai: openAIEmbeddingProvider,
+  "azure-openai": azureOpenAIEmbeddingProvider,
+  "openai-compatible": openAICompatibleEmbeddingProvider,
+  cohere: cohereEmbeddingProvider,
+  fake: fakeEmbeddingProvider,
+};
+
+/**
+ * Look up the known dimension count for a model name
+ */
+export function getModelDimensions(model: string): number | undefined {
+  return (EMBEDDING_MODELS as Record<string, { dimensions: number }>)[model]?.dimensions;
+}
+
+/**
+ * Apply defaults and legacy fallbacks to the embedding provider config
+ */
+export function resolveEmbeddingProviderConfig(
+  config: PluginConfigSchema
+): ResolvedEmbeddingProviderConfig {
+  const providerConfig = config.embeddingProvider || {};
+  const provider = providerConfig.provider || "openai";
+  const adapter = embeddingProviders[provider];
+
+  if (!adapter) {
+    throw new Error(
+      `Unknown embedding provider "${provider}". ` +
+      `Valid options: ${Object.keys(embeddingProviders).join(", ")}`
+    );
+  }
+
+  const usesOpenAIKey = provider === "openai" || provider === "azure-openai";
+
+  // The top-level embeddingModel only applies to OpenAI models
+  const legacyModel = usesOpenAIKey ? config.embeddingModel : undefined;
+  let model = providerConfig.model || legacyModel || adapter.defaultModel;
+
+  // Keep the old behaviour for an invalid top-level embeddingModel
+  if (!providerConfig.model && legacyModel && !getModelDimensions(model)) {
+    console.warn(`Invalid embedding model "${model}", using default`);
+    model = adapter.defaultModel;
+  }
+
+  const dimensions =
+    providerConfig.dimensions || getModelDimensions(model) || adapter.defaultDimensions;
+
+  if (!dimensions) {
+    throw new Error(
+      `Unknown dimensions for embedding model "${model}". ` +
+      `Set embeddingProvider.dimensions in the plugin config.`
+    );
+  }
+
+  return {
+    ...providerConfig,
+    provider,
+    model,
+    dimensions,
+    apiKey: providerConfig.apiKey || (usesOpenAIKey ? config.openAIApiKey : undefined),
+  };
+}
+
+/**
+ * Resolve nextEmbeddingProvider, the target of a model migration.
+ * The top-level embeddingModel shorthand does not apply to it.
+ */
+export function resolveNextEmbeddingProviderConfig(
+  config: PluginConfigSchema
+): ResolvedEmbeddingProviderConfig | null {
+  if (!config.nextEmbeddingProvider) {
+    return null;
+  }
+
+  return resolveEmbeddingProviderConfig({
+    ...config,
+    embeddingProvider: config.nextEmbeddingProvider,
+    embeddingModel: undefined,
+  });
+}
+
+/**
+ * Check whether the embedding provider has the credentials and URL it needs
+ */
+export function isEmbeddingProviderConfigured(config: PluginConfigSchema): boolean {
+  try {
+    const resolved = resolveEmbeddingProviderConfig(config);
+    const adapter = embeddingProviders[resolved.provider];
+    return (!adapter.requiresApiKey || !!resolved.apiKey) && (!adapter.requiresBaseURL || !!resolved.baseURL);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create the LangChain embeddings client for a resolved config
+ */
+export function createEmbeddings(config: ResolvedEmbeddingProviderConfig): EmbeddingsInterface {
+  return embeddingProviders[config.provider].create(config);
+}
@@ -0,0 +1,29 @@
+/**
+ * OpenAI-Compatible Embeddings Adapter
+ *
+ * For self-hosted servers exposing the OpenAI embeddings API
+ * (Ollama, vLLM, LM Studio, LocalAI, ...). Requires baseURL, e.g.
+ * "http://localhost:11434/v1" for Ollama.
+ */
+
+import { OpenAIEmbeddings } from "@langchain/openai";
+import type { EmbeddingProviderAdapter } from "../types";
+
+export const openAICompatibleEmbeddingProvider: EmbeddingProviderAdapter = {
+  name: "openai-compatible",
+  defaultModel: "nomic-embed-text",
+  requiresApiKey: false,
+  requiresBaseURL: true,
+  create: (config) => {
+    if (!config.baseURL) {
+      throw new Error('The "openai-compatible" embedding provider requires a baseURL');
+    }
+
+    return new OpenAIEmbeddings({
+      // Most self-hosted servers ignore the key, but the client refuses to start without one
+      apiKey: config.apiKey || "not-needed",
+      model: config.model,
+      configuration: { baseURL: config.baseURL },
+    });
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * OpenAI Embeddings Adapter
+ *
+ * Uses the hosted OpenAI embeddings API.
+ */
+
+import { OpenAIEmbeddings } from "@langchain/openai";
+import type { EmbeddingProviderAdapter } from "../types";
+
+export const openAIEmbeddingProvider: EmbeddingProviderAdapter = {
+  name: "openai",
+  defaultModel: "text-embedding-3-small",
+  requiresApiKey: true,
+  create: (config) =>
+    new OpenAIEmbeddings({
+      apiKey: config.apiKey,
+      model: config.model,
+      // Only text-embedding-3 and later accept a custom dimension count
+      dimensions: config.model.startsWith("text-embedding-3") ? config.dimensions : undefined,
+      configuration: config.baseURL ? { baseURL: config.baseURL } : undefined,
+    }),
+};
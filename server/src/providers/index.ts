@@ -0,0 +1,30 @@
+/**
+ * Provider Module Exports
+ */
+
+export type {
+  EmbeddingProviderName,
+  EmbeddingProviderConfig,
+  ResolvedEmbeddingProviderConfig,
+  EmbeddingProviderAdapter,
+  ChatProviderName,
+  ChatProviderConfig,
+  ResolvedChatProviderConfig,
+  ChatProviderAdapter,
+} from "./types";
+
+export {
+  embeddingProviders,
+  getModelDimensions,
+  resolveEmbeddingProviderConfig,
+  resolveNextEmbeddingProviderConfig,
+  isEmbeddingProviderConfigured,
+  createEmbeddings,
+} from "./embeddings";
+
+export {
+  chatProviders,
+  resolveChatProviderConfig,
+  isChatProviderConfigured,
+  createChatModel,
+} from "./chat";
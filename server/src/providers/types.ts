@@ -0,0 +1,87 @@
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+export type EmbeddingProviderName =
+  | "openai"
+  | "azure-openai"
+  | "openai-compatible"
+  | "cohere"
+  | "fake";
+
+export interface EmbeddingProviderConfig {
+  /** Provider adapter to use (default: "openai") */
+  provider?: EmbeddingProviderName;
+  /** Embedding model name (Azure: the model behind your deployment) */
+  model?: string;
+  /** Vector dimensions. Required for models not listed in EMBEDDING_MODELS */
+  dimensions?: number;
+  /** Base URL of the API (OpenAI-compatible servers, Azure endpoint) */
+  baseURL?: string;
+  /** API key for the provider (OpenAI and Azure fall back to openAIApiKey) */
+  apiKey?: string;
+  /** Azure OpenAI instance name, used when baseURL is not set */
+  azureInstanceName?: string;
+  /** Azure OpenAI embeddings deployment name */
+  azureDeploymentName?: string;
+  /** Azure OpenAI API version (default: "2024-02-01") */
+  azureApiVersion?: string;
+}
+
+/**
+ * Provider config after defaults have been applied.
+ * Model and dimensions are always known at this point.
+ */
+export interface ResolvedEmbeddingProviderConfig extends EmbeddingProviderConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingProviderAdapter {
+  name: EmbeddingProviderName;
+  /** Model used when the config does not name one */
+  defaultModel: string;
+  /** Dimensions used when neither the config nor EMBEDDING_MODELS provide them */
+  defaultDimensions?: number;
+  /** If true, the adapter cannot be used without an API key */
+  requiresApiKey: boolean;
+  /** If true, the adapter cannot be used without a baseURL */
+  requiresBaseURL?: boolean;
+  create: (config: ResolvedEmbeddingProviderConfig) => EmbeddingsInterface;
+}
+
+export type ChatProviderName = "openai" | "openai-compatible" | "anthropic" | "fake";
+
+export interface ChatProviderConfig {
+  /** Provider adapter to use (default: "openai") */
+  provider?: ChatProviderName;
+  /** Chat model used to answer RAG queries */
+  model?: string;
+  /** Sampling temperature (default: 0.7) */
+  temperature?: number;
+  /** Maximum tokens in the generated answer (default: provider default) */
+  maxTokens?: number;
+  /** Base URL of the API (required for OpenAI-compatible servers) */
+  baseURL?: string;
+  /** API key for the provider (OpenAI falls back to openAIApiKey) */
+  apiKey?: string;
+  /** Response template for the "fake" provider ({question}, {system}) */
+  template?: string;
+}
+
+export interface ResolvedChatProviderConfig extends ChatProviderConfig {
+  provider: ChatProviderName;
+  model: string;
+  temperature: number;
+}
+
+export interface ChatProviderAdapter {
+  name: ChatProviderName;
+  /** Model used when the config does not name one */
+  defaultModel: string;
+  /** If true, the adapter cannot be used without an API key */
+  requiresApiKey: boolean;
+  /** If true, the adapter cannot be used without a baseURL */
+  requiresBaseURL?: boolean;
+  create: (config: ResolvedChatProviderConfig) => BaseChatModel;
+}
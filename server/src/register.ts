@@ -1,16 +1,22 @@
 import type { Core } from "@strapi/strapi";
+import type { PluginConfigSchema } from "./config";
+import { isContentTypeEnabled } from "./utils/content-types";
 
 const PLUGIN_ID = "strapi-content-embeddings";
 
 const register = ({ strapi }: { strapi: Core.Strapi }) => {
-  // Add embedding relation to all content types
+  const pluginConfig = strapi.config.get(`plugin::${PLUGIN_ID}`) as PluginConfigSchema || {};
+
+  for (const uid of Object.keys(pluginConfig.contentTypes || {})) {
+    if (!strapi.contentTypes[uid as keyof typeof strapi.contentTypes]) {
+      console.warn(`[${PLUGIN_ID}] contentTypes: unknown content type "${uid}"`);
+    }
+  }
+
+  // Add embedding relation to every enabled content type
   Object.values(strapi.contentTypes).forEach((contentType: any) => {
-    // Skip internal content types and the embedding content type itself
-    if (
-      contentType.uid.startsWith("admin::") ||
-      contentType.uid.startsWith("strapi::") ||
-      contentType.uid === `plugin::${PLUGIN_ID}.embedding`
-    ) {
+    // Skip internal content types, the plugin's own types and types disabled in config
+    if (!isContentTypeEnabled(pluginConfig, contentType.uid)) {
       return;
     }
 
@@ -24,6 +30,29 @@ const register = ({ strapi }: { strapi: Core.Strapi }) => {
       configurable: false,
     };
   });
+
+  // Keep embeddings in sync with content changes for types with autoEmbed enabled
+  strapi.documents.use(async (context, next) => {
+    const result = await next();
+
+    if (context.uid.startsWith(`plugin::${PLUGIN_ID}.`)) {
+      return result;
+    }
+
+    try {
+      await strapi.plugin(PLUGIN_ID).service("auto-embed").handleDocumentChange({
+        uid: context.uid,
+        action: context.action,
+        params: context.params,
+        result,
+      });
+    } catch (error) {
+      // Never fail the editor's save because embedding failed
+      console.error(`[${PLUGIN_ID}] Auto-embed failed for ${context.uid} (${context.action}):`, error);
+    }
+
+    return result;
+  });
 };
 
 export default register;
@@ -51,6 +51,136 @@ export default [
     ]
   },
 },
+{
+  method: 'GET',
+  path: '/embeddings/embeddings-query/stream',
+  handler: 'controller.streamQuery',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.chat'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/embeddings/conversation',
+  handler: 'controller.queryConversation',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.chat'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/embeddings/conversation/stream',
+  handler: 'controller.streamQuery',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.chat'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/conversations',
+  handler: 'controller.getConversations',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.chat'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/conversations/:id',
+  handler: 'controller.getConversation',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.chat'] }
+      },
+    ]
+  },
+},
+{
+  method: 'DELETE',
+  path: '/conversations/:id',
+  handler: 'controller.deleteConversation',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.chat'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/prompts',
+  handler: 'controller.getPromptPresets',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/prompts',
+  handler: 'controller.createPromptPreset',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'PUT',
+  path: '/prompts/:id',
+  handler: 'controller.updatePromptPreset',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'DELETE',
+  path: '/prompts/:id',
+  handler: 'controller.deletePromptPreset',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
 {
   method: 'GET',
   path: '/embeddings/find/:id',
@@ -90,6 +220,240 @@ export default [
     ]
   },
 },
+{
+  method: 'GET',
+  path: '/content-types',
+  handler: 'controller.listContentTypes',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/content-types/:uid',
+  handler: 'controller.getContentTypeConfig',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/jobs/reindex',
+  handler: 'controller.startReindex',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/jobs',
+  handler: 'controller.getJobs',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/jobs/:id',
+  handler: 'controller.getJob',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/jobs/:id/cancel',
+  handler: 'controller.cancelJob',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/queue',
+  handler: 'controller.getQueueItems',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/queue/stats',
+  handler: 'controller.getQueueStats',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/queue/retry',
+  handler: 'controller.retryDeadQueueItems',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/queue/:id/retry',
+  handler: 'controller.retryQueueItem',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'DELETE',
+  path: '/queue/:id',
+  handler: 'controller.deleteQueueItem',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.delete'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/model-migration',
+  handler: 'controller.getModelMigration',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/model-migration/start',
+  handler: 'controller.startModelMigration',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/model-migration/switch',
+  handler: 'controller.switchModelMigration',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/model-migration/resume',
+  handler: 'controller.resumeModelMigration',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/model-migration/rollback',
+  handler: 'controller.rollbackModelMigration',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'POST',
+  path: '/model-migration/complete',
+  handler: 'controller.completeModelMigration',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.update'] }
+      },
+    ]
+  },
+},
+{
+  method: 'GET',
+  path: '/usage',
+  handler: 'controller.getUsage',
+  config: {
+    policies: [
+      {
+        name: 'admin::hasPermissions',
+        config: { actions: ['plugin::strapi-content-embeddings.read'] }
+      },
+    ]
+  },
+},
 {
   method: 'GET',
   path: '/debug/neon',
@@ -4,6 +4,38 @@ export default [
     path: '/embeddings-query',
     handler: 'controller.queryEmbeddings',
   },
+  {
+    method: 'GET',
+    path: '/embeddings-query/stream',
+    handler: 'controller.streamQuery',
+    config: {
+      description: 'RAG answer streamed as Server-Sent Events (token events, then a done event with sources)',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/conversation',
+    handler: 'controller.queryConversation',
+    config: {
+      description: 'RAG answer with chat history. Body: question, history: [{ role, content }], retrieval overrides, prompt (preset name)',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/conversation/stream',
+    handler: 'controller.streamQuery',
+    config: {
+      description: 'Streamed RAG answer with chat history, as Server-Sent Events',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/search',
+    handler: 'controller.searchEmbeddings',
+    config: {
+      description: 'Semantic search. Query params: query, limit, filters[collectionType], filters[locale], filters[metadata][key], ...',
+    },
+  },
   // Sync routes - for cron jobs or manual triggering
   // Use API token for authentication
   {
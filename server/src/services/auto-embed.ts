@@ -0,0 +1,243 @@
+import type { Core } from "@strapi/strapi";
+import type { PluginConfigSchema } from "../config";
+import { pluginManager } from "../plugin-manager";
+import { needsChunking } from "../utils/chunking";
+import { resolveContentTypeConfig, type ResolvedContentTypeConfig } from "../utils/content-types";
+import { buildPopulate, extractEntryText } from "../utils/content-extractor";
+import { hashContent } from "../utils/hash";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const CONTENT_TYPE_UID = `plugin::${PLUGIN_ID}.embedding` as const;
+
+/** Document service actions that change what should be embedded */
+const HANDLED_ACTIONS = ["create", "update", "delete", "publish", "unpublish", "discardDraft"] as const;
+
+type HandledAction = (typeof HANDLED_ACTIONS)[number];
+
+export interface DocumentChange {
+  uid: string;
+  action: string;
+  params: Record<string, any>;
+  result: any;
+}
+
+/** Common attribute names used as the entry title */
+const TITLE_ATTRIBUTES = ["title", "name", "headline", "label", "slug"];
+
+const autoEmbed = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Embedding settings for a content type (contentTypes map + plugin defaults)
+   */
+  getContentTypeConfig(uid: string): ResolvedContentTypeConfig {
+    const config = strapi.config.get(`plugin::${PLUGIN_ID}`) as PluginConfigSchema || {};
+    return resolveContentTypeConfig(config, uid);
+  },
+
+  /**
+   * Content types that can be embedded, for the admin reindex picker
+   */
+  listContentTypes() {
+    return Object.values(strapi.contentTypes)
+      .map((contentType: any) => ({
+        ...this.getContentTypeConfig(contentType.uid),
+        displayName: contentType.info?.displayName || contentType.uid,
+        kind: contentType.kind,
+        localized: !!contentType.pluginOptions?.i18n?.localized,
+        draftAndPublish: !!contentType.options?.draftAndPublish,
+      }))
+      .filter((contentType) => contentType.enabled && contentType.uid.startsWith("api::"))
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
+  },
+
+  isEnabled(uid: string): boolean {
+    return this.getContentTypeConfig(uid).autoEmbed;
+  },
+
+  /**
+   * Extract the configured fields of an entry (default: every text attribute),
+   * including components, dynamic zones and Blocks
+   */
+  extractContent(uid: string, entry: Record<string, any>): string {
+    const { fields } = this.getContentTypeConfig(uid);
+    return extractEntryText(strapi, uid, entry, { fields });
+  },
+
+  /**
+   * Reload an entry with the components and dynamic zones needed for extraction
+   */
+  async loadEntry(uid: string, entry: Record<string, any>): Promise<Record<string, any> | null> {
+    const contentType = strapi.contentTypes[uid as keyof typeof strapi.contentTypes] as any;
+    const { fields } = this.getContentTypeConfig(uid);
+    const hasDraftAndPublish = contentType?.options?.draftAndPublish === true;
+
+    return strapi.documents(uid as any).findOne({
+      documentId: entry.documentId,
+      locale: entry.locale ?? undefined,
+      status: hasDraftAndPublish ? (entry.publishedAt ? "published" : "draft") : undefined,
+      populate: buildPopulate(strapi, uid, { fields }) as any,
+    });
+  },
+
+  /**
+   * Pick a readable title for an entry (titleField first, then common names)
+   */
+  extractTitle(uid: string, entry: Record<string, any>): string {
+    const contentType = strapi.contentTypes[uid as keyof typeof strapi.contentTypes] as any;
+    const { titleField } = this.getContentTypeConfig(uid);
+
+    for (const name of titleField ? [titleField, ...TITLE_ATTRIBUTES] : TITLE_ATTRIBUTES) {
+      if (typeof entry[name] === "string" && entry[name].trim()) {
+        return entry[name].trim();
+      }
+    }
+
+    return `${contentType?.info?.displayName || uid} ${entry.documentId}`;
+  },
+
+  /**
+   * Find the embedding entries (all chunks) that belong to a content entry.
+   * Entries are linked through metadata.documentId, like the admin widget does.
+   */
+  async findEmbeddingsForDocument(uid: string, documentId: string, locale?: string | null) {
+    const candidates = await strapi.documents(CONTENT_TYPE_UID).findMany({
+      filters: {
+        collectionType: uid,
+        metadata: { $containsi: documentId },
+      },
+      populate: ["related"],
+      limit: -1,
+    });
+
+    return candidates.filter((embedding: any) => {
+      const metadata = embedding.metadata as Record<string, any> | null;
+      if (metadata?.documentId !== documentId) return false;
+      // Without a locale (delete/unpublish of all locales) every match counts
+      return !locale || (metadata?.locale ?? null) === locale;
+    });
+  },
+
+  /**
+   * Create or refresh the embedding for a single content entry
+   */
+  async embedEntry(uid: string, changedEntry: Record<string, any>): Promise<void> {
+    const embeddingsService = strapi.plugin(PLUGIN_ID).service("embeddings");
+    const entry = (await this.loadEntry(uid, changedEntry)) || changedEntry;
+    const content = this.extractContent(uid, entry);
+    const existing = await this.findEmbeddingsForDocument(uid, entry.documentId, entry.locale ?? null);
+
+    if (!content) {
+      await this.deleteEmbeddings(existing);
+      return;
+    }
+
+    const title = this.extractTitle(uid, entry);
+    const sourceHash = hashContent(content);
+    const metadata = {
+      source: "auto-embed",
+      collectionType: uid,
+      documentId: entry.documentId,
+      locale: entry.locale ?? null,
+      sourceHash,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const [current] = existing;
+    const currentMetadata = current?.metadata as Record<string, any> | null;
+    const relatedUnchanged = current?.related?.id === entry.id;
+
+    // Same text, title and model as the stored vectors: nothing to re-embed
+    const upToDate =
+      existing.length > 0 &&
+      relatedUnchanged &&
+      (currentMetadata?.originalTitle ?? current.title) === title &&
+      existing.every(
+        (embedding) =>
+          (embedding.metadata as Record<string, any> | null)?.sourceHash === sourceHash &&
+          embedding.embeddingModel === pluginManager.getEmbeddingModel() &&
+          !!embedding.embeddingId
+      );
+
+    if (upToDate) {
+      return;
+    }
+    const typeConfig = this.getContentTypeConfig(uid);
+    const willChunk = typeConfig.autoChunk && needsChunking(content, typeConfig.chunkSize);
+
+    // A single unchunked embedding linked to the same row can be updated in place
+    if (existing.length === 1 && !currentMetadata?.isChunk && !willChunk && relatedUnchanged) {
+      await embeddingsService.updateEmbedding(current.documentId, {
+        data: { title, content, metadata },
+      });
+      return;
+    }
+
+    await this.deleteEmbeddings(existing);
+    await embeddingsService.createEmbedding({
+      data: {
+        title,
+        content,
+        collectionType: uid,
+        fieldName: typeConfig.fields?.join(",") || "content",
+        metadata,
+        related: { __type: uid, id: entry.id },
+      },
+    });
+  },
+
+  async deleteEmbeddings(embeddings: any[]): Promise<void> {
+    const embeddingsService = strapi.plugin(PLUGIN_ID).service("embeddings");
+
+    for (const embedding of embeddings) {
+      await embeddingsService.deleteEmbedding(embedding.documentId);
+    }
+  },
+
+  /**
+   * Apply a document service change to the linked embeddings.
+   *
+   * Types with Draft & Publish are embedded when published and removed
+   * when unpublished; draft saves are ignored unless includeDrafts is set,
+   * in which case the draft is embedded on every save. Other types are
+   * embedded on every create and update.
+   */
+  async handleDocumentChange({ uid, action, params, result }: DocumentChange): Promise<void> {
+    if (!HANDLED_ACTIONS.includes(action as HandledAction) || !this.isEnabled(uid) || !result) {
+      return;
+    }
+
+    const contentType = strapi.contentTypes[uid as keyof typeof strapi.contentTypes] as any;
+    const hasDraftAndPublish = contentType?.options?.draftAndPublish === true;
+    const { includeDrafts } = this.getContentTypeConfig(uid);
+    const embedsDrafts = hasDraftAndPublish && includeDrafts;
+    const locale = params.locale && params.locale !== "*" ? params.locale : null;
+
+    switch (action as HandledAction) {
+      case "create":
+      case "update":
+        if (hasDraftAndPublish && !includeDrafts) return;
+        await this.embedEntry(uid, result);
+        return;
+
+      case "publish":
+      case "discardDraft":
+        // publish returns published entries, discardDraft the restored drafts
+        if (embedsDrafts !== (action === "discardDraft")) return;
+        for (const entry of result.entries || []) {
+          await this.embedEntry(uid, entry);
+        }
+        return;
+
+      case "unpublish":
+      case "delete": {
+        // After unpublishing, a draft that is embedded keeps its embedding
+        if (action === "unpublish" && embedsDrafts) return;
+        const documentId = result.documentId || params.documentId;
+        if (!documentId) return;
+        await this.deleteEmbeddings(await this.findEmbeddingsForDocument(uid, documentId, locale));
+        return;
+      }
+    }
+  },
+});
+
+export default autoEmbed;
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Core } from "@strapi/strapi";
+import conversations from "./conversations";
+
+/**
+ * Conversations service over a fake Strapi whose RAG answer fails once the
+ * request is aborted, recording what is stored
+ */
+function createService() {
+  const created: Array<{ uid: string; data: Record<string, unknown> }> = [];
+  const queryConversation = vi.fn(
+    async (_question: string, _history: unknown[], _options: unknown, _onToken: unknown, signal?: AbortSignal) =>
+      signal?.aborted ? { error: "Query aborted" } : { text: "An answer", sourceDocuments: [], citations: [] }
+  );
+
+  const strapi = {
+    documents: (uid: string) => ({
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        created.push({ uid, data });
+        return { documentId: `${uid.split(".").pop()}-${created.length}`, ...data };
+      },
+      update: async () => ({}),
+    }),
+    plugin: () => ({ service: () => ({ queryConversation }) }),
+  } as unknown as Core.Strapi;
+
+  return { service: conversations({ strapi }), created };
+}
+
+describe("conversations.ask", () => {
+  it("saves a new conversation with its first answer", async () => {
+    const { service, created } = createService();
+
+    const result = await service.ask(1, undefined, "How much is Pro?");
+
+    expect(created.map(({ uid }) => uid)).toEqual([
+      "plugin::strapi-content-embeddings.conversation",
+      "plugin::strapi-content-embeddings.conversation-message",
+    ]);
+    expect(created[0].data).toEqual({ ownerId: 1, title: "How much is Pro?" });
+    expect(result).toMatchObject({
+      text: "An answer",
+      conversationId: "conversation-1",
+      messageId: "conversation-message-2",
+    });
+  });
+
+  it("saves nothing when the first question is aborted", async () => {
+    const { service, created } = createService();
+    const abort = new AbortController();
+    abort.abort();
+
+    const result = await service.ask(1, undefined, "How much is Pro?", {}, undefined, abort.signal);
+
+    expect(result).toEqual({ error: "Query aborted", conversationId: undefined });
+    expect(created).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { Core } from "@strapi/strapi";
+import { pluginManager, type ConversationMessage, type RagQueryOptions } from "../plugin-manager";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const CONVERSATION_UID = `plugin::${PLUGIN_ID}.conversation` as const;
+const MESSAGE_UID = `plugin::${PLUGIN_ID}.conversation-message` as const;
+
+/** Longest conversation title, taken from the first question */
+const MAX_TITLE_LENGTH = 80;
+
+function toTitle(question: string): string {
+  const title = question.trim().replace(/\s+/g, " ");
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+/**
+ * Saved chat conversations. Every conversation belongs to the admin user
+ * who started it; the other methods only see conversations of ownerId.
+ */
+const conversations = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Conversations of a user, most recently active first. search matches the
+   * title and the questions and answers.
+   */
+  async listConversations(
+    ownerId: number,
+    params?: { search?: string; page?: number; pageSize?: number }
+  ) {
+    const page = params?.page || 1;
+    const pageSize = params?.pageSize || 20;
+    const search = params?.search?.trim();
+
+    const filters: Record<string, any> = { ownerId };
+    if (search) {
+      filters.$or = [
+        { title: { $containsi: search } },
+        { messages: { question: { $containsi: search } } },
+        { messages: { answer: { $containsi: search } } },
+      ];
+    }
+
+    const [data, totalCount] = await Promise.all([
+      strapi.documents(CONVERSATION_UID).findMany({
+        filters,
+        sort: { updatedAt: "desc" },
+        populate: { messages: { count: true } } as any,
+        start: (page - 1) * pageSize,
+        limit: pageSize,
+      }),
+      strapi.documents(CONVERSATION_UID).count({ filters }),
+    ]);
+
+    return { data, count: data.length, totalCount };
+  },
+
+  /**
+   * A conversation with its messages, oldest first; null when it does not
+   * exist or belongs to someone else
+   */
+  async getConversation(ownerId: number, documentId: string) {
+    const [conversation] = await strapi.documents(CONVERSATION_UID).findMany({
+      filters: { documentId, ownerId },
+      populate: { messages: { sort: ["createdAt:asc", "id:asc"] } } as any,
+      limit: 1,
+    });
+
+    return conversation || null;
+  },
+
+  async createConversation(ownerId: number, title: string) {
+    return strapi.documents(CONVERSATION_UID).create({
+      data: { ownerId, title: toTitle(title) } as any,
+    });
+  },
+
+  /**
+   * Delete a conversation and its messages; null when it was not found
+   */
+  async deleteConversation(ownerId: number, documentId: string) {
+    const conversation = await this.getConversation(ownerId, documentId);
+
+    if (!conversation) {
+      return null;
+    }
+
+    for (const message of (conversation as any).messages || []) {
+      await strapi.documents(MESSAGE_UID).delete({ documentId: message.documentId });
+    }
+    await strapi.documents(CONVERSATION_UID).delete({ documentId });
+
+    return conversation;
+  },
+
+  /**
+   * Answer a question within a saved conversation (a new one when
+   * conversationId is not given) and store the exchange. The history comes
+   * from the stored messages. A new conversation is only created once its
+   * first question is answered, so failed or aborted ones leave nothing behind.
+   */
+  async ask(
+    ownerId: number,
+    conversationId: string | undefined,
+    question: string,
+    options: RagQueryOptions = {},
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ) {
+    const existing = conversationId ? await this.getConversation(ownerId, conversationId) : null;
+
+    if (conversationId && !existing) {
+      return null;
+    }
+
+    const history: ConversationMessage[] = ((existing as any)?.messages || []).flatMap((message: any) => [
+      { role: "user", content: message.question },
+      { role: "assistant", content: message.answer || "" },
+    ]);
+
+    const startedAt = Date.now();
+    const result = await strapi
+      .plugin(PLUGIN_ID)
+      .service("embeddings")
+      .queryConversation(question, history, options, onToken, signal);
+
+    if (result.error) {
+      return { ...result, conversationId: existing?.documentId };
+    }
+
+    const conversation = existing || (await this.createConversation(ownerId, question));
+    const message = await strapi.documents(MESSAGE_UID).create({
+      data: {
+        conversation: conversation.documentId,
+        question,
+        standaloneQuestion: result.standaloneQuestion ?? null,
+        answer: result.text,
+        sources: result.sourceDocuments,
+        citations: result.citations,
+        latencyMs: Date.now() - startedAt,
+        model: pluginManager.getChatModel(),
+      } as any,
+    });
+
+    // Keeps recently used conversations at the top of the list
+    if (existing) {
+      await strapi.documents(CONVERSATION_UID).update({
+        documentId: existing.documentId,
+        data: { title: existing.title } as any,
+      });
+    }
+
+    return { ...result, conversationId: conversation.documentId, messageId: message.documentId };
+  },
+});
+
+export default conversations;
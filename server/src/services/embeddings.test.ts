@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Core } from "@strapi/strapi";
+import { pluginManager } from "../plugin-manager";
+import embeddings from "./embeddings";
+
+const storedEntry = {
+  documentId: "emb-1",
+  title: "Pricing",
+  content: "The Pro plan costs $10.",
+  collectionType: "api::page.page",
+  metadata: { source: "auto-embed", documentId: "page-1" },
+};
+
+/**
+ * Embeddings service over a fake Strapi holding one stored entry, recording
+ * what is queued for embedding
+ */
+function createService() {
+  const enqueueMany = vi.fn(async () => []);
+  const strapi = {
+    config: { get: () => ({ preprocessContent: false }) },
+    documents: () => ({
+      findOne: async () => storedEntry,
+      update: async ({ data }: { data: Record<string, unknown> }) => ({ ...storedEntry, ...data }),
+    }),
+    plugin: () => ({ service: () => ({ enqueueMany }) }),
+  } as unknown as Core.Strapi;
+
+  return { service: embeddings({ strapi }), enqueueMany };
+}
+
+describe("embeddings.updateEmbedding", () => {
+  beforeEach(() => {
+    vi.spyOn(pluginManager, "isInitialized").mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("re-embeds when the content changes", async () => {
+    const { service, enqueueMany } = createService();
+
+    await service.updateEmbedding("emb-1", { data: { content: "The Pro plan costs $12." } });
+
+    expect(enqueueMany).toHaveBeenCalledWith([{ embeddingDocumentId: "emb-1", title: "Pricing" }]);
+  });
+
+  it("re-embeds when only the title changes, so search results show the new title", async () => {
+    const { service, enqueueMany } = createService();
+
+    await service.updateEmbedding("emb-1", { data: { title: "Plans", content: storedEntry.content } });
+
+    expect(enqueueMany).toHaveBeenCalledWith([{ embeddingDocumentId: "emb-1", title: "Plans" }]);
+  });
+
+  it("re-embeds when only the metadata changes", async () => {
+    const { service, enqueueMany } = createService();
+
+    await service.updateEmbedding("emb-1", { data: { metadata: { ...storedEntry.metadata, locale: "de" } } });
+
+    expect(enqueueMany).toHaveBeenCalledOnce();
+  });
+
+  it("does not re-embed an unchanged entry", async () => {
+    const { service, enqueueMany } = createService();
+
+    await service.updateEmbedding("emb-1", {
+      data: { title: storedEntry.title, content: storedEntry.content, metadata: { ...storedEntry.metadata } },
+    });
+
+    expect(enqueueMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,29 @@
 import type { Core } from "@strapi/strapi";
-import { pluginManager } from "../plugin-manager";
+import {
+  pluginManager,
+  type ConversationMessage,
+  type RagQueryOptions,
+  type SearchOptions,
+} from "../plugin-manager";
 import {
   chunkContent,
   formatChunkTitle,
   needsChunking,
   estimateTokens,
 } from "../utils/chunking";
-import { preprocessContent } from "../utils/preprocessing";
+import { preprocessContent, type PreprocessOptions } from "../utils/preprocessing";
+import { resolveContentTypeConfig } from "../utils/content-types";
+import { hashContent } from "../utils/hash";
 import type { PluginConfigSchema } from "../config";
+import { normalizeSearchFilter } from "../vector-stores/filters";
+import type { SearchFilter } from "../vector-stores";
 
 const PLUGIN_ID = "strapi-content-embeddings";
 const CONTENT_TYPE_UID = `plugin::${PLUGIN_ID}.embedding` as const;
 
+/** Most results a single search returns */
+const MAX_SEARCH_LIMIT = 50;
+
 export interface CreateEmbeddingData {
   data: {
     title: string;
@@ -49,19 +61,39 @@ export interface ChunkedEmbeddingResult {
   wasChunked: boolean;
 }
 
+export interface EmbeddingOptions extends PluginConfigSchema {
+  /** Preprocessing steps for the content type, when preprocessContent is on */
+  preprocessing?: PreprocessOptions;
+}
+
 const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
   /**
-   * Get plugin config with defaults
+   * Get plugin config with defaults.
+   * With a collection type, its contentTypes overrides are applied.
    */
-  getConfig(): PluginConfigSchema {
+  getConfig(collectionType?: string): EmbeddingOptions {
     const config = strapi.config.get("plugin::strapi-content-embeddings") as PluginConfigSchema || {};
-    return {
+    const defaults: EmbeddingOptions = {
       chunkSize: config.chunkSize || 4000,
       chunkOverlap: config.chunkOverlap || 200,
       autoChunk: config.autoChunk || false,
       preprocessContent: config.preprocessContent !== false, // Default true
       ...config,
     };
+
+    if (!collectionType) {
+      return defaults;
+    }
+
+    const typeConfig = resolveContentTypeConfig(config, collectionType);
+    return {
+      ...defaults,
+      chunkSize: typeConfig.chunkSize,
+      chunkOverlap: typeConfig.chunkOverlap,
+      autoChunk: typeConfig.autoChunk,
+      preprocessContent: typeConfig.preprocessing !== false,
+      preprocessing: typeConfig.preprocessing || undefined,
+    };
   },
 
   /**
@@ -69,11 +101,11 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
    */
   async createEmbedding(data: CreateEmbeddingData) {
     const { title, content: rawContent, collectionType, fieldName, metadata, related, autoChunk } = data.data;
-    const config = this.getConfig();
+    const config = this.getConfig(collectionType);
 
     // Preprocess content (strip HTML/Markdown) if enabled
     const content = config.preprocessContent
-      ? preprocessContent(rawContent)
+      ? preprocessContent(rawContent, config.preprocessing)
       : rawContent;
 
     // Check if chunking should be applied
@@ -106,35 +138,120 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
       data: entityData,
     });
 
+    await this.queueVector(entity.documentId, title);
+    return entity;
+  },
+
+  /**
+   * Queue vector creation for a stored embedding entry.
+   * The queue worker calls embedVectors, retrying with backoff on failure.
+   */
+  async queueVector(documentId: string, title?: string): Promise<void> {
+    await this.queueVectors([{ documentId, title }]);
+  },
+
+  async queueVectors(entries: Array<{ documentId: string; title?: string }>): Promise<void> {
     if (!pluginManager.isInitialized()) {
       console.warn("Plugin manager not initialized, skipping vector embedding");
-      return entity;
+      return;
     }
 
-    try {
-      // Create embedding in vector store and get the vector
-      const result = await pluginManager.createEmbedding({
-        id: entity.documentId,
-        title,
-        content,
-        collectionType: collectionType || "standalone",
-        fieldName: fieldName || "content",
-      });
+    await strapi
+      .plugin(PLUGIN_ID)
+      .service("queue")
+      .enqueueMany(entries.map(({ documentId, title }) => ({ embeddingDocumentId: documentId, title })));
+  },
+
+  /**
+   * Create the vectors for stored embedding entries with one batched
+   * provider request, replacing any previous vectors. Throws so the queue can retry.
+   */
+  async embedVectors(documentIds: string[]): Promise<void> {
+    if (!pluginManager.isInitialized()) {
+      throw new Error("Plugin manager not initialized");
+    }
+
+    // Entries deleted while waiting in the queue are skipped
+    const entries = await strapi.documents(CONTENT_TYPE_UID).findMany({
+      filters: { documentId: { $in: documentIds } },
+      limit: -1,
+    });
+
+    await this.embedEntries(entries);
+  },
 
-      // Update entity with embedding ID and vector
-      const updatedEntity = await strapi.documents(CONTENT_TYPE_UID).update({
-        documentId: entity.documentId,
+  /**
+   * Vectors already computed with the current model, keyed by content hash
+   */
+  async findCachedVectors(hashes: string[]): Promise<Map<string, number[]>> {
+    const cached = new Map<string, number[]>();
+
+    if (hashes.length === 0) {
+      return cached;
+    }
+
+    const entries = await strapi.documents(CONTENT_TYPE_UID).findMany({
+      filters: {
+        contentHash: { $in: [...new Set(hashes)] },
+        embeddingModel: pluginManager.getEmbeddingModel(),
+      },
+      fields: ["contentHash", "embedding"] as any,
+      limit: -1,
+    });
+
+    for (const entry of entries as any[]) {
+      if (Array.isArray(entry.embedding) && entry.embedding.length > 0) {
+        cached.set(entry.contentHash, entry.embedding);
+      }
+    }
+
+    return cached;
+  },
+
+  /**
+   * Store vectors for embedding entries. Text that was embedded before with
+   * the same model reuses that vector instead of calling the provider.
+   */
+  async embedEntries(entries: any[], options: { replace?: boolean } = {}): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const hashes = entries.map((entry) => hashContent(entry.content || ""));
+    const cached = await this.findCachedVectors(hashes);
+
+    if (cached.size > 0) {
+      console.log(`[embedEntries] Reusing ${cached.size} cached vector(s) for ${entries.length} entries`);
+    }
+
+    // Previous vectors are replaced once the new ones are computed
+    const results = await pluginManager.createEmbeddings(
+      entries.map((entry, i) => ({
+        id: entry.documentId,
+        title: entry.title || "",
+        content: entry.content || "",
+        collectionType: entry.collectionType || "standalone",
+        fieldName: entry.fieldName || "content",
+        locale: entry.metadata?.locale ?? null,
+        documentId: entry.metadata?.documentId ?? null,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+        metadata: entry.metadata,
+        embedding: cached.get(hashes[i]),
+      })),
+      { replace: options.replace !== false }
+    );
+
+    for (let i = 0; i < entries.length; i++) {
+      await strapi.documents(CONTENT_TYPE_UID).update({
+        documentId: entries[i].documentId,
         data: {
-          embeddingId: result.embeddingId,
-          embedding: result.embedding,
+          embeddingId: results[i].embeddingId,
+          embedding: results[i].embedding,
+          contentHash: results[i].contentHash,
+          embeddingModel: results[i].model,
         } as any,
       });
-
-      return updatedEntity;
-    } catch (error) {
-      console.error("Failed to create embedding in vector store:", error);
-      // Return the entity even if embedding failed
-      return entity;
     }
   },
 
@@ -144,11 +261,11 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
    */
   async createChunkedEmbedding(data: CreateEmbeddingData): Promise<ChunkedEmbeddingResult> {
     const { title, content: rawContent, collectionType, fieldName, metadata, related } = data.data;
-    const config = this.getConfig();
+    const config = this.getConfig(collectionType);
 
     // Preprocess content (strip HTML/Markdown) if enabled
     const content = config.preprocessContent
-      ? preprocessContent(rawContent)
+      ? preprocessContent(rawContent, config.preprocessing)
       : rawContent;
 
     const chunkSize = config.chunkSize || 4000;
@@ -238,40 +355,12 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
         console.log(`[chunk ${chunk.chunkIndex + 1}] Metadata updated`);
       }
 
-      // Create vector embedding if plugin is initialized
-      if (pluginManager.isInitialized()) {
-        try {
-          console.log(`[chunk ${chunk.chunkIndex + 1}] Creating OpenAI embedding...`);
-          const result = await pluginManager.createEmbedding({
-            id: entity.documentId,
-            title: chunkTitle,
-            content: chunk.text,
-            collectionType: collectionType || "standalone",
-            fieldName: fieldName || "content",
-          });
-          console.log(`[chunk ${chunk.chunkIndex + 1}] OpenAI embedding created`);
-
-          // Update entity with embedding ID and vector
-          console.log(`[chunk ${chunk.chunkIndex + 1}] Saving embedding to DB...`);
-          const updatedEntity = await strapi.documents(CONTENT_TYPE_UID).update({
-            documentId: entity.documentId,
-            data: {
-              embeddingId: result.embeddingId,
-              embedding: result.embedding,
-            } as any,
-          });
-          console.log(`[chunk ${chunk.chunkIndex + 1}] Chunk complete`);
-
-          createdChunks.push(updatedEntity);
-        } catch (error: any) {
-          console.error(`[chunk ${chunk.chunkIndex + 1}] FAILED:`, error.message || error);
-          createdChunks.push(entity);
-        }
-      } else {
-        createdChunks.push(entity);
-      }
+      createdChunks.push(entity);
     }
 
+    // All chunks are embedded together in one batch
+    await this.queueVectors(createdChunks.map((chunk) => ({ documentId: chunk.documentId, title: chunk.title })));
+
     console.log(`[createChunkedEmbedding] Completed, created ${createdChunks.length} chunks, first documentId: ${createdChunks[0]?.documentId}`);
 
     return {
@@ -300,6 +389,8 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
       }
     }
 
+    await strapi.plugin(PLUGIN_ID).service("queue").removeForEmbedding(String(id));
+
     // Delete from Strapi DB
     const deletedEntry = await strapi.documents(CONTENT_TYPE_UID).delete({
       documentId: String(id),
@@ -390,6 +481,8 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
         }
       }
 
+      await strapi.plugin(PLUGIN_ID).service("queue").removeForEmbedding(chunk.documentId);
+
       // Delete from Strapi DB
       await strapi.documents(CONTENT_TYPE_UID).delete({
         documentId: chunk.documentId,
@@ -458,37 +551,9 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
       data: updateData,
     });
 
-    // Update embedding in Neon if content or title changed
-    if (pluginManager.isInitialized() && (contentChanged || title !== undefined)) {
-      try {
-        console.log(`[updateChunkedEmbedding] Updating embedding in Neon for chunk ${id}`);
-
-        // Delete old embedding from vector store
-        await pluginManager.deleteEmbedding(id);
-
-        // Create new embedding with updated content
-        const newContent = updateData.content || currentEntry.content;
-        const result = await pluginManager.createEmbedding({
-          id,
-          title: updatedEntity.title || currentEntry.title,
-          content: newContent,
-          collectionType: currentEntry.collectionType || "standalone",
-          fieldName: currentEntry.fieldName || "content",
-        });
-
-        // Update Strapi with new embedding data
-        await strapi.documents(CONTENT_TYPE_UID).update({
-          documentId: id,
-          data: {
-            embeddingId: result.embeddingId,
-            embedding: result.embedding,
-          } as any,
-        });
-
-        console.log(`[updateChunkedEmbedding] Successfully updated embedding for chunk ${id}`);
-      } catch (error) {
-        console.error(`Failed to update vector store for ${id}:`, error);
-      }
+    // Re-embed if content or title changed
+    if (contentChanged || title !== undefined) {
+      await this.queueVector(id, updatedEntity.title || currentEntry.title);
     }
 
     // Return this chunk and all related chunks
@@ -503,12 +568,6 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
 
   async updateEmbedding(id: string, data: UpdateEmbeddingData) {
     const { title, content: rawContent, metadata, autoChunk } = data.data;
-    const config = this.getConfig();
-
-    // Preprocess content if provided and preprocessing is enabled
-    const content = rawContent !== undefined && config.preprocessContent
-      ? preprocessContent(rawContent)
-      : rawContent;
 
     const currentEntry = await strapi.documents(CONTENT_TYPE_UID).findOne({
       documentId: id,
@@ -518,6 +577,13 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
       throw new Error(`Embedding with id ${id} not found`);
     }
 
+    const config = this.getConfig(currentEntry.collectionType);
+
+    // Preprocess content if provided and preprocessing is enabled
+    const content = rawContent !== undefined && config.preprocessContent
+      ? preprocessContent(rawContent, config.preprocessing)
+      : rawContent;
+
     const currentMetadata = currentEntry.metadata as Record<string, any> | null;
     const isCurrentlyChunked = currentMetadata?.isChunk === true;
     const hasRelatedChunks = currentMetadata?.parentDocumentId || isCurrentlyChunked;
@@ -528,6 +594,8 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
     const newContent = content ?? currentEntry.content;
     const contentNeedsChunking = shouldChunk && needsChunking(newContent, chunkSize);
     const contentChanged = content !== undefined && content !== currentEntry.content;
+    const titleChanged = title !== undefined && title !== currentEntry.title;
+    const metadataChanged = metadata !== undefined && JSON.stringify(metadata) !== JSON.stringify(currentMetadata);
 
     // Delegate to chunked update if:
     // 1. The entry is currently part of a chunk group, OR
@@ -547,43 +615,46 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
     if (metadata !== undefined) updateData.metadata = metadata;
 
     // Update entity in Strapi DB
-    let updatedEntity = await strapi.documents(CONTENT_TYPE_UID).update({
+    const updatedEntity = await strapi.documents(CONTENT_TYPE_UID).update({
       documentId: id,
       data: updateData,
     });
 
-    // If content changed and plugin is initialized, update the vector
-    if (contentChanged && pluginManager.isInitialized()) {
-      try {
-        // Delete old embedding from vector store
-        await pluginManager.deleteEmbedding(id);
-
-        // Create new embedding with updated content (already preprocessed)
-        const result = await pluginManager.createEmbedding({
-          id,
-          title: title || currentEntry.title,
-          content: content,
-          collectionType: currentEntry.collectionType || "standalone",
-          fieldName: currentEntry.fieldName || "content",
-        });
-
-        // Update entity with new embedding data
-        updatedEntity = await strapi.documents(CONTENT_TYPE_UID).update({
-          documentId: id,
-          data: {
-            embeddingId: result.embeddingId,
-            embedding: result.embedding,
-          } as any,
-        });
-      } catch (error) {
-        console.error("Failed to update embedding in vector store:", error);
-      }
+    // The vector store keeps the title and metadata with the vector, so they are
+    // rewritten too. Unchanged content reuses its vector without a provider call.
+    if (contentChanged || titleChanged || metadataChanged) {
+      await this.queueVector(id, title || currentEntry.title);
     }
 
     return updatedEntity;
   },
 
-  async queryEmbeddings(query: string) {
+  /**
+   * Find the embeddings closest to a query, narrowed by metadata filters.
+   * Options switch between vector and hybrid (keyword + vector) search.
+   * Throws on an empty query or an invalid filter.
+   */
+  async similaritySearch(query: string, k: number = 4, filters?: SearchFilter, options: SearchOptions = {}) {
+    if (!query || query.trim() === "") {
+      throw new Error("Please provide a query");
+    }
+
+    if (!pluginManager.isInitialized()) {
+      throw new Error("Plugin not initialized. Check your configuration.");
+    }
+
+    // Validate up front so a bad filter is reported as such, not as a search failure
+    normalizeSearchFilter(filters);
+
+    const limit = Math.min(Math.max(k || 4, 1), MAX_SEARCH_LIMIT);
+    return pluginManager.similaritySearch(query, limit, filters, options);
+  },
+
+  /**
+   * Answer a question from the embedded content.
+   * Options override the rag and hybridSearch config for this request.
+   */
+  async queryEmbeddings(query: string, options: RagQueryOptions = {}) {
     if (!query || query.trim() === "") {
       return { error: "Please provide a query" };
     }
@@ -592,8 +663,12 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
       return { error: "Plugin not initialized. Check your configuration." };
     }
 
+    if (!pluginManager.isChatInitialized()) {
+      return { error: "RAG chat not configured. Set chatProvider or openAIApiKey in plugin config." };
+    }
+
     try {
-      const response = await pluginManager.queryEmbedding(query);
+      const response = await pluginManager.queryEmbedding(query, options);
       return response;
     } catch (error) {
       console.error("Query failed:", error);
@@ -601,6 +676,42 @@ const embeddings = ({ strapi }: { strapi: Core.Strapi }) => ({
     }
   },
 
+  /**
+   * RAG answer for the latest question of a conversation. Earlier turns are
+   * used to rewrite follow-ups for retrieval and are passed to the chat model.
+   * With onToken the answer is streamed to it as it is generated; aborting
+   * the signal stops generating it.
+   */
+  async queryConversation(
+    question: string,
+    history: ConversationMessage[] = [],
+    options: RagQueryOptions = {},
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ) {
+    if (!question || question.trim() === "") {
+      return { error: "Please provide a question" };
+    }
+
+    if (!pluginManager.isInitialized()) {
+      return { error: "Plugin not initialized. Check your configuration." };
+    }
+
+    if (!pluginManager.isChatInitialized()) {
+      return { error: "RAG chat not configured. Set chatProvider or openAIApiKey in plugin config." };
+    }
+
+    try {
+      return await pluginManager.queryEmbedding(question, options, history, onToken, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return { error: "Query aborted" };
+      }
+      console.error("Conversation query failed:", error);
+      return { error: "Failed to query embeddings" };
+    }
+  },
+
   async getEmbedding(id: number | string) {
     return await strapi.documents(CONTENT_TYPE_UID).findOne({
       documentId: String(id),
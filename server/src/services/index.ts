@@ -1,9 +1,23 @@
+import conversations from "./conversations";
 import embeddings from "./embeddings";
 import sync from "./sync";
 import aiTools from "./ai-tools";
+import autoEmbed from "./auto-embed";
+import jobs from "./jobs";
+import modelMigration from "./model-migration";
+import prompts from "./prompts";
+import queue from "./queue";
+import usage from "./usage";
 
 export default {
+  conversations,
   embeddings,
   sync,
   'ai-tools': aiTools,
+  'auto-embed': autoEmbed,
+  jobs,
+  'model-migration': modelMigration,
+  prompts,
+  queue,
+  usage,
 };
@@ -0,0 +1,293 @@
+import type { Core } from "@strapi/strapi";
+import { pluginManager } from "../plugin-manager";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const JOB_UID = `plugin::${PLUGIN_ID}.job` as const;
+
+/** Entries loaded per page while reindexing */
+const PAGE_SIZE = 50;
+
+/** Errors kept on the job record */
+const MAX_LOGGED_ERRORS = 50;
+
+/** How often a job checks whether the queue has embedded its page */
+const QUEUE_WAIT_INTERVAL = 1000;
+
+export type JobState = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobError {
+  documentId: string;
+  locale: string | null;
+  error: string;
+}
+
+export interface StartReindexOptions {
+  contentType: string;
+  /** Only reindex this locale (default: every locale of a localized type) */
+  locale?: string;
+}
+
+const jobs = ({ strapi }: { strapi: Core.Strapi }) => ({
+  async getJob(documentId: string) {
+    return strapi.documents(JOB_UID).findOne({ documentId });
+  },
+
+  async listJobs(params?: { limit?: number; contentType?: string }) {
+    return strapi.documents(JOB_UID).findMany({
+      filters: params?.contentType ? { contentType: params.contentType } : undefined,
+      sort: { createdAt: "desc" },
+      limit: params?.limit || 20,
+    });
+  },
+
+  /**
+   * Start a background job that embeds every entry of a content type.
+   * Returns immediately; poll getJob for progress.
+   * If a reindex for the same content type and locale is already active, that job is returned.
+   */
+  async startReindex({ contentType, locale }: StartReindexOptions) {
+    const typeConfig = strapi.plugin(PLUGIN_ID).service("auto-embed").getContentTypeConfig(contentType);
+
+    if (!strapi.contentTypes[contentType as keyof typeof strapi.contentTypes] || !typeConfig.enabled) {
+      throw new Error(`Content type ${contentType} is not enabled for embeddings`);
+    }
+
+    if (!pluginManager.isInitialized()) {
+      throw new Error("Plugin not initialized. Check your configuration.");
+    }
+
+    const [active] = await strapi.documents(JOB_UID).findMany({
+      filters: {
+        contentType,
+        targetLocale: locale || { $null: true },
+        state: { $in: ["pending", "running"] },
+      },
+      limit: 1,
+    });
+
+    if (active) {
+      return active;
+    }
+
+    const job = await strapi.documents(JOB_UID).create({
+      data: {
+        jobType: "reindex",
+        state: "pending",
+        contentType,
+        targetLocale: locale || null,
+        errorLog: [],
+      } as any,
+    });
+
+    // Run in the background, outside the request
+    setImmediate(() => {
+      this.runReindex(job.documentId).catch((error: any) => {
+        console.error(`[jobs] Reindex job ${job.documentId} crashed:`, error);
+      });
+    });
+
+    return job;
+  },
+
+  /**
+   * Ask a running job to stop. The job stops after the entry it is working on,
+   * or while it waits for the queue.
+   */
+  async cancelJob(documentId: string) {
+    const job = await this.getJob(documentId);
+
+    if (!job) {
+      throw new Error(`Job ${documentId} not found`);
+    }
+
+    if (job.state !== "pending" && job.state !== "running") {
+      return job;
+    }
+
+    return strapi.documents(JOB_UID).update({
+      documentId,
+      data: { cancelRequested: true } as any,
+    });
+  },
+
+  /**
+   * Locales to reindex for a content type
+   */
+  async getTargetLocales(contentType: string, locale?: string | null): Promise<Array<string | undefined>> {
+    if (locale) {
+      return [locale];
+    }
+
+    const schema = strapi.contentTypes[contentType as keyof typeof strapi.contentTypes] as any;
+    const i18n = strapi.plugin("i18n");
+
+    if (!schema?.pluginOptions?.i18n?.localized || !i18n) {
+      return [undefined];
+    }
+
+    const locales = await i18n.service("locales").find();
+    return locales.map((l: { code: string }) => l.code);
+  },
+
+  /**
+   * Wait until the queue has embedded or given up on the given embeddings.
+   * Returns the dead items, or null when the job was cancelled meanwhile.
+   */
+  async waitForQueue(documentId: string, embeddingDocumentIds: string[]): Promise<any[] | null> {
+    const queue = strapi.plugin(PLUGIN_ID).service("queue");
+
+    for (;;) {
+      const { open, dead } = await queue.getOutstanding(embeddingDocumentIds);
+      if (open === 0) {
+        return dead;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, QUEUE_WAIT_INTERVAL));
+
+      const current = await this.getJob(documentId);
+      if (current?.cancelRequested) {
+        return null;
+      }
+    }
+  },
+
+  /**
+   * Embed the entries page by page. A page counts as processed once the
+   * queue has stored its vectors, so a completed job is searchable.
+   */
+  async runReindex(documentId: string): Promise<void> {
+    const job = await this.getJob(documentId);
+    if (!job) return;
+
+    const autoEmbed = strapi.plugin(PLUGIN_ID).service("auto-embed");
+    const contentType = job.contentType as string;
+    const schema = strapi.contentTypes[contentType as keyof typeof strapi.contentTypes] as any;
+    const { includeDrafts } = autoEmbed.getContentTypeConfig(contentType);
+    const status = schema?.options?.draftAndPublish
+      ? (includeDrafts ? "draft" : "published")
+      : undefined;
+
+    const errors: JobError[] = [];
+    let processed = 0;
+    let failed = 0;
+
+    const update = (data: Record<string, any>) =>
+      strapi.documents(JOB_UID).update({ documentId, data: data as any });
+
+    const cancel = async () => {
+      await update({ state: "cancelled", processed, failed, errorLog: errors, finishedAt: new Date().toISOString() });
+      console.log(`[jobs] Reindex job ${documentId} cancelled after ${processed} entries`);
+    };
+
+    const logError = (entry: any, error: string) => {
+      if (errors.length < MAX_LOGGED_ERRORS) {
+        errors.push({ documentId: entry.documentId, locale: entry.locale ?? null, error });
+      }
+    };
+
+    try {
+      const locales = await this.getTargetLocales(contentType, job.targetLocale);
+      let total = 0;
+      for (const locale of locales) {
+        total += await strapi.documents(contentType as any).count({ locale, status });
+      }
+
+      await update({ state: "running", total, startedAt: new Date().toISOString() });
+      console.log(`[jobs] Reindexing ${total} ${contentType} entries (job ${documentId})`);
+
+      for (const locale of locales) {
+        for (let start = 0; ; start += PAGE_SIZE) {
+          const current = await this.getJob(documentId);
+          if (current?.cancelRequested) {
+            await cancel();
+            return;
+          }
+
+          const entries = await strapi.documents(contentType as any).findMany({
+            locale,
+            status,
+            fields: ["documentId", "locale", "publishedAt"] as any,
+            sort: { id: "asc" } as any,
+            start,
+            limit: PAGE_SIZE,
+          });
+
+          // Embedding entry documentId -> the entry it belongs to
+          const queued = new Map<string, any>();
+
+          for (const entry of entries) {
+            try {
+              await autoEmbed.embedEntry(contentType, entry);
+              const embeddings = await autoEmbed.findEmbeddingsForDocument(
+                contentType,
+                entry.documentId,
+                entry.locale ?? null
+              );
+              for (const embedding of embeddings) {
+                queued.set(embedding.documentId, entry);
+              }
+            } catch (error: any) {
+              failed++;
+              logError(entry, error.message || String(error));
+            }
+          }
+
+          // The vectors are created by the embedding queue
+          const dead = await this.waitForQueue(documentId, [...queued.keys()]);
+          if (dead === null) {
+            await cancel();
+            return;
+          }
+
+          const failedEntries = new Set<any>();
+          for (const item of dead) {
+            const entry = queued.get(item.embeddingDocumentId);
+            if (!failedEntries.has(entry)) {
+              failedEntries.add(entry);
+              logError(entry, item.lastError || "Embedding failed");
+            }
+          }
+          failed += failedEntries.size;
+          processed += entries.length;
+
+          await update({ processed, failed, errorLog: errors });
+
+          if (entries.length < PAGE_SIZE) break;
+        }
+      }
+
+      await update({ state: "completed", processed, failed, errorLog: errors, finishedAt: new Date().toISOString() });
+      console.log(`[jobs] Reindex job ${documentId} completed: ${processed} processed, ${failed} failed`);
+    } catch (error: any) {
+      errors.push({ documentId: "", locale: null, error: error.message || String(error) });
+      await update({ state: "failed", processed, failed, errorLog: errors, finishedAt: new Date().toISOString() });
+      console.error(`[jobs] Reindex job ${documentId} failed:`, error);
+    }
+  },
+
+  /**
+   * Jobs cannot survive a restart; mark the ones that were active as failed
+   */
+  async failInterruptedJobs(): Promise<number> {
+    const interrupted = await strapi.documents(JOB_UID).findMany({
+      filters: { state: { $in: ["pending", "running"] } },
+      limit: -1,
+    });
+
+    for (const job of interrupted) {
+      const errorLog = Array.isArray(job.errorLog) ? job.errorLog : [];
+      await strapi.documents(JOB_UID).update({
+        documentId: job.documentId,
+        data: {
+          state: "failed",
+          errorLog: [...errorLog, { documentId: "", locale: null, error: "Interrupted by server restart" }],
+          finishedAt: new Date().toISOString(),
+        } as any,
+      });
+    }
+
+    return interrupted.length;
+  },
+});
+
+export default jobs;
@@ -0,0 +1,425 @@
+import type { Core } from "@strapi/strapi";
+import type { PluginConfigSchema } from "../config";
+import { pluginManager } from "../plugin-manager";
+import {
+  resolveEmbeddingProviderConfig,
+  resolveNextEmbeddingProviderConfig,
+  type ResolvedEmbeddingProviderConfig,
+} from "../providers";
+import { hashContent } from "../utils/hash";
+import { createVectorStore, resolveVectorStoreConfig, type VectorStore } from "../vector-stores";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const MIGRATION_UID = `plugin::${PLUGIN_ID}.model-migration` as const;
+const CONTENT_TYPE_UID = `plugin::${PLUGIN_ID}.embedding` as const;
+
+/** Errors kept on the migration record */
+const MAX_LOGGED_ERRORS = 50;
+
+export type ModelMigrationState = "running" | "ready" | "failed" | "switched" | "completed" | "rolledBack";
+
+/** States in which both indexes exist and the migration can still be rolled back */
+const OPEN_STATES: ModelMigrationState[] = ["running", "ready", "failed", "switched"];
+
+export interface IndexConfig {
+  provider: ResolvedEmbeddingProviderConfig;
+  tableName: string;
+}
+
+export interface ResolvedIndexes {
+  /** Serves queries */
+  active: IndexConfig;
+  /** Receives writes only, while a migration is open */
+  shadow: IndexConfig | null;
+}
+
+/**
+ * Table or collection for a model: the configured name with the model appended
+ */
+export function getTargetTableName(baseTable: string, model: string): string {
+  const slug = model.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return `${baseTable}_${slug}`.slice(0, 40);
+}
+
+const modelMigration = ({ strapi }: { strapi: Core.Strapi }) => ({
+  getPluginConfig(): PluginConfigSchema {
+    return (strapi.config.get(`plugin::${PLUGIN_ID}`) || {}) as PluginConfigSchema;
+  },
+
+  async getMigration(documentId: string) {
+    return strapi.documents(MIGRATION_UID).findOne({ documentId });
+  },
+
+  /**
+   * The migration that decides which indexes are in use: the latest one that
+   * is still open or was completed
+   */
+  async getCurrentMigration() {
+    const [migration] = await strapi.documents(MIGRATION_UID).findMany({
+      filters: { state: { $in: [...OPEN_STATES, "completed"] } },
+      sort: { createdAt: "desc" },
+      limit: 1,
+    });
+
+    return migration || null;
+  },
+
+  /**
+   * Active model, configured target and the current migration, for the admin panel
+   */
+  async getStatus() {
+    const next = resolveNextEmbeddingProviderConfig(this.getPluginConfig());
+    const migration = await this.getCurrentMigration();
+
+    return {
+      active: pluginManager.isInitialized()
+        ? {
+            model: pluginManager.getEmbeddingModel(),
+            tableName: (await this.resolveIndexes()).active.tableName,
+          }
+        : null,
+      target: next ? { provider: next.provider, model: next.model, dimensions: next.dimensions } : null,
+      migration: migration && migration.state !== "completed" ? migration : null,
+      lastCompleted: migration?.state === "completed" ? migration : null,
+    };
+  },
+
+  /**
+   * Work out which index serves queries and which one only receives writes.
+   * A completed migration keeps its table in use until the config names another model.
+   */
+  async resolveIndexes(): Promise<ResolvedIndexes> {
+    const config = this.getPluginConfig();
+    const main = resolveEmbeddingProviderConfig(config);
+    const next = resolveNextEmbeddingProviderConfig(config);
+    const fallback: ResolvedIndexes = {
+      active: { provider: main, tableName: resolveVectorStoreConfig(config).tableName },
+      shadow: null,
+    };
+
+    const migration = await this.getCurrentMigration();
+    if (!migration) {
+      return fallback;
+    }
+
+    const findProvider = (provider: string, model: string) =>
+      [main, next].find((candidate) => candidate?.provider === provider && candidate.model === model) || null;
+    const source = findProvider(migration.sourceProvider, migration.sourceModel);
+    const target = findProvider(migration.targetProvider, migration.targetModel);
+
+    if (migration.state === "completed") {
+      return target ? { active: { provider: target, tableName: migration.targetTable }, shadow: null } : fallback;
+    }
+
+    if (!source || !target) {
+      console.warn(
+        `[model-migration] Migration ${migration.documentId} from ${migration.sourceModel} to ${migration.targetModel} ` +
+        `is open, but embeddingProvider/nextEmbeddingProvider no longer name both models. Using the configured model only.`
+      );
+      return fallback;
+    }
+
+    const sourceIndex = { provider: source, tableName: migration.sourceTable };
+    const targetIndex = { provider: target, tableName: migration.targetTable };
+
+    return migration.state === "switched"
+      ? { active: targetIndex, shadow: sourceIndex }
+      : { active: sourceIndex, shadow: targetIndex };
+  },
+
+  /**
+   * Vector store for a table, with the rest of the vectorStore config.
+   * In-memory snapshots get a file per table.
+   */
+  createStore(tableName: string): VectorStore {
+    const storeConfig = resolveVectorStoreConfig(this.getPluginConfig());
+    const snapshotPath =
+      storeConfig.snapshotPath && tableName !== storeConfig.tableName
+        ? storeConfig.snapshotPath.replace(/(\.json)?$/, `.${tableName}$1`)
+        : storeConfig.snapshotPath;
+
+    return createVectorStore({ ...storeConfig, tableName, snapshotPath }, strapi);
+  },
+
+  /**
+   * Build an index for nextEmbeddingProvider in the background. Writes go to both
+   * indexes from now on; queries keep using the current one until switchOver.
+   */
+  async startMigration() {
+    if (!pluginManager.isInitialized()) {
+      throw new Error("Plugin not initialized. Check your configuration.");
+    }
+
+    const target = resolveNextEmbeddingProviderConfig(this.getPluginConfig());
+    if (!target) {
+      throw new Error("Set nextEmbeddingProvider in the plugin config to the model to migrate to");
+    }
+
+    const { active } = await this.resolveIndexes();
+    if (target.provider === active.provider.provider && target.model === active.provider.model) {
+      throw new Error(`${target.model} is already the active embedding model`);
+    }
+
+    const open = await this.getCurrentMigration();
+    if (open && open.state !== "completed") {
+      throw new Error("A model migration is already in progress. Complete or roll it back first.");
+    }
+
+    const targetTable = getTargetTableName(resolveVectorStoreConfig(this.getPluginConfig()).tableName, target.model);
+    if (targetTable === active.tableName) {
+      throw new Error(`The target table ${targetTable} is the active table`);
+    }
+
+    // Entries written from here on go to both indexes. Leftovers from an earlier attempt are removed.
+    const store = this.createStore(targetTable);
+    await pluginManager.attachShadowIndex(store, target);
+    try {
+      await store.clear();
+    } catch (error) {
+      await pluginManager.detachShadowIndex();
+      throw error;
+    }
+
+    const migration = await strapi.documents(MIGRATION_UID).create({
+      data: {
+        state: "running",
+        sourceProvider: active.provider.provider,
+        sourceModel: active.provider.model,
+        sourceDimensions: active.provider.dimensions,
+        sourceTable: active.tableName,
+        targetProvider: target.provider,
+        targetModel: target.model,
+        targetDimensions: target.dimensions,
+        targetTable,
+        errorLog: [],
+        startedAt: new Date().toISOString(),
+      } as any,
+    });
+
+    // Run in the background, outside the request
+    setImmediate(() => {
+      this.runMigration(migration.documentId).catch((error: any) => {
+        console.error(`[model-migration] Migration ${migration.documentId} crashed:`, error);
+      });
+    });
+
+    return migration;
+  },
+
+  /**
+   * Run the re-embedding again after a failure or restart. Entries already in
+   * the target index with the same content are skipped, so only the missing
+   * and failed ones are embedded.
+   */
+  async resumeMigration() {
+    const migration = await this.getCurrentMigration();
+
+    if (!migration || (migration.state !== "failed" && !(migration.state === "ready" && migration.failed > 0))) {
+      throw new Error("No failed or interrupted migration to resume");
+    }
+
+    if (pluginManager.getShadowModel()?.model !== migration.targetModel) {
+      throw new Error(`The index for ${migration.targetModel} is not attached. Restart Strapi and try again.`);
+    }
+
+    const resumed = await strapi.documents(MIGRATION_UID).update({
+      documentId: migration.documentId,
+      data: { state: "running", processed: 0, failed: 0, errorLog: [] } as any,
+    });
+
+    setImmediate(() => {
+      this.runMigration(migration.documentId).catch((error: any) => {
+        console.error(`[model-migration] Migration ${migration.documentId} crashed:`, error);
+      });
+    });
+
+    return resumed;
+  },
+
+  /**
+   * Embed every stored embedding entry into the shadow index, skipping
+   * entries it already holds with the same content
+   */
+  async runMigration(documentId: string): Promise<void> {
+    const errors: Array<{ documentId: string; error: string }> = [];
+    let processed = 0;
+    let failed = 0;
+
+    const update = (data: Record<string, any>) =>
+      strapi.documents(MIGRATION_UID).update({ documentId, data: data as any });
+
+    try {
+      const { batchSize } = strapi.plugin(PLUGIN_ID).service("queue").getQueueConfig();
+      const total = await strapi.documents(CONTENT_TYPE_UID).count({});
+      await update({ total });
+
+      const embedded = new Map(
+        (await pluginManager.listShadowVectors()).map((vector) => [vector.strapiId, vector.contentHash])
+      );
+      console.log(`[model-migration] Re-embedding ${total} entries (migration ${documentId})`);
+
+      for (let start = 0; ; start += batchSize) {
+        const current = await this.getMigration(documentId);
+        if (!current || current.state !== "running") return;
+
+        if (current.rollbackRequested) {
+          await pluginManager.detachShadowIndex({ drop: true });
+          await update({ state: "rolledBack", processed, failed, errorLog: errors, finishedAt: new Date().toISOString() });
+          console.log(`[model-migration] Migration ${documentId} rolled back after ${processed} entries`);
+          return;
+        }
+
+        const entries = await strapi.documents(CONTENT_TYPE_UID).findMany({
+          sort: { id: "asc" } as any,
+          start,
+          limit: batchSize,
+        });
+
+        const withContent = entries.filter(
+          (entry: any) => entry.content && embedded.get(entry.documentId) !== hashContent(entry.content)
+        );
+        try {
+          await pluginManager.embedIntoShadow(
+            withContent.map((entry: any) => ({
+              id: entry.documentId,
+              title: entry.title || "",
+              content: entry.content,
+              collectionType: entry.collectionType || "standalone",
+              fieldName: entry.fieldName || "content",
+              locale: entry.metadata?.locale ?? null,
+              documentId: entry.metadata?.documentId ?? null,
+              createdAt: entry.createdAt,
+              updatedAt: entry.updatedAt,
+              metadata: entry.metadata,
+            }))
+          );
+        } catch (error: any) {
+          failed += withContent.length;
+          for (const entry of withContent) {
+            if (errors.length < MAX_LOGGED_ERRORS) {
+              errors.push({ documentId: entry.documentId, error: error.message || String(error) });
+            }
+          }
+        }
+
+        processed += entries.length;
+        await update({ processed, failed, errorLog: errors });
+
+        if (entries.length < batchSize) break;
+      }
+
+      await update({ state: "ready", processed, failed, errorLog: errors });
+      console.log(`[model-migration] Migration ${documentId} ready: ${processed} processed, ${failed} failed`);
+    } catch (error: any) {
+      errors.push({ documentId: "", error: error.message || String(error) });
+      await update({ state: "failed", processed, failed, errorLog: errors });
+      console.error(`[model-migration] Migration ${documentId} failed:`, error);
+    }
+  },
+
+  /**
+   * Serve queries from the new index. The previous index keeps receiving writes until complete.
+   * Entries that failed to embed would be missing from search, so switching
+   * with failures needs force.
+   */
+  async switchOver(options: { force?: boolean } = {}) {
+    const migration = await this.getCurrentMigration();
+
+    if (!migration || migration.state !== "ready") {
+      throw new Error("No migration is ready to switch over");
+    }
+
+    if (migration.failed > 0 && !options.force) {
+      throw new Error(
+        `${migration.failed} entries failed to embed with ${migration.targetModel}. ` +
+        `Resume the migration to retry them, or force the switch.`
+      );
+    }
+
+    if (pluginManager.getShadowModel()?.model !== migration.targetModel) {
+      throw new Error(`The index for ${migration.targetModel} is not attached. Restart Strapi and try again.`);
+    }
+
+    pluginManager.switchIndexes();
+
+    return strapi.documents(MIGRATION_UID).update({
+      documentId: migration.documentId,
+      data: { state: "switched", switchedAt: new Date().toISOString() } as any,
+    });
+  },
+
+  /**
+   * Go back to the source model and remove the target index.
+   * A running migration stops after its current batch.
+   */
+  async rollback() {
+    const migration = await this.getCurrentMigration();
+
+    if (!migration || migration.state === "completed") {
+      throw new Error("No model migration to roll back");
+    }
+
+    if (migration.state === "running") {
+      return strapi.documents(MIGRATION_UID).update({
+        documentId: migration.documentId,
+        data: { rollbackRequested: true } as any,
+      });
+    }
+
+    if (migration.state === "switched" && pluginManager.getShadowModel()?.model === migration.sourceModel) {
+      pluginManager.switchIndexes();
+    }
+    await pluginManager.detachShadowIndex({ drop: true });
+
+    return strapi.documents(MIGRATION_UID).update({
+      documentId: migration.documentId,
+      data: { state: "rolledBack", finishedAt: new Date().toISOString() } as any,
+    });
+  },
+
+  /**
+   * Finish a switched migration: stop writing to the previous index and remove it
+   */
+  async complete() {
+    const migration = await this.getCurrentMigration();
+
+    if (!migration || migration.state !== "switched") {
+      throw new Error("Switch over before completing the migration");
+    }
+
+    await pluginManager.detachShadowIndex({ drop: true });
+
+    return strapi.documents(MIGRATION_UID).update({
+      documentId: migration.documentId,
+      data: { state: "completed", finishedAt: new Date().toISOString() } as any,
+    });
+  },
+
+  /**
+   * A running migration cannot survive a restart. Its target index is kept
+   * and receives writes until the migration is resumed or rolled back.
+   */
+  async failInterruptedMigration(): Promise<boolean> {
+    const [interrupted] = await strapi.documents(MIGRATION_UID).findMany({
+      filters: { state: "running" },
+      limit: 1,
+    });
+
+    if (!interrupted) {
+      return false;
+    }
+
+    const errorLog = Array.isArray(interrupted.errorLog) ? interrupted.errorLog : [];
+    await strapi.documents(MIGRATION_UID).update({
+      documentId: interrupted.documentId,
+      data: {
+        state: "failed",
+        errorLog: [...errorLog, { documentId: "", error: "Interrupted by server restart" }],
+      } as any,
+    });
+
+    return true;
+  },
+});
+
+export default modelMigration;
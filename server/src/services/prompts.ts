@@ -0,0 +1,119 @@
+import type { Core } from "@strapi/strapi";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const PRESET_UID = `plugin::${PLUGIN_ID}.prompt-preset` as const;
+
+export interface PromptPresetInput {
+  name?: string;
+  description?: string | null;
+  template?: string;
+  isDefault?: boolean;
+}
+
+/**
+ * Named system prompt templates for RAG answers, picked per request by name.
+ * The preset marked isDefault is used when a request names none.
+ */
+const prompts = ({ strapi }: { strapi: Core.Strapi }) => ({
+  async listPresets() {
+    return strapi.documents(PRESET_UID).findMany({
+      sort: { name: "asc" },
+    });
+  },
+
+  async getPreset(documentId: string) {
+    return strapi.documents(PRESET_UID).findOne({ documentId });
+  },
+
+  async findPresetByName(name: string) {
+    const [preset] = await strapi.documents(PRESET_UID).findMany({
+      filters: { name },
+      limit: 1,
+    });
+
+    return preset || null;
+  },
+
+  async createPreset(data: PromptPresetInput) {
+    if (data.isDefault) {
+      await this.clearDefault();
+    }
+
+    return strapi.documents(PRESET_UID).create({
+      data: { ...data, isDefault: Boolean(data.isDefault) } as any,
+    });
+  },
+
+  /**
+   * Update a preset; null when it was not found
+   */
+  async updatePreset(documentId: string, data: PromptPresetInput) {
+    const preset = await this.getPreset(documentId);
+
+    if (!preset) {
+      return null;
+    }
+
+    if (data.isDefault) {
+      await this.clearDefault(documentId);
+    }
+
+    return strapi.documents(PRESET_UID).update({
+      documentId,
+      data: data as any,
+    });
+  },
+
+  /**
+   * Delete a preset; null when it was not found
+   */
+  async deletePreset(documentId: string) {
+    const preset = await this.getPreset(documentId);
+
+    if (!preset) {
+      return null;
+    }
+
+    await strapi.documents(PRESET_UID).delete({ documentId });
+    return preset;
+  },
+
+  /**
+   * System prompt template for a request. Without a name it is the default
+   * preset's, or undefined for the built-in prompt; null when no preset has
+   * the name.
+   */
+  async resolvePrompt(name?: string): Promise<string | null | undefined> {
+    if (name) {
+      const preset = await this.findPresetByName(name);
+      return preset ? preset.template : null;
+    }
+
+    const [preset] = await strapi.documents(PRESET_UID).findMany({
+      filters: { isDefault: true },
+      limit: 1,
+    });
+
+    return preset?.template;
+  },
+
+  /**
+   * Only one preset is the default; unmark the others
+   */
+  async clearDefault(exceptDocumentId?: string) {
+    const defaults = await strapi.documents(PRESET_UID).findMany({
+      filters: { isDefault: true },
+    });
+
+    for (const preset of defaults) {
+      if (preset.documentId !== exceptDocumentId) {
+        await strapi.documents(PRESET_UID).update({
+          documentId: preset.documentId,
+          data: { isDefault: false } as any,
+        });
+      }
+    }
+  },
+});
+
+export default prompts;
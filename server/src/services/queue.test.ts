@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Core } from "@strapi/strapi";
+import queue from "./queue";
+
+interface Item {
+  documentId: string;
+  embeddingDocumentId: string;
+  state: string;
+  nextRunAt: string;
+}
+
+/**
+ * Queue service over a fake document store that understands the filters the
+ * worker uses
+ */
+function createQueue(items: Item[]) {
+  const findMany = async ({ filters = {}, limit }: { filters?: Record<string, any>; limit?: number }) => {
+    const found = items.filter(
+      (item) =>
+        (!filters.state || item.state === filters.state) &&
+        (!filters.nextRunAt || item.nextRunAt <= filters.nextRunAt.$lte) &&
+        (!filters.documentId || !filters.documentId.$notIn.includes(item.documentId))
+    );
+    return limit && limit > 0 ? found.slice(0, limit) : found;
+  };
+
+  const strapi = {
+    config: { get: () => ({ queue: { concurrency: 2, batchSize: 1 } }) },
+    documents: () => ({ findMany }),
+  } as unknown as Core.Strapi;
+
+  return queue({ strapi });
+}
+
+const past = new Date(0).toISOString();
+
+describe("queue.poll", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("does not claim an entry that is being processed, or the same entry twice", async () => {
+    vi.useFakeTimers();
+    const items: Item[] = [];
+    const service = createQueue(items);
+    const processBatch = vi.spyOn(service, "processBatch").mockResolvedValue();
+
+    await service.start();
+    items.push(
+      { documentId: "q1", embeddingDocumentId: "emb-1", state: "processing", nextRunAt: past },
+      { documentId: "q2", embeddingDocumentId: "emb-1", state: "pending", nextRunAt: past },
+      { documentId: "q3", embeddingDocumentId: "emb-2", state: "pending", nextRunAt: past },
+      { documentId: "q4", embeddingDocumentId: "emb-2", state: "pending", nextRunAt: past }
+    );
+
+    await service.poll();
+    service.stop();
+
+    expect(processBatch).toHaveBeenCalledOnce();
+    expect(processBatch.mock.calls[0][0].map((item: Item) => item.documentId)).toEqual(["q3"]);
+  });
+});
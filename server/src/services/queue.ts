@@ -0,0 +1,412 @@
+import type { Core } from "@strapi/strapi";
+import type { PluginConfigSchema, QueueConfig } from "../config";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const QUEUE_UID = `plugin::${PLUGIN_ID}.queue-item` as const;
+
+export type QueueItemState = "pending" | "processing" | "dead";
+
+export type ResolvedQueueConfig = Required<QueueConfig>;
+
+const DEFAULT_QUEUE_CONFIG: ResolvedQueueConfig = {
+  concurrency: 2,
+  maxAttempts: 5,
+  backoffDelay: 2000,
+  maxBackoffDelay: 5 * 60 * 1000,
+  pollInterval: 5000,
+  batchSize: 50,
+};
+
+/** Wait before picking up new work so items enqueued together share a batch */
+const COLLECT_DELAY = 100;
+
+/**
+ * Delay before the next attempt: backoffDelay doubled per failed attempt, capped
+ */
+export function getBackoffDelay(attempts: number, config: ResolvedQueueConfig): number {
+  const delay = config.backoffDelay * 2 ** Math.max(attempts - 1, 0);
+  return Math.min(delay, config.maxBackoffDelay);
+}
+
+const queue = ({ strapi }: { strapi: Core.Strapi }) => {
+  // Worker state lives with the service instance, one per Strapi process
+  const inFlight = new Set<string>();
+  // Embedding entries of the in-flight items
+  const inFlightEmbeddings = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let timerDueAt = 0;
+  let running = false;
+  let polling = false;
+  let activeBatches = 0;
+
+  return {
+    getQueueConfig(): ResolvedQueueConfig {
+      const config = (strapi.config.get(`plugin::${PLUGIN_ID}`) || {}) as PluginConfigSchema;
+      const resolved = { ...DEFAULT_QUEUE_CONFIG, ...config.queue };
+      resolved.concurrency = Math.max(1, Math.floor(resolved.concurrency));
+      resolved.maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts));
+      resolved.batchSize = Math.max(1, Math.floor(resolved.batchSize));
+      return resolved;
+    },
+
+    /**
+     * Queue (re-)embedding of a stored embedding entry.
+     * An item already waiting for the same entry is reused and made due now.
+     * While the entry is being processed, a new item waits for that run to
+     * finish, as the run may have read the entry before the change.
+     */
+    async enqueue(embeddingDocumentId: string, title?: string) {
+      const [item] = await this.enqueueMany([{ embeddingDocumentId, title }]);
+      return item;
+    },
+
+    async enqueueMany(entries: Array<{ embeddingDocumentId: string; title?: string }>) {
+      const items = [];
+      // Same due time for the whole call so the items are claimed together
+      const nextRunAt = new Date(Date.now() + COLLECT_DELAY).toISOString();
+
+      for (const { embeddingDocumentId, title } of entries) {
+        const [existing] = await strapi.documents(QUEUE_UID).findMany({
+          filters: {
+            embeddingDocumentId,
+            state: { $in: ["pending", "dead"] },
+          },
+          limit: 1,
+        });
+
+        const data = {
+          title: title ?? existing?.title ?? null,
+          state: "pending",
+          attempts: 0,
+          nextRunAt,
+          lastError: null,
+          failedAt: null,
+        };
+
+        items.push(
+          existing
+            ? await strapi.documents(QUEUE_UID).update({ documentId: existing.documentId, data: data as any })
+            : await strapi.documents(QUEUE_UID).create({ data: { embeddingDocumentId, ...data } as any })
+        );
+      }
+
+      this.schedule(COLLECT_DELAY);
+      return items;
+    },
+
+    /**
+     * Drop queued work for an embedding that no longer exists
+     */
+    async removeForEmbedding(embeddingDocumentId: string): Promise<number> {
+      const items = await strapi.documents(QUEUE_UID).findMany({
+        filters: { embeddingDocumentId, state: { $in: ["pending", "dead"] } },
+        limit: -1,
+      });
+
+      for (const item of items) {
+        await strapi.documents(QUEUE_UID).delete({ documentId: item.documentId });
+      }
+
+      return items.length;
+    },
+
+    /**
+     * Queue items of the given embeddings that are still to be embedded, and
+     * the ones that ran out of attempts
+     */
+    async getOutstanding(embeddingDocumentIds: string[]): Promise<{ open: number; dead: any[] }> {
+      if (embeddingDocumentIds.length === 0) {
+        return { open: 0, dead: [] };
+      }
+
+      const items = await strapi.documents(QUEUE_UID).findMany({
+        filters: { embeddingDocumentId: { $in: embeddingDocumentIds } },
+        limit: -1,
+      });
+      const dead = items.filter((item: any) => item.state === "dead");
+
+      return { open: items.length - dead.length, dead };
+    },
+
+    async getItem(documentId: string) {
+      return strapi.documents(QUEUE_UID).findOne({ documentId });
+    },
+
+    async listItems(params?: { state?: QueueItemState; page?: number; pageSize?: number }) {
+      const page = params?.page || 1;
+      const pageSize = params?.pageSize || 20;
+      const filters = params?.state ? { state: params.state } : undefined;
+
+      const [data, totalCount] = await Promise.all([
+        strapi.documents(QUEUE_UID).findMany({
+          filters,
+          sort: { updatedAt: "desc" },
+          start: (page - 1) * pageSize,
+          limit: pageSize,
+        }),
+        strapi.documents(QUEUE_UID).count({ filters }),
+      ]);
+
+      return { data, count: data.length, totalCount };
+    },
+
+    async getStats(): Promise<Record<QueueItemState, number>> {
+      const [pending, processing, dead] = await Promise.all(
+        (["pending", "processing", "dead"] as const).map((state) =>
+          strapi.documents(QUEUE_UID).count({ filters: { state } })
+        )
+      );
+
+      return { pending, processing, dead };
+    },
+
+    /**
+     * Move a dead-letter item back to pending with a fresh set of attempts
+     */
+    async retryItem(documentId: string) {
+      const item = await this.getItem(documentId);
+
+      if (!item) {
+        throw new Error(`Queue item ${documentId} not found`);
+      }
+
+      if (item.state !== "dead") {
+        return item;
+      }
+
+      const updated = await strapi.documents(QUEUE_UID).update({
+        documentId,
+        data: {
+          state: "pending",
+          attempts: 0,
+          nextRunAt: new Date().toISOString(),
+          failedAt: null,
+        } as any,
+      });
+
+      this.schedule(0);
+      return updated;
+    },
+
+    async retryAllDead(): Promise<number> {
+      const dead = await strapi.documents(QUEUE_UID).findMany({
+        filters: { state: "dead" },
+        limit: -1,
+      });
+
+      for (const item of dead) {
+        await this.retryItem(item.documentId);
+      }
+
+      return dead.length;
+    },
+
+    async deleteItem(documentId: string) {
+      const item = await this.getItem(documentId);
+
+      if (!item) {
+        throw new Error(`Queue item ${documentId} not found`);
+      }
+
+      if (item.state === "processing") {
+        throw new Error("Cannot delete an item that is being processed");
+      }
+
+      await strapi.documents(QUEUE_UID).delete({ documentId });
+      return item;
+    },
+
+    /**
+     * Start the workers. Items left in processing by a previous run are made pending again.
+     */
+    async start(): Promise<void> {
+      if (running) return;
+
+      const interrupted = await strapi.documents(QUEUE_UID).findMany({
+        filters: { state: "processing" },
+        limit: -1,
+      });
+
+      for (const item of interrupted) {
+        await strapi.documents(QUEUE_UID).update({
+          documentId: item.documentId,
+          data: { state: "pending", nextRunAt: new Date().toISOString() } as any,
+        });
+      }
+
+      running = true;
+      this.schedule(0);
+    },
+
+    /**
+     * Stop picking up new items. Items already being processed finish on their own.
+     */
+    stop(): void {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    /**
+     * Poll after delay ms. An earlier scheduled poll is kept, so a steady
+     * stream of enqueues cannot postpone work indefinitely.
+     */
+    schedule(delay: number): void {
+      if (!running) return;
+
+      const dueAt = Date.now() + delay;
+      if (timer) {
+        if (timerDueAt <= dueAt) return;
+        clearTimeout(timer);
+      }
+
+      timerDueAt = dueAt;
+      timer = setTimeout(() => {
+        timer = null;
+        this.poll()
+          .catch((error: any) => console.error("[queue] Poll failed:", error))
+          .finally(() => this.schedule(this.getQueueConfig().pollInterval));
+      }, delay);
+      timer.unref?.();
+    },
+
+    /**
+     * Claim due items for the free worker slots and process them in the background,
+     * up to batchSize items per worker. An entry that is being embedded is only
+     * picked up again after that run, so its vectors are never written twice at once.
+     */
+    async poll(): Promise<void> {
+      const { concurrency, batchSize } = this.getQueueConfig();
+      const slots = concurrency - activeBatches;
+
+      if (!running || polling || slots <= 0) return;
+
+      polling = true;
+      let due: any[];
+      try {
+        due = await strapi.documents(QUEUE_UID).findMany({
+          filters: {
+            state: "pending",
+            nextRunAt: { $lte: new Date().toISOString() },
+            ...(inFlight.size > 0 ? { documentId: { $notIn: [...inFlight] } } : {}),
+          },
+          sort: { nextRunAt: "asc" },
+          limit: slots * batchSize,
+        });
+
+        // Items being processed by this or another instance
+        const processing = await strapi.documents(QUEUE_UID).findMany({
+          filters: { state: "processing" },
+          fields: ["embeddingDocumentId"] as any,
+          limit: -1,
+        });
+        const busy = new Set([...inFlightEmbeddings, ...processing.map((item: any) => item.embeddingDocumentId)]);
+
+        due = due.filter((item) => {
+          if (busy.has(item.embeddingDocumentId)) return false;
+          busy.add(item.embeddingDocumentId);
+          return true;
+        });
+      } finally {
+        polling = false;
+      }
+
+      for (let start = 0; start < due.length; start += batchSize) {
+        const batch = due.slice(start, start + batchSize);
+        batch.forEach((item) => {
+          inFlight.add(item.documentId);
+          inFlightEmbeddings.add(item.embeddingDocumentId);
+        });
+        activeBatches++;
+
+        this.processBatch(batch)
+          .catch((error: any) => console.error("[queue] Batch crashed:", error))
+          .finally(() => {
+            batch.forEach((item) => {
+              inFlight.delete(item.documentId);
+              inFlightEmbeddings.delete(item.embeddingDocumentId);
+            });
+            activeBatches--;
+            this.schedule(0);
+          });
+      }
+    },
+
+    /**
+     * Embed a batch with one provider request. If the batch fails, its items are
+     * retried one by one so a single bad item does not fail the others.
+     */
+    async processBatch(items: any[]): Promise<void> {
+      for (const item of items) {
+        await strapi.documents(QUEUE_UID).update({
+          documentId: item.documentId,
+          data: { state: "processing" } as any,
+        });
+      }
+
+      try {
+        await strapi
+          .plugin(PLUGIN_ID)
+          .service("embeddings")
+          .embedVectors(items.map((item) => item.embeddingDocumentId));
+
+        for (const item of items) {
+          await strapi.documents(QUEUE_UID).delete({ documentId: item.documentId });
+        }
+      } catch (error: any) {
+        if (items.length > 1) {
+          console.warn(
+            `[queue] Batch of ${items.length} failed, retrying items individually:`,
+            error.message || error
+          );
+          for (const item of items) {
+            await this.processBatch([item]);
+          }
+          return;
+        }
+
+        await this.recordFailure(items[0], error);
+      }
+    },
+
+    /**
+     * Schedule the next attempt with backoff, or move the item to dead-letter
+     */
+    async recordFailure(item: any, error: any): Promise<void> {
+      const config = this.getQueueConfig();
+      const attempts = (item.attempts || 0) + 1;
+      const message = error.message || String(error);
+
+      if (attempts >= config.maxAttempts) {
+        console.error(
+          `[queue] Embedding ${item.embeddingDocumentId} failed after ${attempts} attempts, moved to dead-letter:`,
+          message
+        );
+        await strapi.documents(QUEUE_UID).update({
+          documentId: item.documentId,
+          data: { state: "dead", attempts, lastError: message, failedAt: new Date().toISOString() } as any,
+        });
+        return;
+      }
+
+      const delay = getBackoffDelay(attempts, config);
+      console.warn(
+        `[queue] Embedding ${item.embeddingDocumentId} failed (attempt ${attempts}/${config.maxAttempts}), retrying in ${delay}ms:`,
+        message
+      );
+      await strapi.documents(QUEUE_UID).update({
+        documentId: item.documentId,
+        data: {
+          state: "pending",
+          attempts,
+          lastError: message,
+          nextRunAt: new Date(Date.now() + delay).toISOString(),
+        } as any,
+      });
+    },
+  };
+};
+
+export default queue;
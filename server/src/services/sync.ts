@@ -1,5 +1,6 @@
 import type { Core } from "@strapi/strapi";
 import { pluginManager } from "../plugin-manager";
+import { hashContent } from "../utils/hash";
 
 const PLUGIN_ID = "strapi-content-embeddings";
 const CONTENT_TYPE_UID = `plugin::${PLUGIN_ID}.embedding` as const;
@@ -30,6 +31,8 @@ interface NeonEmbedding {
   content: string;
   collectionType: string;
   fieldName: string;
+  contentHash: string | null;
+  model: string | null;
 }
 
 interface StrapiEmbedding {
@@ -39,6 +42,8 @@ interface StrapiEmbedding {
   embeddingId: string | null;
   collectionType: string;
   fieldName: string;
+  contentHash: string | null;
+  embeddingModel: string | null;
 }
 
 export interface RecreateResult {
@@ -148,6 +153,8 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
                   embeddingId: neon.id,
                   collectionType: neon.collectionType,
                   fieldName: neon.fieldName,
+                  contentHash: neon.contentHash || hashContent(neon.content),
+                  embeddingModel: neon.model,
                 } as any,
               });
               result.actions.created++;
@@ -166,8 +173,11 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
             );
           }
         } else {
-          // Check if content needs updating
-          const contentChanged = existingStrapi.content !== neon.content;
+          // Check if content needs updating, by hash when both sides have one
+          const contentChanged =
+            existingStrapi.contentHash && neon.contentHash
+              ? existingStrapi.contentHash !== neon.contentHash
+              : existingStrapi.content !== neon.content;
           const titleChanged = existingStrapi.title !== neon.title;
           const embeddingIdMissing = !existingStrapi.embeddingId;
 
@@ -180,6 +190,8 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
                     title: neon.title,
                     content: neon.content,
                     embeddingId: neon.id,
+                    contentHash: neon.contentHash || hashContent(neon.content),
+                    embeddingModel: neon.model,
                   } as any,
                 });
                 result.actions.updated++;
@@ -240,7 +252,8 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
   },
 
   /**
-   * Get sync status - compare Neon and Strapi without making changes
+   * Get sync status - compare Neon and Strapi without making changes.
+   * Content is compared by hash, so no text is loaded from either side.
    */
   async getSyncStatus(): Promise<{
     neonCount: number;
@@ -249,15 +262,18 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
     missingInStrapi: number;
     missingInNeon: number;
     contentDifferences: number;
+    /** Pairs without a hash on one side (stored before hashing); Recreate All adds hashes */
+    unverified: number;
   }> {
     if (!pluginManager.isInitialized()) {
       throw new Error("Plugin manager not initialized");
     }
 
-    const neonEmbeddings = await pluginManager.getAllNeonEmbeddings();
+    const neonEmbeddings = await pluginManager.getAllNeonEmbeddings({ includeContent: false });
     const strapiEmbeddings = (await strapi
       .documents(CONTENT_TYPE_UID)
       .findMany({
+        fields: ["documentId", "contentHash"] as any,
         limit: 10000,
       })) as unknown as StrapiEmbedding[];
 
@@ -275,13 +291,16 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
 
     let missingInStrapi = 0;
     let contentDifferences = 0;
+    let unverified = 0;
 
     for (const neon of neonEmbeddings) {
       if (!neon.strapiId) continue;
       const strapiRecord = strapiByDocumentId.get(neon.strapiId);
       if (!strapiRecord) {
         missingInStrapi++;
-      } else if (strapiRecord.content !== neon.content) {
+      } else if (!strapiRecord.contentHash || !neon.contentHash) {
+        unverified++;
+      } else if (strapiRecord.contentHash !== neon.contentHash) {
         contentDifferences++;
       }
     }
@@ -303,6 +322,7 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
       missingInStrapi,
       missingInNeon,
       contentDifferences,
+      unverified,
     };
   },
 
@@ -337,6 +357,14 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
       return result;
     }
 
+    // Only the active index would be cleared, leaving the migration index with duplicates
+    if (pluginManager.getShadowModel()) {
+      result.errors.push(
+        "A model migration is in progress. Complete or roll it back before recreating embeddings."
+      );
+      return result;
+    }
+
     try {
       // Step 1: Clear all embeddings from Neon
       console.log("[recreateAllEmbeddings] Step 1: Clearing Neon DB...");
@@ -359,51 +387,51 @@ const sync = ({ strapi }: { strapi: Core.Strapi }) => ({
         return result;
       }
 
-      // Step 3: Recreate each embedding in Neon
-      console.log("[recreateAllEmbeddings] Step 3: Recreating embeddings in Neon...");
-
-      for (let i = 0; i < strapiEmbeddings.length; i++) {
-        const entry = strapiEmbeddings[i] as any;
-        const progress = `[${i + 1}/${strapiEmbeddings.length}]`;
-
+      // Step 3: Recreate embeddings in Neon, one provider request and one insert per batch
+      const queue = strapi.plugin(PLUGIN_ID).service("queue");
+      const embeddingsService = strapi.plugin(PLUGIN_ID).service("embeddings");
+      const { batchSize } = queue.getQueueConfig();
+      const withContent = (strapiEmbeddings as any[]).filter((entry) => {
         if (!entry.content) {
-          console.log(`${progress} Skipping ${entry.documentId} - no content`);
+          console.log(`Skipping ${entry.documentId} - no content`);
           result.details.failed.push(`${entry.documentId}: no content`);
-          continue;
+          return false;
         }
+        return true;
+      });
+
+      console.log(`[recreateAllEmbeddings] Step 3: Recreating ${withContent.length} embeddings in batches of ${batchSize}...`);
+
+      for (let start = 0; start < withContent.length; start += batchSize) {
+        const batch = withContent.slice(start, start + batchSize);
+        const progress = `[${start + batch.length}/${withContent.length}]`;
 
         try {
-          console.log(`${progress} Creating embedding for: ${entry.title || entry.documentId}`);
-
-          // Create embedding in Neon with proper JSONB metadata
-          const embeddingResult = await pluginManager.createEmbedding({
-            id: entry.documentId,
-            title: entry.title || "",
-            content: entry.content,
-            collectionType: entry.collectionType || "standalone",
-            fieldName: entry.fieldName || "content",
-          });
-
-          // Update Strapi entry with new embedding ID
-          await strapi.documents(CONTENT_TYPE_UID).update({
-            documentId: entry.documentId,
-            data: {
-              embeddingId: embeddingResult.embeddingId,
-              embedding: embeddingResult.embedding,
-            } as any,
-          });
-
-          result.recreatedInNeon++;
-          result.details.recreated.push(`${entry.documentId} (${entry.title || "untitled"})`);
-
-          // Add small delay to avoid rate limiting
-          if (i < strapiEmbeddings.length - 1) {
-            await new Promise((resolve) => setTimeout(resolve, 500));
+          // Vectors stored on the Strapi entries are reused when the model is unchanged
+          await embeddingsService.embedEntries(batch, { replace: false });
+
+          for (const entry of batch) {
+            result.recreatedInNeon++;
+            result.details.recreated.push(`${entry.documentId} (${entry.title || "untitled"})`);
           }
+
+          console.log(`${progress} Batch recreated`);
         } catch (error: any) {
-          console.error(`${progress} Failed:`, error.message || error);
-          result.errors.push(`${entry.documentId}: ${error.message || error}`);
-          result.details.failed.push(`${entry.documentId}: ${error.message || error}`);
+          console.error(`${progress} Batch failed:`, error.message || error);
+
+          for (const entry of batch) {
+            result.errors.push(`${entry.documentId}: ${error.message || error}`);
+            result.details.failed.push(`${entry.documentId}: ${error.message || error}`);
+          }
+
+          // Hand the entries to the queue so they are retried with backoff
+          try {
+            await queue.enqueueMany(
+              batch.map((entry) => ({ embeddingDocumentId: entry.documentId, title: entry.title }))
+            );
+          } catch (queueError) {
+            console.error(`${progress} Failed to queue retry:`, queueError);
+          }
         }
       }
 
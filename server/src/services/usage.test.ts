@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import knex, { type Knex } from "knex";
+import type { Core } from "@strapi/strapi";
+import usage from "./usage";
+
+const TABLE = "strapi_content_embeddings_usage";
+
+describe("usage service", () => {
+  let connection: Knex;
+  let service: ReturnType<typeof usage>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+
+    connection = knex({
+      client: "better-sqlite3",
+      connection: { filename: ":memory:" },
+      useNullAsDefault: true,
+    });
+    await connection.schema.createTable(TABLE, (table) => {
+      table.increments("id");
+      table.string("operation");
+      table.integer("input_tokens");
+      table.integer("output_tokens");
+      table.decimal("estimated_cost");
+      table.bigInteger("created_at");
+    });
+
+    service = usage({
+      strapi: {
+        db: {
+          connection,
+          dialect: { client: "sqlite" },
+          metadata: { get: () => ({ tableName: TABLE }) },
+        },
+      } as unknown as Core.Strapi,
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await connection.destroy();
+  });
+
+  const insert = (
+    createdAt: string,
+    operation: string,
+    inputTokens: number,
+    outputTokens = 0,
+    estimatedCost: number | null = null
+  ) =>
+    connection(TABLE).insert({
+      operation,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      estimated_cost: estimatedCost,
+      created_at: new Date(createdAt).getTime(),
+    });
+
+  it("sums the records of each day and operation in the requested range", async () => {
+    await insert("2026-03-10T08:00:00Z", "chat", 100, 50, 0.5);
+    await insert("2026-03-10T09:00:00Z", "chat", 200, 25, 0.25);
+    await insert("2026-03-10T09:30:00Z", "embedQuery", 10);
+    await insert("2026-03-09T23:59:00Z", "chat", 1, 1, 0.01);
+    await insert("2026-03-08T23:59:00Z", "chat", 1000, 1000, 10);
+
+    const totals = (
+      day: string,
+      operation: string,
+      requests: number,
+      [inputTokens, outputTokens]: number[],
+      estimatedCost: number
+    ) => ({ day, operation, requests, inputTokens, outputTokens, estimatedCost });
+
+    expect(await service.getDailyTotals({ days: 2 })).toEqual([
+      totals("2026-03-10", "chat", 2, [300, 75], 0.75),
+      totals("2026-03-10", "embedQuery", 1, [10, 0], 0),
+      totals("2026-03-09", "chat", 1, [1, 1], 0.01),
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import type { Core } from "@strapi/strapi";
+import { MODEL_PRICING, type ModelPricing, type PluginConfigSchema } from "../config";
+import type { UsageEvent, UsageOperation } from "../plugin-manager";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+const USAGE_UID = `plugin::${PLUGIN_ID}.usage-record` as const;
+
+/**
+ * SQL for the UTC day (YYYY-MM-DD) of a usage record's created_at column
+ */
+function dayExpression(client: string): string {
+  switch (client) {
+    case "postgres":
+      return "to_char(created_at, 'YYYY-MM-DD')";
+    case "mysql":
+      return "DATE_FORMAT(created_at, '%Y-%m-%d')";
+    default:
+      // SQLite datetimes are stored as epoch milliseconds
+      return "strftime('%Y-%m-%d', created_at / 1000, 'unixepoch')";
+  }
+}
+
+export interface DailyUsage {
+  /** UTC date, YYYY-MM-DD */
+  day: string;
+  operation: UsageOperation;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated cost in USD; models without a known price count as 0 */
+  estimatedCost: number;
+}
+
+const usage = ({ strapi }: { strapi: Core.Strapi }) => ({
+  getPricing(model: string): ModelPricing | undefined {
+    const config = (strapi.config.get(`plugin::${PLUGIN_ID}`) || {}) as PluginConfigSchema;
+    return { ...MODEL_PRICING, ...config.pricing }[model];
+  },
+
+  /**
+   * Estimated cost in USD, or null when the model has no known price
+   */
+  estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+    const pricing = this.getPricing(model);
+
+    if (!pricing) {
+      return null;
+    }
+
+    return (inputTokens * pricing.input + outputTokens * (pricing.output ?? 0)) / 1_000_000;
+  },
+
+  async record(event: UsageEvent) {
+    return strapi.documents(USAGE_UID).create({
+      data: {
+        ...event,
+        estimatedCost: this.estimateCost(event.model, event.inputTokens, event.outputTokens),
+      } as any,
+    });
+  },
+
+  /**
+   * Totals per UTC day and operation, newest day first. Summed by the database,
+   * so only one row per day and operation is loaded.
+   */
+  async getDailyTotals(params?: { days?: number }): Promise<DailyUsage[]> {
+    const days = Math.max(1, params?.days || 30);
+    const from = new Date();
+    from.setUTCHours(0, 0, 0, 0);
+    from.setUTCDate(from.getUTCDate() - (days - 1));
+
+    const knex = strapi.db.connection;
+    const day = dayExpression(strapi.db.dialect.client);
+    const rows = await knex(strapi.db.metadata.get(USAGE_UID).tableName)
+      .select(knex.raw(`${day} as day`), "operation")
+      .count({ requests: "*" })
+      .sum({
+        inputTokens: "input_tokens",
+        outputTokens: "output_tokens",
+        estimatedCost: "estimated_cost",
+      })
+      .where("created_at", ">=", from)
+      .groupByRaw(`${day}, operation`)
+      .orderBy([{ column: "day", order: "desc" }, "operation"]);
+
+    // Postgres returns counts and sums as strings
+    return (rows as any[]).map((row) => ({
+      day: row.day,
+      operation: row.operation,
+      requests: Number(row.requests),
+      inputTokens: Number(row.inputTokens) || 0,
+      outputTokens: Number(row.outputTokens) || 0,
+      estimatedCost: Number(row.estimatedCost) || 0,
+    }));
+  },
+});
+
+export default usage;
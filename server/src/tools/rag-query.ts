@@ -7,31 +7,57 @@
 
 import type { Core } from '@strapi/strapi';
 import { RagQuerySchema } from '../mcp/schemas';
+import type { ConversationMessage, RagQueryOptions } from '../plugin-manager';
 import type { ToolDefinition } from './types';
 
 export const ragQueryTool: ToolDefinition = {
   name: 'ragQuery',
   description:
     'Ask a question and get an AI-generated answer grounded in embedded content. ' +
-    'Uses retrieval-augmented generation (RAG) with vector search.',
+    'Uses retrieval-augmented generation (RAG) with vector search. ' +
+    'Pass the earlier turns as history to ask follow-up questions, and a prompt preset name ' +
+    'to answer with that preset\'s system prompt.',
   schema: RagQuerySchema,
   execute: async (args, strapi) => {
-    const { query, includeSourceDocuments = true } = args as {
+    const { query, includeSourceDocuments = true, history = [], prompt, ...retrieval } = args as {
       query: string;
       includeSourceDocuments?: boolean;
-    };
+      history?: ConversationMessage[];
+      prompt?: string;
+    } & RagQueryOptions;
+
+    const systemPrompt = await strapi
+      .plugin('strapi-content-embeddings')
+      .service('prompts')
+      .resolvePrompt(prompt);
+
+    if (systemPrompt === null) {
+      return {
+        error: true,
+        message: `Prompt preset not found with name: ${prompt}`,
+      };
+    }
 
     const embeddingsService = strapi
       .plugin('strapi-content-embeddings')
       .service('embeddings');
 
-    const result = await embeddingsService.queryEmbeddings(query);
+    const result = await embeddingsService.queryConversation(query, history, { ...retrieval, systemPrompt });
 
     const response: any = {
       query,
       answer: result.text,
     };
 
+    // Sources cited in the answer as [1], [2]
+    if (result.citations) {
+      response.citations = result.citations;
+    }
+
+    if (result.standaloneQuestion) {
+      response.standaloneQuestion = result.standaloneQuestion;
+    }
+
     if (includeSourceDocuments && result.sourceDocuments) {
       response.sourceDocuments = result.sourceDocuments.map((doc: any, index: number) => ({
         rank: index + 1,
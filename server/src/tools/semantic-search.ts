@@ -7,25 +7,32 @@
 
 import type { Core } from '@strapi/strapi';
 import { SemanticSearchSchema } from '../mcp/schemas';
+import type { SearchFilter } from '../vector-stores';
+import type { SearchMode } from '../plugin-manager';
 import type { ToolDefinition } from './types';
 
 export const semanticSearchTool: ToolDefinition = {
   name: 'semanticSearch',
   description:
     'Search for semantically similar content using vector embeddings. ' +
-    'Finds relevant documents by meaning, not just keywords.',
+    'Finds relevant documents by meaning, not just keywords. ' +
+    'Filters narrow the search by content type, locale, source document, dates or custom metadata. ' +
+    'Use hybrid mode for exact names and product codes.',
   schema: SemanticSearchSchema,
   execute: async (args, strapi) => {
-    const { query, limit = 5 } = args as { query: string; limit?: number };
+    const { query, limit = 5, filters, mode, keywordWeight } = args as {
+      query: string;
+      limit?: number;
+      filters?: SearchFilter;
+      mode?: SearchMode;
+      keywordWeight?: number;
+    };
     const maxLimit = Math.min(limit, 20);
 
-    const pluginManager = (strapi as any).contentEmbeddingsManager;
-
-    if (!pluginManager) {
-      throw new Error('Content embeddings plugin not initialized');
-    }
-
-    const results = await pluginManager.similaritySearch(query, maxLimit);
+    const results = await strapi
+      .plugin('strapi-content-embeddings')
+      .service('embeddings')
+      .similaritySearch(query, maxLimit, filters, { mode, keywordWeight });
 
     const formattedResults = results.map((doc: any, index: number) => ({
       rank: index + 1,
@@ -36,6 +43,7 @@ export const semanticSearchTool: ToolDefinition = {
 
     return {
       query,
+      ...(filters ? { filters } : {}),
       resultCount: formattedResults.length,
       results: formattedResults,
     };
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { findCitations, stripCitations } from "./citations";
+
+describe("findCitations", () => {
+  it("returns cited source numbers in order of first citation", () => {
+    expect(findCitations("Cats sleep [2]. They purr [1][2].", 3)).toEqual([2, 1]);
+  });
+
+  it("reads grouped citations", () => {
+    expect(findCitations("Both agree [1, 3].", 3)).toEqual([1, 3]);
+  });
+
+  it("ignores numbers that are not sources", () => {
+    expect(findCitations("See [0], [4] and [2].", 3)).toEqual([2]);
+  });
+
+  it("returns nothing for an answer without citations", () => {
+    expect(findCitations("No sources here.", 3)).toEqual([]);
+  });
+});
+
+describe("stripCitations", () => {
+  it("removes single and grouped markers with the space before them", () => {
+    expect(stripCitations("Cats sleep [2]. They purr [1][2] and hunt [1, 3].")).toBe(
+      "Cats sleep. They purr and hunt."
+    );
+  });
+
+  it("keeps other brackets", () => {
+    expect(stripCitations("Use arr[i] or [note].")).toBe("Use arr[i] or [note].");
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Inline source citations
+ *
+ * RAG context documents are numbered in the prompt and the model cites them
+ * in its answer as [1], [2] (or [1, 2]).
+ */
+
+/** [1], [12] and grouped forms like [1, 3] */
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Source numbers cited in an answer, in order of first citation. Numbers
+ * outside 1..sourceCount are not sources and are ignored.
+ */
+export function findCitations(text: string, sourceCount: number): number[] {
+  const cited: number[] = [];
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    for (const part of match[1].split(",")) {
+      const number = parseInt(part, 10);
+      if (number >= 1 && number <= sourceCount && !cited.includes(number)) {
+        cited.push(number);
+      }
+    }
+  }
+
+  return cited;
+}
+
+/**
+ * Remove citation markers, e.g. from earlier answers whose numbers refer to
+ * another question's context
+ */
+export function stripCitations(text: string): string {
+  return text.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, "");
+}
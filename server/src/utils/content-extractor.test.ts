@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { Core } from "@strapi/strapi";
+import { blocksToText, buildPopulate, extractEntryText } from "./content-extractor";
+
+const strapi = {
+  contentTypes: {
+    "api::page.page": {
+      attributes: {
+        title: { type: "string" },
+        secret: { type: "text", private: true },
+        views: { type: "integer" },
+        hero: { type: "component", component: "shared.hero" },
+        faqs: { type: "component", component: "shared.faq", repeatable: true },
+        sections: { type: "dynamiczone", components: ["shared.hero", "shared.rich"] },
+      },
+    },
+  },
+  components: {
+    "shared.hero": { attributes: { heading: { type: "string" }, image: { type: "media" } } },
+    "shared.faq": { attributes: { question: { type: "string" }, answer: { type: "text" } } },
+    "shared.rich": { attributes: { body: { type: "blocks" } } },
+  },
+} as unknown as Core.Strapi;
+
+describe("blocksToText", () => {
+  it("keeps headings, lists and quotes recognizable", () => {
+    const text = blocksToText([
+      { type: "heading", level: 2, children: [{ type: "text", text: "Plans" }] },
+      { type: "paragraph", children: [{ type: "text", text: "Pick " }, { type: "text", text: "one." }] },
+      {
+        type: "list",
+        format: "ordered",
+        children: [
+          { type: "list-item", children: [{ type: "text", text: "Free" }] },
+          { type: "list-item", children: [{ type: "text", text: "Pro" }] },
+        ],
+      },
+      { type: "quote", children: [{ type: "text", text: "Worth it" }] },
+      { type: "image", image: { alternativeText: "Pricing table" } },
+      { type: "paragraph", children: [{ type: "text", text: "  " }] },
+    ]);
+
+    expect(text).toBe("## Plans\n\nPick one.\n\n1. Free\n2. Pro\n\n> Worth it\n\nPricing table");
+  });
+});
+
+describe("buildPopulate", () => {
+  it("populates components and dynamic zones", () => {
+    expect(buildPopulate(strapi, "api::page.page")).toEqual({
+      hero: true,
+      faqs: true,
+      sections: { on: { "shared.hero": true, "shared.rich": true } },
+    });
+  });
+
+  it("only populates the configured fields", () => {
+    expect(buildPopulate(strapi, "api::page.page", { fields: ["title", "faqs"] })).toEqual({ faqs: true });
+  });
+});
+
+describe("extractEntryText", () => {
+  const entry = {
+    title: "Pricing",
+    secret: "internal notes",
+    views: 10,
+    hero: { heading: "Simple plans" },
+    faqs: [
+      { question: "Can I cancel?", answer: "Any time." },
+      { question: "Refunds?", answer: null },
+    ],
+    sections: [
+      { __component: "shared.rich", body: [{ type: "paragraph", children: [{ type: "text", text: "Details" }] }] },
+      { __component: "shared.hero", heading: "Start today" },
+    ],
+  };
+
+  it("joins text from attributes, components and dynamic zones in order, skipping private fields", () => {
+    expect(extractEntryText(strapi, "api::page.page", entry)).toBe(
+      "Pricing\n\nSimple plans\n\nCan I cancel?\n\nAny time.\n\nRefunds?\n\nDetails\n\nStart today"
+    );
+  });
+
+  it("follows the order of the configured fields", () => {
+    expect(extractEntryText(strapi, "api::page.page", entry, { fields: ["hero", "title"] })).toBe(
+      "Simple plans\n\nPricing"
+    );
+  });
+
+  it("stops at maxDepth", () => {
+    expect(extractEntryText(strapi, "api::page.page", entry, { fields: ["title", "hero"], maxDepth: 0 })).toBe(
+      "Pricing"
+    );
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Content extraction utilities for turning Strapi entries into embeddable text
+ * Walks the content type schema so components, repeatable components,
+ * dynamic zones and Blocks rich text all contribute their text
+ */
+
+import type { Core } from "@strapi/strapi";
+
+export interface ExtractOptions {
+  /** Top-level attributes to extract, in order (default: every text-bearing attribute) */
+  fields?: string[];
+  /** Maximum component nesting depth (default: 5) */
+  maxDepth?: number;
+}
+
+/** Attributes that hold text directly */
+const TEXT_ATTRIBUTE_TYPES = ["string", "text", "richtext", "blocks"];
+
+/** Attributes that contain other attributes */
+const NESTED_ATTRIBUTE_TYPES = ["component", "dynamiczone"];
+
+const DEFAULT_MAX_DEPTH = 5;
+
+type Attributes = Record<string, any>;
+
+function getAttributes(strapi: Core.Strapi, uid: string, isComponent: boolean): Attributes {
+  const schema = isComponent
+    ? (strapi.components as Record<string, any>)[uid]
+    : (strapi.contentTypes as Record<string, any>)[uid];
+  return schema?.attributes || {};
+}
+
+/**
+ * Attributes worth extracting: text, components and dynamic zones that are not private
+ */
+function getExtractableAttributes(attributes: Attributes, fields?: string[]): string[] {
+  const names = fields || Object.keys(attributes);
+
+  return names.filter((name) => {
+    const attribute = attributes[name];
+    return (
+      attribute &&
+      !attribute.private &&
+      (TEXT_ATTRIBUTE_TYPES.includes(attribute.type) || NESTED_ATTRIBUTE_TYPES.includes(attribute.type))
+    );
+  });
+}
+
+/**
+ * Build a populate object that loads every component and dynamic zone
+ * needed to extract text from an entry
+ */
+export function buildPopulate(
+  strapi: Core.Strapi,
+  uid: string,
+  options: ExtractOptions = {},
+  isComponent = false,
+  depth = 0
+): Record<string, any> | undefined {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const attributes = getAttributes(strapi, uid, isComponent);
+  const populate: Record<string, any> = {};
+
+  if (depth >= maxDepth) {
+    return undefined;
+  }
+
+  for (const name of getExtractableAttributes(attributes, depth === 0 ? options.fields : undefined)) {
+    const attribute = attributes[name];
+
+    if (attribute.type === "component") {
+      const nested = buildPopulate(strapi, attribute.component, options, true, depth + 1);
+      populate[name] = nested ? { populate: nested } : true;
+    } else if (attribute.type === "dynamiczone") {
+      const on: Record<string, any> = {};
+      for (const componentUid of attribute.components || []) {
+        const nested = buildPopulate(strapi, componentUid, options, true, depth + 1);
+        on[componentUid] = nested ? { populate: nested } : true;
+      }
+      populate[name] = { on };
+    }
+  }
+
+  return Object.keys(populate).length > 0 ? populate : undefined;
+}
+
+/**
+ * Text of a Blocks node and its inline children
+ */
+function inlineText(node: any): string {
+  if (typeof node?.text === "string") return node.text;
+  return Array.isArray(node?.children) ? node.children.map(inlineText).join("") : "";
+}
+
+/**
+ * Convert one Blocks node to Markdown-style text, keeping headings,
+ * lists and quotes recognizable for chunking and the chat model
+ */
+function blockToText(block: any): string {
+  switch (block?.type) {
+    case "heading":
+      return `${"#".repeat(Math.min(Math.max(block.level || 1, 1), 6))} ${inlineText(block).trim()}`;
+
+    case "list":
+      return (block.children || [])
+        .map((item: any, index: number) => {
+          if (item?.type === "list") {
+            return blockToText(item).replace(/^/gm, "  ");
+          }
+          const marker = block.format === "ordered" ? `${index + 1}.` : "-";
+          return `${marker} ${inlineText(item).trim()}`;
+        })
+        .join("\n");
+
+    case "quote":
+      return `> ${inlineText(block).trim()}`;
+
+    case "code":
+      return inlineText(block);
+
+    case "image":
+      return block.image?.alternativeText || "";
+
+    default:
+      return inlineText(block).trim();
+  }
+}
+
+/**
+ * Convert Strapi Blocks JSON into plain text with Markdown headings
+ */
+export function blocksToText(blocks: any[]): string {
+  return blocks
+    .map(blockToText)
+    .filter((text) => text.trim())
+    .join("\n\n");
+}
+
+function extractAttribute(
+  strapi: Core.Strapi,
+  attribute: any,
+  value: any,
+  options: ExtractOptions,
+  depth: number
+): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  switch (attribute.type) {
+    case "string":
+    case "text":
+    case "richtext":
+      return typeof value === "string" ? value.trim() : "";
+
+    case "blocks":
+      return Array.isArray(value) ? blocksToText(value) : "";
+
+    case "component": {
+      const items = attribute.repeatable ? (Array.isArray(value) ? value : []) : [value];
+      return items
+        .map((item) => extractComponent(strapi, attribute.component, item, options, depth + 1))
+        .filter(Boolean)
+        .join("\n\n");
+    }
+
+    case "dynamiczone":
+      return (Array.isArray(value) ? value : [])
+        .map((item) =>
+          item?.__component ? extractComponent(strapi, item.__component, item, options, depth + 1) : ""
+        )
+        .filter(Boolean)
+        .join("\n\n");
+
+    default:
+      return "";
+  }
+}
+
+function extractComponent(
+  strapi: Core.Strapi,
+  componentUid: string,
+  data: Record<string, any>,
+  options: ExtractOptions,
+  depth: number
+): string {
+  if (!data || depth > (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return "";
+  }
+
+  const attributes = getAttributes(strapi, componentUid, true);
+
+  return getExtractableAttributes(attributes)
+    .map((name) => extractAttribute(strapi, attributes[name], data[name], options, depth))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Extract the embeddable text of an entry. The entry should be loaded
+ * with the populate object from buildPopulate so nested content is present.
+ */
+export function extractEntryText(
+  strapi: Core.Strapi,
+  uid: string,
+  entry: Record<string, any>,
+  options: ExtractOptions = {}
+): string {
+  const attributes = getAttributes(strapi, uid, false);
+
+  return getExtractableAttributes(attributes, options.fields)
+    .map((name) => extractAttribute(strapi, attributes[name], entry[name], options, 0))
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,70 @@
+/**
+ * Per-content-type embedding configuration
+ *
+ * Resolves the `contentTypes` map from the plugin config into the settings
+ * used for one content type, applying plugin-wide defaults. Without a
+ * `contentTypes` map every content type is enabled, as before.
+ */
+
+import type { ContentTypeEmbeddingConfig, PluginConfigSchema } from "../config";
+import type { PreprocessOptions } from "./preprocessing";
+
+const PLUGIN_ID = "strapi-content-embeddings";
+
+export interface ResolvedContentTypeConfig {
+  uid: string;
+  enabled: boolean;
+  /** Attributes to embed, in order; undefined means every text attribute */
+  fields?: string[];
+  titleField?: string;
+  chunkSize: number;
+  chunkOverlap: number;
+  autoChunk: boolean;
+  /** Preprocessing steps, or false to embed the raw text */
+  preprocessing: PreprocessOptions | false;
+  includeDrafts: boolean;
+  autoEmbed: boolean;
+}
+
+/**
+ * Content types that can never be embedded
+ */
+export function isInternalContentType(uid: string): boolean {
+  return (
+    uid.startsWith("admin::") ||
+    uid.startsWith("strapi::") ||
+    uid.startsWith(`plugin::${PLUGIN_ID}.`)
+  );
+}
+
+/**
+ * Resolve the embedding settings for a single content type
+ */
+export function resolveContentTypeConfig(
+  config: PluginConfigSchema,
+  uid: string
+): ResolvedContentTypeConfig {
+  const entry: ContentTypeEmbeddingConfig | undefined = config.contentTypes?.[uid];
+  const enabled = !isInternalContentType(uid) && (config.contentTypes ? !!entry && entry.enabled !== false : true);
+  const preprocess = entry?.preprocessContent ?? config.preprocessContent ?? true;
+
+  return {
+    uid,
+    enabled,
+    fields: entry?.fields?.length ? entry.fields : undefined,
+    titleField: entry?.titleField,
+    chunkSize: entry?.chunkSize || config.chunkSize || 4000,
+    chunkOverlap: entry?.chunkOverlap ?? config.chunkOverlap ?? 200,
+    autoChunk: entry?.autoChunk ?? config.autoChunk ?? false,
+    preprocessing: preprocess === false ? false : { ...entry?.preprocessing },
+    includeDrafts: entry?.includeDrafts ?? false,
+    autoEmbed: enabled && (entry?.autoEmbed ?? (config.autoEmbed || []).includes(uid)),
+  };
+}
+
+/**
+ * Whether the embedding relation and widget are available for a content type
+ */
+export function isContentTypeEnabled(config: PluginConfigSchema, uid: string): boolean {
+  return resolveContentTypeConfig(config, uid).enabled;
+}
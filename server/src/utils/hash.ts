@@ -0,0 +1,14 @@
+/**
+ * Content hashing for embedding deduplication
+ * Identical text embedded with the same model always gives the same vector,
+ * so a hash of the embedded text identifies reusable vectors.
+ */
+
+import { createHash } from "node:crypto";
+
+/**
+ * SHA-256 hex digest of the text that is sent to the embedding model
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
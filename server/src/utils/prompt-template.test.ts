@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  renderPromptTemplate,
+  usesPromptVariable,
+  validatePromptTemplate,
+} from "./prompt-template";
+
+const values = { context: "[1] Title: Cats", question: "Do cats sleep?", history: "User: Hi" };
+
+describe("renderPromptTemplate", () => {
+  it("fills in every placeholder, including repeated ones", () => {
+    expect(renderPromptTemplate("{question}\n{context}\n{history}\n{question}", values)).toBe(
+      "Do cats sleep?\n[1] Title: Cats\nUser: Hi\nDo cats sleep?"
+    );
+  });
+
+  it("keeps other braces as written", () => {
+    expect(renderPromptTemplate('Reply as {"answer": "..."} using {context} and {sources}', values)).toBe(
+      'Reply as {"answer": "..."} using [1] Title: Cats and {sources}'
+    );
+  });
+
+  it("does not fill in placeholders that appear in the values", () => {
+    expect(renderPromptTemplate("{context}", { ...values, context: "Literal {question}" })).toBe("Literal {question}");
+  });
+});
+
+describe("usesPromptVariable", () => {
+  it("tells whether a template contains a placeholder", () => {
+    expect(usesPromptVariable(DEFAULT_SYSTEM_PROMPT, "context")).toBe(true);
+    expect(usesPromptVariable(DEFAULT_SYSTEM_PROMPT, "history")).toBe(false);
+  });
+});
+
+describe("validatePromptTemplate", () => {
+  it("accepts templates with {context}", () => {
+    expect(validatePromptTemplate(DEFAULT_SYSTEM_PROMPT)).toBeNull();
+  });
+
+  it("requires a non-empty string", () => {
+    expect(validatePromptTemplate(undefined)).toBe("template is required");
+    expect(validatePromptTemplate("   ")).toBe("template is required");
+  });
+
+  it("requires the {context} placeholder", () => {
+    expect(validatePromptTemplate("Answer {question}")).toBe("template must contain the {context} placeholder");
+  });
+});
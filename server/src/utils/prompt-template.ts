@@ -0,0 +1,46 @@
+/**
+ * System prompt templates for RAG answers
+ *
+ * Templates are plain text with {context}, {question} and {history}
+ * placeholders. Other braces are kept as written, so templates can contain
+ * JSON or code examples.
+ */
+
+export const PROMPT_VARIABLES = ["context", "question", "history"] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+const VARIABLE_PATTERN = new RegExp(`\\{(${PROMPT_VARIABLES.join("|")})\\}`, "g");
+
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful assistant that answers questions based on the provided context.
+If you cannot find the answer in the context, say so. Be concise and accurate.
+The context is a numbered list of sources. After each statement, cite the sources
+that support it by their number in square brackets, like [1] or [1][2].
+
+Context:
+{context}`;
+
+/**
+ * Fill in the placeholders of a template
+ */
+export function renderPromptTemplate(template: string, values: Record<PromptVariable, string>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: PromptVariable) => values[name]);
+}
+
+export function usesPromptVariable(template: string, name: PromptVariable): boolean {
+  return template.includes(`{${name}}`);
+}
+
+/**
+ * Why a template cannot be used, or null when it is valid. Without
+ * {context} the retrieved documents would never reach the model.
+ */
+export function validatePromptTemplate(template: unknown): string | null {
+  if (typeof template !== "string" || template.trim() === "") {
+    return "template is required";
+  }
+  if (!usesPromptVariable(template, "context")) {
+    return "template must contain the {context} placeholder";
+  }
+  return null;
+}
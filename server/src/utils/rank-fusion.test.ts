@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RANK_CONSTANT, reciprocalRankFusion } from "./rank-fusion";
+
+const identity = (item: string) => item;
+
+describe("reciprocalRankFusion", () => {
+  it("scores items by weight / (rankConstant + rank) and sorts them best first", () => {
+    const fused = reciprocalRankFusion([{ items: ["a", "b"], weight: 1 }], identity);
+
+    expect(fused).toEqual([
+      { item: "a", score: 1 / (DEFAULT_RANK_CONSTANT + 1) },
+      { item: "b", score: 1 / (DEFAULT_RANK_CONSTANT + 2) },
+    ]);
+  });
+
+  it("adds up the scores of items found in several lists", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: ["a", "b", "c"], weight: 1 },
+        { items: ["c", "d"], weight: 1 },
+      ],
+      identity,
+      1
+    );
+
+    expect(fused.map(({ item }) => item)).toEqual(["c", "a", "b", "d"]);
+    expect(fused[0].score).toBeCloseTo(1 / 4 + 1 / 2);
+  });
+
+  it("weights the lists", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: ["vector"], weight: 1 },
+        { items: ["keyword"], weight: 2 },
+      ],
+      identity
+    );
+
+    expect(fused.map(({ item }) => item)).toEqual(["keyword", "vector"]);
+  });
+
+  it("matches items across lists by key and keeps the first one seen", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: [{ id: "1", from: "vector" }], weight: 1 },
+        { items: [{ id: "1", from: "keyword" }], weight: 1 },
+      ],
+      (item) => item.id
+    );
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].item.from).toBe("vector");
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Reciprocal rank fusion
+ *
+ * Merges ranked result lists whose scores are not comparable (cosine
+ * distance, full-text rank) by rank alone: an item scores
+ * weight / (rankConstant + rank) in each list it appears in.
+ */
+
+export interface RankedList<T> {
+  items: T[];
+  weight: number;
+}
+
+/** Constant from the original RRF paper; dampens the gap between top ranks */
+export const DEFAULT_RANK_CONSTANT = 60;
+
+/**
+ * Fuse ranked lists, best first. Items are matched across lists by key.
+ */
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  key: (item: T) => string,
+  rankConstant: number = DEFAULT_RANK_CONSTANT
+): Array<{ item: T; score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const { items, weight } of lists) {
+    items.forEach((item, index) => {
+      const id = key(item);
+      const contribution = weight / (rankConstant + index + 1);
+      const existing = fused.get(id);
+
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(id, { item, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
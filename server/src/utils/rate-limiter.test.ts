@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter } from "./rate-limiter";
+
+/**
+ * Start acquire() calls and report which have been granted
+ */
+function track(limiter: RateLimiter, sizes: number[]) {
+  const granted: number[] = [];
+  sizes.forEach((tokens, index) => limiter.acquire(tokens).then(() => granted.push(index)));
+  return granted;
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("does not wait without limits", async () => {
+    const limiter = new RateLimiter();
+    const granted = track(limiter, [1000, 1000, 1000]);
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(limiter.isLimited).toBe(false);
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it("holds requests over requestsPerMinute until the window moves on", async () => {
+    const granted = track(new RateLimiter({ requestsPerMinute: 2 }), [1, 1, 1]);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(granted).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(1_100);
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it("counts tokens, including recorded ones, against tokensPerMinute", async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+    await limiter.acquire(40);
+    limiter.record(50);
+
+    const granted = track(limiter, [20]);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(30_100);
+    expect(granted).toEqual([0]);
+  });
+
+  it("lets a request larger than the budget through once the window is empty", async () => {
+    const granted = track(new RateLimiter({ tokensPerMinute: 100 }), [500, 10]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(60_100);
+    expect(granted).toEqual([0, 1]);
+  });
+
+  it("serves waiting callers in order", async () => {
+    const granted = track(new RateLimiter({ requestsPerMinute: 1 }), [1, 1, 1]);
+
+    await vi.advanceTimersByTimeAsync(60_100);
+    expect(granted).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(60_100);
+    expect(granted).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Sliding-window rate limiter for provider calls
+ * Limits requests and tokens per minute. Callers wait in FIFO order
+ * until the window has room for their request.
+ */
+
+export interface RateLimitConfig {
+  /** Maximum requests per minute (default: unlimited) */
+  requestsPerMinute?: number;
+  /** Maximum tokens per minute (default: unlimited) */
+  tokensPerMinute?: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/** Shortest wait between capacity checks */
+const MIN_WAIT_MS = 50;
+
+interface WindowEntry {
+  at: number;
+  tokens: number;
+  /** False for tokens added by record() */
+  isRequest: boolean;
+}
+
+export class RateLimiter {
+  private entries: WindowEntry[] = [];
+  private turn: Promise<void> = Promise.resolve();
+  private config: RateLimitConfig;
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = config;
+  }
+
+  get isLimited(): boolean {
+    return !!(this.config.requestsPerMinute || this.config.tokensPerMinute);
+  }
+
+  /**
+   * Wait until one request of the given size fits in the window, then count it
+   */
+  acquire(tokens: number): Promise<void> {
+    if (!this.isLimited) {
+      return Promise.resolve();
+    }
+
+    const next = this.turn.then(() => this.waitForCapacity(tokens));
+    this.turn = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Count tokens that were only known after the call (e.g. generated output)
+   */
+  record(tokens: number): void {
+    if (this.isLimited && tokens > 0) {
+      this.entries.push({ at: Date.now(), tokens, isRequest: false });
+    }
+  }
+
+  private async waitForCapacity(tokens: number): Promise<void> {
+    const { requestsPerMinute, tokensPerMinute } = this.config;
+    // A request larger than the whole budget runs once the window is empty
+    const needed = tokensPerMinute ? Math.min(tokens, tokensPerMinute) : 0;
+
+    for (;;) {
+      const now = Date.now();
+      this.entries = this.entries.filter((entry) => entry.at > now - WINDOW_MS);
+
+      const requests = this.entries.filter((entry) => entry.isRequest).length;
+      const used = this.entries.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      const requestsOk = !requestsPerMinute || requests < requestsPerMinute;
+      const tokensOk = !tokensPerMinute || used + needed <= tokensPerMinute;
+
+      if (requestsOk && tokensOk) {
+        this.entries.push({ at: now, tokens, isRequest: true });
+        return;
+      }
+
+      const oldest = this.entries[0];
+      const wait = oldest ? oldest.at + WINDOW_MS - now : MIN_WAIT_MS;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(wait, MIN_WAIT_MS)));
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChromaVectorStore } from "./chroma";
+
+interface Call {
+  method: string;
+  path: string;
+  body: any;
+}
+
+/**
+ * Replace fetch with a responder; returns the requests it receives
+ */
+function mockFetch(respond: (call: Call) => unknown): Call[] {
+  const calls: Call[] = [];
+
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const call = {
+      method: init.method || "GET",
+      path: new URL(url).pathname,
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    };
+    calls.push(call);
+    return new Response(JSON.stringify(respond(call) ?? {}), { status: 200 });
+  });
+
+  return calls;
+}
+
+const COLLECTIONS = "/api/v2/tenants/default_tenant/databases/default_database/collections";
+
+describe("ChromaVectorStore", () => {
+  let store: ChromaVectorStore;
+
+  beforeEach(async () => {
+    mockFetch(() => ({ id: "col-1" }));
+    store = new ChromaVectorStore({ url: "http://chroma:8000", collection: "docs" });
+    await store.initialize(8);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("gets or creates a cosine collection", async () => {
+    const calls = mockFetch(() => ({ id: "col-2" }));
+
+    await new ChromaVectorStore({ url: "http://chroma:8000", collection: "docs" }).initialize(8);
+
+    expect(calls[0]).toEqual({
+      method: "POST",
+      path: COLLECTIONS,
+      body: { name: "docs", metadata: { "hnsw:space": "cosine" }, get_or_create: true },
+    });
+  });
+
+  it("flattens custom metadata and leaves out empty values", async () => {
+    const calls = mockFetch(() => ({}));
+
+    await store.insertMany([
+      {
+        content: "Pro costs $10",
+        embedding: [1, 0],
+        metadata: {
+          id: "emb-1",
+          title: "Pricing",
+          collectionType: "api::page.page",
+          fieldName: "body",
+          locale: null,
+          documentId: null,
+          custom: { chunkIndex: 2, tags: ["nested"] },
+        },
+      },
+    ]);
+
+    expect(calls[0].path).toBe(`${COLLECTIONS}/col-1/add`);
+    expect(calls[0].body.documents).toEqual(["Pro costs $10"]);
+    expect(calls[0].body.metadatas).toEqual([
+      {
+        documentId: "emb-1",
+        title: "Pricing",
+        collectionType: "api::page.page",
+        fieldName: "body",
+        "custom.chunkIndex": "2",
+      },
+    ]);
+  });
+
+  it("maps query results and combines filter clauses", async () => {
+    const calls = mockFetch(() => ({
+      ids: [["r1"]],
+      documents: [["Pro costs $10"]],
+      metadatas: [[{ documentId: "emb-1", title: "Pricing", "custom.chunkIndex": "2" }]],
+      distances: [[0.2]],
+    }));
+
+    const [[document, distance]] = await store.search([1, 0], 3, {
+      locale: ["en", "de"],
+      createdAfter: "2024-01-01",
+    });
+
+    expect(distance).toBe(0.2);
+    expect(document.metadata).toMatchObject({ id: "emb-1", title: "Pricing", custom: { chunkIndex: "2" } });
+    expect(calls[0].body.where).toEqual({
+      $and: [{ locale: { $in: ["en", "de"] } }, { createdAt: { $gte: Date.parse("2024-01-01") } }],
+    });
+  });
+});
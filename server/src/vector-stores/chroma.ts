@@ -0,0 +1,324 @@
+/**
+ * Chroma Vector Store
+ *
+ * Stores vectors in a Chroma collection using the v2 REST API.
+ * The chunk text goes into Chroma's document field; plugin metadata
+ * (documentId, title, collectionType, fieldName) into its metadata,
+ * where `where` filters on documentId back deletes by Strapi entry.
+ * Chroma metadata is flat: custom metadata is stored as `custom.<key>`
+ * text values and dates as epoch milliseconds, so search filters can
+ * use `$in` and range operators.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Document } from "@langchain/core/documents";
+import { createJsonClient, type JsonClient } from "./http";
+import { customMetadataToText, normalizeSearchFilter, type NormalizedSearchFilter } from "./filters";
+import type {
+  ListOptions,
+  SearchFilter,
+  StoredVector,
+  VectorDebugInfo,
+  VectorMetadata,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+interface ChromaMetadata {
+  documentId?: string;
+  title?: string;
+  collectionType?: string;
+  fieldName?: string;
+  contentHash?: string;
+  model?: string;
+  locale?: string;
+  /** documentId of the source content entry (documentId holds the embedding entry) */
+  sourceDocumentId?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  [customKey: `custom.${string}`]: string;
+}
+
+interface ChromaGetResponse {
+  ids: string[];
+  documents?: Array<string | null>;
+  metadatas?: Array<ChromaMetadata | null>;
+  embeddings?: Array<number[] | null>;
+}
+
+interface ChromaQueryResponse {
+  ids: string[][];
+  documents?: Array<Array<string | null>>;
+  metadatas?: Array<Array<ChromaMetadata | null>>;
+  distances?: number[][];
+}
+
+const GET_PAGE_SIZE = 256;
+
+function toMetadata(metadata: ChromaMetadata | null = {}): VectorMetadata {
+  return {
+    id: metadata?.documentId || "",
+    title: metadata?.title || "",
+    collectionType: metadata?.collectionType || "standalone",
+    fieldName: metadata?.fieldName || "content",
+    contentHash: metadata?.contentHash,
+    model: metadata?.model,
+    locale: metadata?.locale ?? null,
+    documentId: metadata?.sourceDocumentId ?? null,
+    createdAt: metadata?.createdAt ? new Date(metadata.createdAt).toISOString() : undefined,
+    updatedAt: metadata?.updatedAt ? new Date(metadata.updatedAt).toISOString() : undefined,
+    custom: Object.fromEntries(
+      Object.entries(metadata || {})
+        .filter(([key]) => key.startsWith("custom."))
+        .map(([key, value]) => [key.slice("custom.".length), value])
+    ),
+  };
+}
+
+function toTimestamp(value: string | undefined): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+/**
+ * Chroma `where` clause for a search filter
+ */
+function buildWhere(filter: NormalizedSearchFilter): Record<string, unknown> {
+  const clauses: Array<Record<string, unknown>> = [];
+  const inList = (key: string, values: string[] | undefined) => {
+    if (values) clauses.push({ [key]: { $in: values } });
+  };
+  const range = (key: string, gte?: string, lte?: string) => {
+    if (gte) clauses.push({ [key]: { $gte: toTimestamp(gte) } });
+    if (lte) clauses.push({ [key]: { $lte: toTimestamp(lte) } });
+  };
+
+  inList("collectionType", filter.collectionTypes);
+  inList("fieldName", filter.fieldNames);
+  inList("locale", filter.locales);
+  inList("sourceDocumentId", filter.documentIds);
+  range("createdAt", filter.createdAfter, filter.createdBefore);
+  range("updatedAt", filter.updatedAfter, filter.updatedBefore);
+
+  for (const [key, values] of Object.entries(filter.metadata || {})) {
+    inList(`custom.${key}`, values);
+  }
+
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+export class ChromaVectorStore implements VectorStore {
+  readonly type = "chroma" as const;
+  private client: JsonClient;
+  private collectionName: string;
+  private collectionsPath: string;
+  private collectionId = "";
+  private dimensions = 1536;
+
+  constructor(options: {
+    url: string;
+    apiKey?: string;
+    collection: string;
+    tenant?: string;
+    database?: string;
+  }) {
+    this.client = createJsonClient(
+      options.url,
+      options.apiKey ? { "x-chroma-token": options.apiKey } : {},
+      "Chroma"
+    );
+    this.collectionName = options.collection;
+    this.collectionsPath =
+      `/api/v2/tenants/${encodeURIComponent(options.tenant || "default_tenant")}` +
+      `/databases/${encodeURIComponent(options.database || "default_database")}/collections`;
+  }
+
+  private get collectionPath(): string {
+    return `${this.collectionsPath}/${this.collectionId}`;
+  }
+
+  async initialize(dimensions: number): Promise<void> {
+    this.dimensions = dimensions;
+    await this.openCollection();
+
+    console.log(`Chroma collection ${this.collectionName} initialized (dimensions: ${this.dimensions})`);
+  }
+
+  /**
+   * Get or create the collection (cosine space) and remember its id
+   */
+  private async openCollection(): Promise<void> {
+    const collection = await this.client.request<{ id: string }>("POST", this.collectionsPath, {
+      name: this.collectionName,
+      metadata: { "hnsw:space": "cosine" },
+      get_or_create: true,
+    });
+
+    if (!collection?.id) {
+      throw new Error(`Chroma did not return an id for collection ${this.collectionName}`);
+    }
+
+    this.collectionId = collection.id;
+  }
+
+  async insert(record: VectorRecord): Promise<string> {
+    const [id] = await this.insertMany([record]);
+    return id;
+  }
+
+  async insertMany(records: VectorRecord[]): Promise<string[]> {
+    const ids = records.map(() => randomUUID());
+    const metadatas: ChromaMetadata[] = records.map((record) => ({
+      documentId: record.metadata.id,
+      title: record.metadata.title,
+      collectionType: record.metadata.collectionType,
+      fieldName: record.metadata.fieldName,
+      // Chroma rejects null metadata values
+      ...(record.metadata.contentHash ? { contentHash: record.metadata.contentHash } : {}),
+      ...(record.metadata.model ? { model: record.metadata.model } : {}),
+      ...(record.metadata.locale ? { locale: record.metadata.locale } : {}),
+      ...(record.metadata.documentId ? { sourceDocumentId: record.metadata.documentId } : {}),
+      ...(record.metadata.createdAt ? { createdAt: toTimestamp(record.metadata.createdAt) } : {}),
+      ...(record.metadata.updatedAt ? { updatedAt: toTimestamp(record.metadata.updatedAt) } : {}),
+      ...Object.fromEntries(
+        Object.entries(customMetadataToText(record.metadata.custom) || {}).map(([key, value]) => [`custom.${key}`, value])
+      ),
+    }));
+
+    await this.client.request("POST", `${this.collectionPath}/add`, {
+      ids,
+      embeddings: records.map((record) => record.embedding),
+      documents: records.map((record) => record.content),
+      metadatas,
+    });
+
+    return ids;
+  }
+
+  async deleteByStrapiId(strapiId: string): Promise<void> {
+    await this.client.request("POST", `${this.collectionPath}/delete`, {
+      where: { documentId: strapiId },
+    });
+  }
+
+  async deleteById(id: string): Promise<void> {
+    await this.client.request("POST", `${this.collectionPath}/delete`, { ids: [id] });
+  }
+
+  async search(embedding: number[], k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const conditions = normalizeSearchFilter(filter);
+    const response = await this.client.request<ChromaQueryResponse>(
+      "POST",
+      `${this.collectionPath}/query`,
+      {
+        query_embeddings: [embedding],
+        n_results: k,
+        include: ["documents", "metadatas", "distances"],
+        ...(conditions ? { where: buildWhere(conditions) } : {}),
+      }
+    );
+
+    const ids = response?.ids[0] || [];
+
+    // Cosine space distances already match pgvector's <=> scale
+    return ids.map((id, i) => [
+      new Document({
+        id,
+        pageContent: response?.documents?.[0]?.[i] || "",
+        metadata: toMetadata(response?.metadatas?.[0]?.[i]),
+      }),
+      response?.distances?.[0]?.[i] ?? 1,
+    ]);
+  }
+
+  /**
+   * Page through every record in the collection
+   */
+  private async getAll(limit?: number, include = ["documents", "metadatas"]): Promise<ChromaGetResponse> {
+    const all: Required<ChromaGetResponse> = { ids: [], documents: [], metadatas: [], embeddings: [] };
+
+    while (!limit || all.ids.length < limit) {
+      const pageSize = limit ? Math.min(limit - all.ids.length, GET_PAGE_SIZE) : GET_PAGE_SIZE;
+      const page = await this.client.request<ChromaGetResponse>("POST", `${this.collectionPath}/get`, {
+        limit: pageSize,
+        offset: all.ids.length,
+        include,
+      });
+
+      const ids = page?.ids || [];
+      ids.forEach((id, i) => {
+        all.ids.push(id);
+        all.documents.push(page?.documents?.[i] ?? null);
+        all.metadatas.push(page?.metadatas?.[i] ?? null);
+        all.embeddings.push(page?.embeddings?.[i] ?? null);
+      });
+
+      if (ids.length < pageSize) {
+        break;
+      }
+    }
+
+    return all;
+  }
+
+  async list(options: ListOptions = {}): Promise<StoredVector[]> {
+    const result = await this.getAll(
+      undefined,
+      options.includeContent === false ? ["metadatas"] : ["documents", "metadatas"]
+    );
+
+    return result.ids.map((id, i) => {
+      const metadata = toMetadata(result.metadatas?.[i]);
+      return {
+        id,
+        strapiId: metadata.id,
+        title: metadata.title,
+        content: result.documents?.[i] || '',
+        collectionType: metadata.collectionType,
+        fieldName: metadata.fieldName,
+        contentHash: metadata.contentHash || null,
+        model: metadata.model || null,
+      };
+    });
+  }
+
+  async clear(): Promise<number> {
+    const count = await this.client.request<number>("GET", `${this.collectionPath}/count`);
+
+    // Dropping and recreating the collection is faster than deleting every record
+    await this.client.request(
+      "DELETE",
+      `${this.collectionsPath}/${encodeURIComponent(this.collectionName)}`
+    );
+    await this.openCollection();
+
+    return count || 0;
+  }
+
+  async drop(): Promise<void> {
+    await this.client.request(
+      "DELETE",
+      `${this.collectionsPath}/${encodeURIComponent(this.collectionName)}`
+    );
+  }
+
+  async debug(): Promise<VectorDebugInfo[]> {
+    const result = await this.getAll(20, ["documents", "metadatas", "embeddings"]);
+
+    return result.ids.map((id, i) => {
+      const content = result.documents?.[i] || '';
+      const embedding = result.embeddings?.[i];
+      return {
+        id,
+        content: content.substring(0, 200) + (content.length > 200 ? '...' : ''),
+        metadata: result.metadatas?.[i],
+        metadataType: "metadata",
+        hasEmbedding: Array.isArray(embedding),
+        embeddingLength: Array.isArray(embedding) ? embedding.length : 0,
+      };
+    });
+  }
+
+  async destroy(): Promise<void> {
+    // Stateless HTTP client, nothing to release
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { customMetadataToText, matchesFilter, normalizeSearchFilter } from "./filters";
+import type { VectorMetadata } from "./types";
+
+describe("normalizeSearchFilter", () => {
+  it("returns null for missing and empty filters", () => {
+    expect(normalizeSearchFilter(undefined)).toBeNull();
+    expect(normalizeSearchFilter({})).toBeNull();
+    expect(normalizeSearchFilter({ collectionType: "", locale: [], metadata: {} })).toBeNull();
+  });
+
+  it("turns single values into lists, dates into ISO strings and metadata values into text", () => {
+    expect(
+      normalizeSearchFilter({
+        collectionType: "api::article.article",
+        locale: ["en", "de"],
+        createdAfter: "2024-01-01",
+        metadata: { chunkIndex: 0, featured: [true, false] },
+      })
+    ).toEqual({
+      collectionTypes: ["api::article.article"],
+      fieldNames: undefined,
+      locales: ["en", "de"],
+      documentIds: undefined,
+      createdAfter: "2024-01-01T00:00:00.000Z",
+      createdBefore: undefined,
+      updatedAfter: undefined,
+      updatedBefore: undefined,
+      metadata: { chunkIndex: ["0"], featured: ["true", "false"] },
+    });
+  });
+
+  it("rejects invalid dates and metadata keys", () => {
+    expect(() => normalizeSearchFilter({ updatedBefore: "yesterday" })).toThrow('Invalid date for updatedBefore: "yesterday"');
+    expect(() => normalizeSearchFilter({ metadata: { "a.b": "x" } })).toThrow('Invalid metadata filter key "a.b"');
+  });
+});
+
+describe("customMetadataToText", () => {
+  it("keeps scalar values as text and leaves out nested ones", () => {
+    expect(customMetadataToText({ chunkIndex: 2, draft: false, tag: "faq", tags: ["a"], empty: null })).toEqual({
+      chunkIndex: "2",
+      draft: "false",
+      tag: "faq",
+    });
+    expect(customMetadataToText(undefined)).toBeUndefined();
+  });
+});
+
+describe("matchesFilter", () => {
+  const metadata: VectorMetadata = {
+    id: "emb-1",
+    title: "Pricing",
+    collectionType: "api::page.page",
+    fieldName: "body",
+    locale: "en",
+    documentId: "page-1",
+    createdAt: "2024-03-01T12:00:00.000Z",
+    custom: { chunkIndex: 2, audience: "public" },
+  };
+  const matches = (filter: Parameters<typeof normalizeSearchFilter>[0]) =>
+    matchesFilter(metadata, normalizeSearchFilter(filter)!);
+
+  it("matches when every condition holds", () => {
+    expect(
+      matches({
+        collectionType: ["api::page.page", "api::article.article"],
+        locale: "en",
+        documentIds: ["page-1"],
+        createdAfter: "2024-03-01",
+        createdBefore: "2024-03-02",
+        metadata: { chunkIndex: 2, audience: ["public", "partners"] },
+      })
+    ).toBe(true);
+  });
+
+  it("rejects entries failing any condition", () => {
+    expect(matches({ locale: "de" })).toBe(false);
+    expect(matches({ createdAfter: "2024-03-02" })).toBe(false);
+    expect(matches({ metadata: { chunkIndex: 3 } })).toBe(false);
+  });
+
+  it("rejects entries without the filtered value", () => {
+    expect(matches({ updatedAfter: "2024-01-01" })).toBe(false);
+    expect(matches({ metadata: { missing: "x" } })).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Search filters shared by the vector stores
+ *
+ * Filters arrive from query strings, MCP tools and code, so they are
+ * normalized once: single values become lists, dates become ISO strings
+ * and custom metadata values become text. Each store then translates the
+ * normalized filter into its own query language.
+ */
+
+import type { MetadataFilterValue, SearchFilter, VectorMetadata } from "./types";
+
+export interface NormalizedSearchFilter {
+  collectionTypes?: string[];
+  fieldNames?: string[];
+  locales?: string[];
+  documentIds?: string[];
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  /** Accepted text values per custom metadata key */
+  metadata?: Record<string, string[]>;
+}
+
+/** Custom metadata keys usable in every store (SQLite JSON paths, Chroma keys) */
+const METADATA_KEY_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const list = (Array.isArray(value) ? value : [value]).map(String).filter((item) => item !== "");
+  return list.length > 0 ? list : undefined;
+}
+
+function toIsoDate(value: string | undefined, name: string): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${name}: "${value}"`);
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Validate a filter and bring it into the form the stores expect.
+ * Returns null when it has no conditions.
+ */
+export function normalizeSearchFilter(filter?: SearchFilter | null): NormalizedSearchFilter | null {
+  if (!filter) {
+    return null;
+  }
+
+  const normalized: NormalizedSearchFilter = {
+    collectionTypes: toList(filter.collectionType),
+    fieldNames: toList(filter.fieldName),
+    locales: toList(filter.locale),
+    documentIds: toList(filter.documentIds),
+    createdAfter: toIsoDate(filter.createdAfter, "createdAfter"),
+    createdBefore: toIsoDate(filter.createdBefore, "createdBefore"),
+    updatedAfter: toIsoDate(filter.updatedAfter, "updatedAfter"),
+    updatedBefore: toIsoDate(filter.updatedBefore, "updatedBefore"),
+  };
+
+  if (filter.metadata && Object.keys(filter.metadata).length > 0) {
+    normalized.metadata = {};
+
+    for (const [key, value] of Object.entries(filter.metadata)) {
+      if (!METADATA_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid metadata filter key "${key}". Use letters, digits, "_" and "-".`);
+      }
+
+      const values = (Array.isArray(value) ? value : [value]).map((item: MetadataFilterValue) => String(item));
+      if (values.length > 0) {
+        normalized.metadata[key] = values;
+      }
+    }
+  }
+
+  const hasConditions = Object.values(normalized).some(
+    (value) => value !== undefined && (typeof value !== "object" || Object.keys(value).length > 0)
+  );
+
+  return hasConditions ? normalized : null;
+}
+
+/**
+ * Text form of a custom metadata value, as used for filtering
+ */
+export function metadataValueToText(value: unknown): string | null {
+  if (value === undefined || value === null || typeof value === "object") {
+    return null;
+  }
+  return String(value);
+}
+
+/**
+ * Scalar custom metadata as text, for stores that match payload values exactly.
+ * Nested values cannot be filtered and are left out.
+ */
+export function customMetadataToText(custom: Record<string, unknown> | undefined): Record<string, string> | undefined {
+  if (!custom) {
+    return undefined;
+  }
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(custom)) {
+    const text = metadataValueToText(value);
+    if (text !== null) {
+      values[key] = text;
+    }
+  }
+  return values;
+}
+
+/**
+ * Check a vector's metadata against a filter, for stores that search in-process
+ */
+export function matchesFilter(metadata: VectorMetadata, filter: NormalizedSearchFilter): boolean {
+  const oneOf = (allowed: string[] | undefined, value: string | null | undefined) =>
+    !allowed || (value !== undefined && value !== null && allowed.includes(value));
+
+  if (!oneOf(filter.collectionTypes, metadata.collectionType)) return false;
+  if (!oneOf(filter.fieldNames, metadata.fieldName)) return false;
+  if (!oneOf(filter.locales, metadata.locale)) return false;
+  if (!oneOf(filter.documentIds, metadata.documentId)) return false;
+
+  // ISO strings in UTC compare in date order
+  const createdAt = metadata.createdAt ? new Date(metadata.createdAt).toISOString() : null;
+  const updatedAt = metadata.updatedAt ? new Date(metadata.updatedAt).toISOString() : null;
+  if (filter.createdAfter && (!createdAt || createdAt < filter.createdAfter)) return false;
+  if (filter.createdBefore && (!createdAt || createdAt > filter.createdBefore)) return false;
+  if (filter.updatedAfter && (!updatedAt || updatedAt < filter.updatedAfter)) return false;
+  if (filter.updatedBefore && (!updatedAt || updatedAt > filter.updatedBefore)) return false;
+
+  for (const [key, values] of Object.entries(filter.metadata || {})) {
+    if (!oneOf(values, metadataValueToText(metadata.custom?.[key]))) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,49 @@
+/**
+ * Small JSON-over-HTTP client for the REST-based vector stores
+ */
+
+export interface JsonClient {
+  /**
+   * Send a request and parse the JSON response.
+   * Returns null for 404 when `allowNotFound` is set; other non-2xx responses throw.
+   */
+  request<T = any>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options?: { allowNotFound?: boolean }
+  ): Promise<T | null>;
+}
+
+export function createJsonClient(
+  baseUrl: string,
+  headers: Record<string, string> = {},
+  name = "Vector store"
+): JsonClient {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  return {
+    async request(method, path, body, options) {
+      const response = await fetch(`${root}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      if (response.status === 404 && options?.allowNotFound) {
+        return null;
+      }
+
+      const text = await response.text();
+
+      if (!response.ok) {
+        throw new Error(`${name} request ${method} ${path} failed (${response.status}): ${text}`);
+      }
+
+      return text ? JSON.parse(text) : ({} as any);
+    },
+  };
+}
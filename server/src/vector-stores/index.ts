@@ -0,0 +1,132 @@
+/**
+ * Vector Store Factory
+ *
+ * Resolves the plugin config into a vector store backend.
+ * The legacy neonConnectionString option maps onto the "postgres" backend.
+ */
+
+import { resolve } from "node:path";
+import type { Core } from "@strapi/strapi";
+import { VECTOR_STORE_TYPES, type PluginConfigSchema } from "../config";
+import type { ResolvedVectorStoreConfig, VectorStore } from "./types";
+import { PgVectorStore, createKnexClient, createPoolClient } from "./pgvector";
+import { SqliteVectorStore } from "./sqlite";
+import { MemoryVectorStore } from "./memory";
+import { QdrantVectorStore } from "./qdrant";
+import { ChromaVectorStore } from "./chroma";
+
+export type {
+  VectorStore,
+  VectorStoreType,
+  VectorStoreConfig,
+  ResolvedVectorStoreConfig,
+  VectorMetadata,
+  VectorRecord,
+  StoredVector,
+  ListOptions,
+  VectorDebugInfo,
+  SearchFilter,
+  MetadataFilterValue,
+} from "./types";
+
+/**
+ * Apply defaults and legacy fallbacks to the vector store config
+ */
+export function resolveVectorStoreConfig(config: PluginConfigSchema): ResolvedVectorStoreConfig {
+  const storeConfig = config.vectorStore || {};
+
+  return {
+    ...storeConfig,
+    type: storeConfig.type || "postgres",
+    connectionString: storeConfig.connectionString || config.neonConnectionString,
+    tableName: storeConfig.tableName || "embeddings_documents",
+  };
+}
+
+/**
+ * Check whether the vector store has what it needs to connect
+ */
+export function isVectorStoreConfigured(config: PluginConfigSchema): boolean {
+  const resolved = resolveVectorStoreConfig(config);
+
+  if (resolved.type === "postgres") {
+    return !!resolved.connectionString;
+  }
+  if (resolved.type === "qdrant" || resolved.type === "chroma") {
+    return !!resolved.url;
+  }
+
+  return VECTOR_STORE_TYPES.includes(resolved.type);
+}
+
+/**
+ * Create the vector store backend for a resolved config
+ */
+export function createVectorStore(
+  config: ResolvedVectorStoreConfig,
+  strapi: Core.Strapi
+): VectorStore {
+  switch (config.type) {
+    case "postgres":
+      if (!config.connectionString) {
+        throw new Error('The "postgres" vector store requires a connection string');
+      }
+      return new PgVectorStore(
+        "postgres",
+        createPoolClient({
+          connectionString: config.connectionString,
+          ssl: config.ssl,
+          poolSize: config.poolSize,
+        }),
+        config.tableName
+      );
+
+    case "strapi":
+      if (strapi.db.dialect.client !== "postgres") {
+        throw new Error(
+          `The "strapi" vector store requires a PostgreSQL Strapi database (found "${strapi.db.dialect.client}")`
+        );
+      }
+      return new PgVectorStore("strapi", createKnexClient(strapi.db.connection), config.tableName);
+
+    case "sqlite":
+      if (strapi.db.dialect.client !== "sqlite") {
+        throw new Error(
+          `The "sqlite" vector store requires a SQLite Strapi database (found "${strapi.db.dialect.client}")`
+        );
+      }
+      return new SqliteVectorStore(strapi.db.connection, config.tableName);
+
+    case "memory":
+      return new MemoryVectorStore(
+        config.snapshotPath ? resolve(strapi.dirs.app.root, config.snapshotPath) : undefined
+      );
+
+    case "qdrant":
+      if (!config.url) {
+        throw new Error('The "qdrant" vector store requires a url');
+      }
+      return new QdrantVectorStore({
+        url: config.url,
+        apiKey: config.apiKey,
+        collection: config.tableName,
+      });
+
+    case "chroma":
+      if (!config.url) {
+        throw new Error('The "chroma" vector store requires a url');
+      }
+      return new ChromaVectorStore({
+        url: config.url,
+        apiKey: config.apiKey,
+        collection: config.tableName,
+        tenant: config.tenant,
+        database: config.database,
+      });
+
+    default:
+      throw new Error(
+        `Unknown vector store "${config.type}". Valid options: ${VECTOR_STORE_TYPES.join(", ")}`
+      );
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { keywordScore, rankByKeywords, tokenize } from "./keyword";
+
+describe("tokenize", () => {
+  it("lowercases words and numbers and drops punctuation", () => {
+    expect(tokenize("Hello, World! Version 2.")).toEqual(["hello", "world", "version", "2"]);
+  });
+
+  it("keeps hyphenated words and their parts", () => {
+    expect(tokenize("Part AB-1234")).toEqual(["part", "ab-1234", "ab", "1234"]);
+  });
+
+  it("keeps letters outside ASCII", () => {
+    expect(tokenize("Größe café")).toEqual(["größe", "café"]);
+  });
+});
+
+describe("keywordScore", () => {
+  it("is 0 without a matching word", () => {
+    expect(keywordScore("nothing here", new Set(["other"]))).toBe(0);
+  });
+
+  it("scores every distinct matching word", () => {
+    expect(keywordScore("red and blue", new Set(["red", "blue"]))).toBe(2);
+  });
+
+  it("gives repeated words diminishing returns", () => {
+    const terms = new Set(["red"]);
+
+    expect(keywordScore("red red", terms)).toBeCloseTo(1 + Math.log(2));
+    expect(keywordScore("red red", terms)).toBeLessThan(keywordScore("red blue", new Set(["red", "blue"])));
+  });
+});
+
+describe("rankByKeywords", () => {
+  const texts = ["apples and pears", "pears", "plums", "apples, pears and more pears"];
+
+  it("ranks matching texts best first and drops the others", () => {
+    expect(rankByKeywords(texts, (text) => text, "apples pears", 10).map(([text]) => text)).toEqual([
+      "apples, pears and more pears",
+      "apples and pears",
+      "pears",
+    ]);
+  });
+
+  it("returns at most k texts", () => {
+    expect(rankByKeywords(texts, (text) => text, "pears", 2)).toHaveLength(2);
+  });
+
+  it("returns nothing for a query without words", () => {
+    expect(rankByKeywords(texts, (text) => text, "?!", 10)).toEqual([]);
+  });
+});
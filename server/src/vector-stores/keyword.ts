@@ -0,0 +1,64 @@
+/**
+ * Keyword scoring for the stores that search in-process
+ *
+ * A lightweight stand-in for PostgreSQL full-text search: texts are split
+ * into lowercase words, and a text scores for every distinct query word it
+ * contains, with diminishing returns for repeats.
+ */
+
+/**
+ * Lowercase words and numbers; "AB-1234" yields "ab-1234", "ab" and "1234"
+ * like PostgreSQL's parser does for hyphenated words
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/gu) || []) {
+    tokens.push(word);
+    if (word.includes("-")) {
+      tokens.push(...word.split("-"));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Score a text against query terms (0 = no match)
+ */
+export function keywordScore(text: string, queryTerms: Set<string>): number {
+  const counts = new Map<string, number>();
+
+  for (const token of tokenize(text)) {
+    if (queryTerms.has(token)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+  }
+
+  let score = 0;
+  for (const count of counts.values()) {
+    score += 1 + Math.log(count);
+  }
+  return score;
+}
+
+/**
+ * Rank texts by keyword score, best first, dropping texts without a match
+ */
+export function rankByKeywords<T>(
+  items: T[],
+  text: (item: T) => string,
+  query: string,
+  k: number
+): Array<[T, number]> {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) {
+    return [];
+  }
+
+  return items
+    .map((item): [T, number] => [item, keywordScore(text(item), queryTerms)])
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, k);
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryVectorStore } from "./memory";
+import type { VectorMetadata, VectorRecord } from "./types";
+
+const record = (
+  id: string,
+  embedding: number[],
+  metadata: Partial<VectorMetadata> = {}
+): VectorRecord => ({
+  content: `${id} content`,
+  metadata: { id, title: id, collectionType: "api::page.page", fieldName: "body", ...metadata },
+  embedding,
+});
+
+const searchIds = async (
+  store: MemoryVectorStore,
+  ...args: Parameters<MemoryVectorStore["search"]>
+) => (await store.search(...args)).map(([document]) => document.metadata.id);
+
+describe("MemoryVectorStore", () => {
+  it("returns the nearest vectors first and skips other dimensions", async () => {
+    const store = new MemoryVectorStore();
+    await store.initialize(3);
+    await store.insertMany([
+      record("far", [0, 0, 1]),
+      record("near", [1, 0.1, 0]),
+      record("exact", [2, 0, 0]),
+      record("old-model", [1, 0, 0, 0]),
+    ]);
+
+    const results = await store.search([1, 0, 0], 10);
+
+    expect(results.map(([document]) => document.metadata.id)).toEqual(["exact", "near", "far"]);
+    expect(results[0][1]).toBeCloseTo(0);
+  });
+
+  it("filters search and keyword results", async () => {
+    const store = new MemoryVectorStore();
+    await store.initialize(3);
+    await store.insertMany([
+      record("en", [1, 0, 0], { locale: "en", custom: { draft: false } }),
+      record("de", [1, 0, 0], { locale: "de", custom: { draft: true } }),
+      record("article", [1, 0, 0], { collectionType: "api::article.article", locale: "en" }),
+    ]);
+
+    expect(
+      await searchIds(store, [1, 0, 0], 10, { collectionType: "api::page.page", locale: "en" })
+    ).toEqual(["en"]);
+    expect(await searchIds(store, [1, 0, 0], 10, { metadata: { draft: true } })).toEqual(["de"]);
+    expect(
+      (await store.keywordSearch("content", 10, { locale: "de" })).map(
+        ([document]) => document.metadata.id
+      )
+    ).toEqual(["de"]);
+  });
+
+  it("deletes the vectors of a Strapi entry", async () => {
+    const store = new MemoryVectorStore();
+    await store.initialize(3);
+    await store.insertMany([
+      record("emb-1", [1, 0, 0]),
+      record("emb-1", [0, 1, 0]),
+      record("emb-2", [0, 0, 1]),
+    ]);
+
+    await store.deleteByStrapiId("emb-1");
+
+    expect((await store.list()).map(({ strapiId }) => strapiId)).toEqual(["emb-2"]);
+  });
+
+  describe("snapshots", () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "memory-store-"));
+      path = join(dir, "nested", "vectors.json");
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("writes every change and loads it into a new store", async () => {
+      const store = new MemoryVectorStore(path);
+      await store.initialize(3);
+      await store.insertMany([record("emb-1", [1, 0, 0]), record("emb-2", [0, 1, 0])]);
+      await store.deleteByStrapiId("emb-2");
+      await store.destroy();
+
+      const restored = new MemoryVectorStore(path);
+      await restored.initialize(3);
+
+      expect(await searchIds(restored, [1, 0, 0], 10)).toEqual(["emb-1"]);
+      expect(JSON.parse(await readFile(path, "utf8"))).toMatchObject({ version: 1, dimensions: 3 });
+    });
+
+    it("starts empty without a snapshot file", async () => {
+      const store = new MemoryVectorStore(path);
+      await store.initialize(3);
+
+      expect(await store.list()).toEqual([]);
+    });
+
+    it("refuses a corrupt snapshot instead of overwriting it", async () => {
+      await writeFile(join(dir, "vectors.json"), "{ not json");
+      const store = new MemoryVectorStore(join(dir, "vectors.json"));
+
+      await expect(store.initialize(3)).rejects.toThrow(/is not valid JSON/);
+      expect(await readFile(join(dir, "vectors.json"), "utf8")).toBe("{ not json");
+    });
+
+    it("warns about a snapshot made for other dimensions", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const store = new MemoryVectorStore(path);
+      await store.initialize(3);
+      await store.insert(record("emb-1", [1, 0, 0]));
+      await store.destroy();
+
+      await new MemoryVectorStore(path).initialize(8);
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("has dimensions 3, expected 8"));
+    });
+
+    it("removes the snapshot when dropped", async () => {
+      const store = new MemoryVectorStore(path);
+      await store.initialize(3);
+      await store.insert(record("emb-1", [1, 0, 0]));
+
+      await store.drop();
+
+      await expect(readFile(path, "utf8")).rejects.toThrow(/ENOENT/);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * In-Memory Vector Store
+ *
+ * Keeps vectors in process memory for unit tests and small demo sites.
+ * With a snapshot path the index is loaded from a JSON file on startup
+ * and written back after every change, so it survives restarts.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { Document } from "@langchain/core/documents";
+import { cosineDistance, nearest } from "./similarity";
+import { matchesFilter, normalizeSearchFilter } from "./filters";
+import { rankByKeywords } from "./keyword";
+import type {
+  ListOptions,
+  SearchFilter,
+  StoredVector,
+  VectorDebugInfo,
+  VectorMetadata,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+interface MemoryVector {
+  id: string;
+  content: string;
+  metadata: VectorMetadata;
+  embedding: number[];
+}
+
+interface Snapshot {
+  version: 1;
+  dimensions: number;
+  vectors: MemoryVector[];
+}
+
+export class MemoryVectorStore implements VectorStore {
+  readonly type = "memory" as const;
+  private vectors = new Map<string, MemoryVector>();
+  private snapshotPath?: string;
+  private dimensions = 1536;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(snapshotPath?: string) {
+    this.snapshotPath = snapshotPath;
+  }
+
+  async initialize(dimensions: number): Promise<void> {
+    this.dimensions = dimensions;
+
+    if (this.snapshotPath) {
+      await this.load(this.snapshotPath);
+    }
+
+    console.log(`In-memory vector store initialized (${this.vectors.size} vectors, dimensions: ${this.dimensions})`);
+  }
+
+  /**
+   * Replace the current vectors with the contents of a snapshot file.
+   * A missing file is treated as an empty index. A corrupt one is an error, so
+   * the next write does not replace it with an empty index.
+   */
+  async load(path: string): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(path, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    let snapshot: Snapshot;
+    try {
+      snapshot = JSON.parse(raw);
+    } catch (error: any) {
+      throw new Error(`Vector snapshot ${path} is not valid JSON: ${error.message}`);
+    }
+
+    if (snapshot.dimensions !== this.dimensions) {
+      console.warn(
+        `Vector snapshot ${path} has dimensions ${snapshot.dimensions}, expected ${this.dimensions}. ` +
+        `Mismatched vectors are ignored by search; run "Recreate All" to rebuild them.`
+      );
+    }
+
+    this.vectors = new Map((snapshot.vectors || []).map((vector) => [vector.id, vector]));
+  }
+
+  /**
+   * Write all vectors to a snapshot file (via a temp file, so a crash
+   * mid-write never leaves a truncated snapshot behind)
+   */
+  async save(path: string): Promise<void> {
+    const snapshot: Snapshot = {
+      version: 1,
+      dimensions: this.dimensions,
+      vectors: [...this.vectors.values()],
+    };
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(snapshot));
+    await rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * Queue a snapshot write after a change. Writes run one at a time.
+   */
+  private persist(): Promise<void> {
+    const path = this.snapshotPath;
+    if (!path) {
+      return Promise.resolve();
+    }
+
+    this.pendingSave = this.pendingSave
+      .catch(() => {})
+      .then(() => this.save(path));
+
+    return this.pendingSave;
+  }
+
+  async insert(record: VectorRecord): Promise<string> {
+    const [id] = await this.insertMany([record]);
+    return id;
+  }
+
+  async insertMany(records: VectorRecord[]): Promise<string[]> {
+    const ids = records.map((record) => {
+      const id = randomUUID();
+      this.vectors.set(id, {
+        id,
+        content: record.content,
+        metadata: record.metadata,
+        embedding: record.embedding,
+      });
+      return id;
+    });
+    await this.persist();
+
+    return ids;
+  }
+
+  async deleteByStrapiId(strapiId: string): Promise<void> {
+    for (const [id, vector] of this.vectors) {
+      if (vector.metadata.id === strapiId) {
+        this.vectors.delete(id);
+      }
+    }
+    await this.persist();
+  }
+
+  async deleteById(id: string): Promise<void> {
+    this.vectors.delete(id);
+    await this.persist();
+  }
+
+  async search(embedding: number[], k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const conditions = normalizeSearchFilter(filter);
+    const scored: Array<[Document, number]> = [];
+
+    for (const vector of this.vectors.values()) {
+      // Vectors from a model with different dimensions cannot be compared
+      if (vector.embedding.length !== embedding.length) {
+        continue;
+      }
+
+      if (conditions && !matchesFilter(vector.metadata, conditions)) {
+        continue;
+      }
+
+      scored.push([
+        new Document({ id: vector.id, pageContent: vector.content, metadata: { ...vector.metadata } }),
+        cosineDistance(embedding, vector.embedding),
+      ]);
+    }
+
+    return nearest(scored, k);
+  }
+
+  async keywordSearch(query: string, k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const conditions = normalizeSearchFilter(filter);
+    const candidates = [...this.vectors.values()].filter(
+      (vector) => !conditions || matchesFilter(vector.metadata, conditions)
+    );
+
+    return rankByKeywords(candidates, (vector) => `${vector.metadata.title || ""} ${vector.content}`, query, k).map(
+      ([vector, score]) => [
+        new Document({ id: vector.id, pageContent: vector.content, metadata: { ...vector.metadata } }),
+        score,
+      ]
+    );
+  }
+
+  async list(options: ListOptions = {}): Promise<StoredVector[]> {
+    return [...this.vectors.values()]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((vector) => ({
+        id: vector.id,
+        strapiId: vector.metadata.id,
+        title: vector.metadata.title || '',
+        content: options.includeContent === false ? '' : vector.content || '',
+        collectionType: vector.metadata.collectionType || 'standalone',
+        fieldName: vector.metadata.fieldName || 'content',
+        contentHash: vector.metadata.contentHash || null,
+        model: vector.metadata.model || null,
+      }));
+  }
+
+  async clear(): Promise<number> {
+    const count = this.vectors.size;
+    this.vectors.clear();
+    await this.persist();
+    return count;
+  }
+
+  async drop(): Promise<void> {
+    this.vectors.clear();
+    await this.pendingSave.catch(() => {});
+    if (this.snapshotPath) {
+      await rm(this.snapshotPath, { force: true });
+    }
+  }
+
+  async debug(): Promise<VectorDebugInfo[]> {
+    return [...this.vectors.values()]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .slice(0, 20)
+      .map((vector) => ({
+        id: vector.id,
+        content: vector.content.substring(0, 200) + (vector.content.length > 200 ? '...' : ''),
+        metadata: vector.metadata,
+        metadataType: "object",
+        hasEmbedding: vector.embedding.length > 0,
+        embeddingLength: vector.embedding.length,
+      }));
+  }
+
+  async destroy(): Promise<void> {
+    await this.pendingSave.catch(() => {});
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { MAX_HNSW_DIMENSIONS, migrateVectorTable, VECTOR_MIGRATIONS } from "./migrations";
+import { PgVectorStore, type SqlClient } from "./pgvector";
+import { PluginManager } from "../plugin-manager";
+import { getTargetTableName } from "../services/model-migration";
+
+/**
+ * SQL client that records queries. appliedVersions are reported by the
+ * migration table; queries containing fail.on throw fail.message.
+ */
+function createClient(
+  options: { appliedVersions?: number[]; columnType?: string; fail?: { on: string; message: string } } = {}
+) {
+  const queries: string[] = [];
+
+  const client: SqlClient = {
+    async query(sql: string) {
+      queries.push(sql);
+
+      if (options.fail && sql.includes(options.fail.on)) {
+        throw new Error(options.fail.message);
+      }
+      if (sql.startsWith("SELECT version")) {
+        return { rows: (options.appliedVersions || []).map((version) => ({ version })), rowCount: null };
+      }
+      if (sql.includes("format_type")) {
+        return { rows: [{ column_type: options.columnType || "vector(8)" }], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    },
+    async end() {},
+  };
+
+  return { client, queries };
+}
+
+describe("migrateVectorTable", () => {
+  it("applies every migration to a new table, each as one query that records its version", async () => {
+    const { client, queries } = createClient();
+
+    const applied = await migrateVectorTable(client, "docs", 8);
+
+    expect(applied).toEqual(VECTOR_MIGRATIONS.map((migration) => migration.version));
+
+    const migrationQueries = queries.filter((sql) => sql.includes("pg_advisory_xact_lock"));
+    expect(migrationQueries).toHaveLength(VECTOR_MIGRATIONS.length);
+    expect(migrationQueries[0]).toContain("embedding vector(8)");
+    expect(migrationQueries[0]).toContain("INSERT INTO docs_migrations (version, name) VALUES (1, 'create_table')");
+  });
+
+  it("creates the HNSW index for vectors pgvector can index", async () => {
+    const { client, queries } = createClient({ columnType: `vector(${MAX_HNSW_DIMENSIONS})` });
+
+    await migrateVectorTable(client, "docs", MAX_HNSW_DIMENSIONS);
+
+    expect(queries.some((sql) => sql.includes("docs_embedding_hnsw_idx"))).toBe(true);
+  });
+
+  it("creates a 3072-dimension table without the HNSW index pgvector would reject", async () => {
+    const { client, queries } = createClient({
+      columnType: "vector(3072)",
+      fail: { on: "USING hnsw", message: "column cannot have more than 2000 dimensions for hnsw index" },
+    });
+
+    expect(await migrateVectorTable(client, "docs", 3072)).toEqual(
+      VECTOR_MIGRATIONS.map((migration) => migration.version)
+    );
+    expect(queries.some((sql) => sql.includes("embedding vector(3072)"))).toBe(true);
+    expect(queries.some((sql) => sql.includes("hnsw"))).toBe(false);
+  });
+
+  it("attaches a 3072-dimension model migration target as the shadow index", async () => {
+    const table = getTargetTableName("docs", "text-embedding-3-large");
+    const { client, queries } = createClient({
+      columnType: "vector(3072)",
+      fail: { on: "USING hnsw", message: "column cannot have more than 2000 dimensions for hnsw index" },
+    });
+    const manager = new PluginManager();
+
+    await manager.attachShadowIndex(new PgVectorStore("postgres", client, table), {
+      provider: "fake",
+      model: "text-embedding-3-large",
+      dimensions: 3072,
+    });
+
+    expect(manager.getShadowModel()).toEqual({ provider: "fake", model: "text-embedding-3-large", dimensions: 3072 });
+    expect(queries.some((sql) => sql.includes(`CREATE TABLE IF NOT EXISTS ${table}`))).toBe(true);
+  });
+
+  it("skips versions that are already applied", async () => {
+    const { client, queries } = createClient({ appliedVersions: [1, 2] });
+
+    expect(await migrateVectorTable(client, "docs", 8)).toEqual([3]);
+    expect(queries.some((sql) => sql.includes("CREATE TABLE IF NOT EXISTS docs ("))).toBe(false);
+  });
+
+  it("stops at a failed migration and names it", async () => {
+    const { client, queries } = createClient({
+      appliedVersions: [1],
+      fail: { on: "ADD COLUMN IF NOT EXISTS strapi_id", message: "permission denied" },
+    });
+
+    await expect(migrateVectorTable(client, "docs", 8)).rejects.toThrow(
+      "Vector table migration 2 (add_columns) failed on docs: permission denied"
+    );
+    expect(queries.some((sql) => sql.includes("search_vector"))).toBe(false);
+  });
+
+  it("explains a missing pgvector extension", async () => {
+    const { client } = createClient({
+      fail: { on: "CREATE EXTENSION", message: 'extension "vector" is not available' },
+    });
+
+    await expect(migrateVectorTable(client, "docs", 8)).rejects.toThrow(/pgvector extension must be installed/);
+  });
+
+  it("rejects a table made for other dimensions", async () => {
+    const { client } = createClient({ appliedVersions: [1, 2, 3], columnType: "vector(1536)" });
+
+    await expect(migrateVectorTable(client, "docs", 8)).rejects.toThrow(/stores 1536-dimension vectors/);
+  });
+});
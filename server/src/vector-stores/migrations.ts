@@ -0,0 +1,158 @@
+/**
+ * Versioned migrations for the pgvector table
+ *
+ * Applied versions are recorded in `<table>_migrations`. Each migration is
+ * sent as one multi-statement query, which PostgreSQL runs as a single
+ * transaction: a failed migration leaves the table at the previous version.
+ */
+
+import type { SqlClient } from "./pgvector";
+
+export interface VectorMigration {
+  version: number;
+  name: string;
+  /** Statements for the given table and vector dimensions */
+  up(table: string, dimensions: number): string[];
+}
+
+/** pgvector cannot build an HNSW index on vectors with more dimensions */
+export const MAX_HNSW_DIMENSIONS = 2000;
+
+export const VECTOR_MIGRATIONS: VectorMigration[] = [
+  {
+    version: 1,
+    name: "create_table",
+    up: (table, dimensions) => [
+      "CREATE EXTENSION IF NOT EXISTS vector",
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        content TEXT,
+        metadata JSONB,
+        embedding vector(${dimensions})
+      )`,
+      // IVFFlat indexes from earlier versions give poor results on small tables
+      `DROP INDEX IF EXISTS ${table}_embedding_idx`,
+      // Larger vectors (e.g. text-embedding-3-large) are searched without an index
+      ...(dimensions <= MAX_HNSW_DIMENSIONS
+        ? [`CREATE INDEX IF NOT EXISTS ${table}_embedding_hnsw_idx ON ${table} USING hnsw (embedding vector_cosine_ops)`]
+        : []),
+      `CREATE INDEX IF NOT EXISTS ${table}_metadata_idx ON ${table} USING gin (metadata)`,
+    ],
+  },
+  {
+    version: 2,
+    name: "add_columns",
+    up: (table) => [
+      `ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS strapi_id TEXT,
+        ADD COLUMN IF NOT EXISTS locale TEXT,
+        ADD COLUMN IF NOT EXISTS content_hash TEXT,
+        ADD COLUMN IF NOT EXISTS model TEXT,
+        ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now()`,
+      `UPDATE ${table} SET
+        strapi_id = metadata->>'id',
+        locale = metadata->>'locale',
+        content_hash = metadata->>'contentHash',
+        model = metadata->>'model'
+      WHERE strapi_id IS NULL`,
+      `CREATE INDEX IF NOT EXISTS ${table}_strapi_id_idx ON ${table} (strapi_id)`,
+      `CREATE INDEX IF NOT EXISTS ${table}_content_hash_idx ON ${table} (content_hash, model)`,
+    ],
+  },
+  {
+    version: 3,
+    name: "add_search_vector",
+    up: (table) => [
+      // "simple" keeps words unstemmed, so product codes and names match exactly
+      `ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (
+          to_tsvector('simple', coalesce(metadata->>'title', '') || ' ' || coalesce(content, ''))
+        ) STORED`,
+      `CREATE INDEX IF NOT EXISTS ${table}_search_vector_idx ON ${table} USING gin (search_vector)`,
+    ],
+  },
+];
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Bring the vector table up to the latest version.
+ * Returns the versions applied by this call.
+ */
+export async function migrateVectorTable(
+  client: SqlClient,
+  table: string,
+  dimensions: number
+): Promise<number[]> {
+  const metaTable = `${table}_migrations`;
+
+  let appliedVersions: Set<number>;
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ${metaTable} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    const result = await client.query(`SELECT version FROM ${metaTable}`);
+    appliedVersions = new Set(result.rows.map((row) => Number(row.version)));
+  } catch (error) {
+    throw new Error(`Could not read migration table ${metaTable}: ${errorMessage(error)}`);
+  }
+
+  const applied: number[] = [];
+
+  for (const migration of VECTOR_MIGRATIONS) {
+    if (appliedVersions.has(migration.version)) continue;
+
+    const statements = [
+      // Serializes concurrent startups; the statements themselves are idempotent
+      `SELECT pg_advisory_xact_lock(hashtext('${metaTable}'))`,
+      ...migration.up(table, dimensions),
+      `INSERT INTO ${metaTable} (version, name) VALUES (${migration.version}, '${migration.name}')
+        ON CONFLICT (version) DO NOTHING`,
+    ];
+
+    try {
+      await client.query(statements.join(";\n"));
+    } catch (error) {
+      const message = errorMessage(error);
+      const hint = /extension "vector"/.test(message)
+        ? ". The pgvector extension must be installed on the server and the database user needs permission to enable it."
+        : "";
+      throw new Error(
+        `Vector table migration ${migration.version} (${migration.name}) failed on ${table}: ${message}${hint}`
+      );
+    }
+
+    console.log(`Vector table ${table}: applied migration ${migration.version} (${migration.name})`);
+    applied.push(migration.version);
+  }
+
+  await assertDimensions(client, table, dimensions);
+
+  return applied;
+}
+
+/**
+ * The embedding column is created once; a model with other dimensions cannot write to it
+ */
+async function assertDimensions(client: SqlClient, table: string, dimensions: number): Promise<void> {
+  const result = await client.query(
+    `SELECT format_type(atttypid, atttypmod) AS column_type
+     FROM pg_attribute
+     WHERE attrelid = $1::regclass AND attname = 'embedding'`,
+    [table]
+  );
+
+  const match = /vector\((\d+)\)/.exec(result.rows[0]?.column_type || "");
+  if (match && Number(match[1]) !== dimensions) {
+    throw new Error(
+      `Vector table ${table} stores ${match[1]}-dimension vectors but the embedding model produces ${dimensions}. ` +
+        `Use a new tableName or drop ${table} and run "Recreate All".`
+    );
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * pgvector Vector Store
+ *
+ * Stores vectors in a PostgreSQL table using the pgvector extension.
+ * The same store runs against a dedicated pool (e.g. Neon) or against
+ * Strapi's own database connection; only the SQL client differs.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Document } from "@langchain/core/documents";
+import { Pool, type PoolConfig } from "pg";
+import type { Core } from "@strapi/strapi";
+import { MAX_HNSW_DIMENSIONS, migrateVectorTable } from "./migrations";
+import { normalizeSearchFilter, type NormalizedSearchFilter } from "./filters";
+import type {
+  ListOptions,
+  SearchFilter,
+  StoredVector,
+  VectorDebugInfo,
+  VectorRecord,
+  VectorStore,
+  VectorStoreType,
+} from "./types";
+
+/** Rows per INSERT statement, well below PostgreSQL's 65535 parameter limit */
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Minimal SQL client used by the store (pg-style $1 placeholders)
+ */
+export interface SqlClient {
+  query(sql: string, params?: unknown[]): Promise<{ rows: any[]; rowCount: number | null }>;
+  end(): Promise<void>;
+}
+
+/**
+ * SQL client backed by a dedicated pg connection pool
+ */
+export function createPoolClient(options: {
+  connectionString: string;
+  ssl?: boolean;
+  poolSize?: number;
+}): SqlClient {
+  const poolConfig: PoolConfig = {
+    connectionString: options.connectionString,
+    ssl: options.ssl === false ? false : { rejectUnauthorized: false },
+    max: options.poolSize || 10,
+  };
+
+  const pool = new Pool(poolConfig);
+
+  return {
+    query: (sql, params) => pool.query(sql, params as any[]),
+    end: () => pool.end(),
+  };
+}
+
+/**
+ * SQL client that borrows connections from Strapi's knex pool.
+ * Strapi owns the pool, so end() does not close anything.
+ */
+export function createKnexClient(knex: Core.Strapi["db"]["connection"]): SqlClient {
+  return {
+    async query(sql, params) {
+      const connection = await knex.client.acquireConnection();
+      try {
+        return await connection.query(sql, params);
+      } finally {
+        await knex.client.releaseConnection(connection);
+      }
+    },
+    async end() {},
+  };
+}
+
+/**
+ * WHERE conditions for a search filter, with their values appended to params.
+ * Metadata fields use JSONB containment so the GIN index on metadata applies.
+ */
+function buildFilterConditions(filter: NormalizedSearchFilter, params: unknown[]): string[] {
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const containsAny = (key: string, values: string[]) =>
+    `(${values.map((value) => `metadata @> ${param(JSON.stringify({ [key]: value }))}::jsonb`).join(" OR ")})`;
+
+  const conditions: string[] = [];
+
+  if (filter.collectionTypes) conditions.push(containsAny("collectionType", filter.collectionTypes));
+  if (filter.fieldNames) conditions.push(containsAny("fieldName", filter.fieldNames));
+  if (filter.documentIds) conditions.push(containsAny("documentId", filter.documentIds));
+  if (filter.locales) conditions.push(`locale = ANY(${param(filter.locales)}::text[])`);
+  if (filter.createdAfter) conditions.push(`created_at >= ${param(filter.createdAfter)}::timestamptz`);
+  if (filter.createdBefore) conditions.push(`created_at <= ${param(filter.createdBefore)}::timestamptz`);
+  if (filter.updatedAfter) conditions.push(`updated_at >= ${param(filter.updatedAfter)}::timestamptz`);
+  if (filter.updatedBefore) conditions.push(`updated_at <= ${param(filter.updatedBefore)}::timestamptz`);
+
+  for (const [key, values] of Object.entries(filter.metadata || {})) {
+    conditions.push(`metadata->'custom'->>${param(key)}::text = ANY(${param(values)}::text[])`);
+  }
+
+  return conditions;
+}
+
+export class PgVectorStore implements VectorStore {
+  readonly type: VectorStoreType;
+  private client: SqlClient;
+  private tableName: string;
+
+  constructor(type: VectorStoreType, client: SqlClient, tableName: string) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid vector table name "${tableName}"`);
+    }
+
+    this.type = type;
+    this.client = client;
+    this.tableName = tableName;
+  }
+
+  async initialize(dimensions: number): Promise<void> {
+    // Test the connection
+    await this.client.query("SELECT 1");
+
+    await migrateVectorTable(this.client, this.tableName, dimensions);
+    console.log(`Vector table ${this.tableName} ready (dimensions: ${dimensions})`);
+
+    if (dimensions > MAX_HNSW_DIMENSIONS) {
+      console.warn(
+        `Vector table ${this.tableName} has no HNSW index: pgvector indexes at most ${MAX_HNSW_DIMENSIONS} dimensions. ` +
+        `Similarity search scans the whole table.`
+      );
+    }
+  }
+
+  async insert(record: VectorRecord): Promise<string> {
+    const [id] = await this.insertMany([record]);
+    return id;
+  }
+
+  /**
+   * Multi-row INSERT. Ids are generated here so they map back to the input order.
+   */
+  async insertMany(records: VectorRecord[]): Promise<string[]> {
+    const ids = records.map(() => randomUUID());
+
+    for (let start = 0; start < records.length; start += INSERT_BATCH_SIZE) {
+      const rows: string[] = [];
+      const params: unknown[] = [];
+
+      records.slice(start, start + INSERT_BATCH_SIZE).forEach((record, i) => {
+        const p = params.length;
+        rows.push(
+          `($${p + 1}::uuid, $${p + 2}, $${p + 3}::jsonb, $${p + 4}::vector, $${p + 5}, $${p + 6}, $${p + 7}, $${p + 8}, ` +
+            `COALESCE($${p + 9}::timestamptz, now()), COALESCE($${p + 10}::timestamptz, now()))`
+        );
+        params.push(
+          ids[start + i],
+          record.content,
+          JSON.stringify(record.metadata),
+          `[${record.embedding.join(",")}]`,
+          record.metadata.id,
+          record.metadata.locale ?? null,
+          record.metadata.contentHash ?? null,
+          record.metadata.model ?? null,
+          record.metadata.createdAt ?? null,
+          record.metadata.updatedAt ?? null
+        );
+      });
+
+      await this.client.query(
+        `INSERT INTO ${this.tableName}
+           (id, content, metadata, embedding, strapi_id, locale, content_hash, model, created_at, updated_at)
+         VALUES ${rows.join(", ")}`,
+        params
+      );
+    }
+
+    return ids;
+  }
+
+  async deleteByStrapiId(strapiId: string): Promise<void> {
+    await this.client.query(
+      `DELETE FROM ${this.tableName} WHERE strapi_id = $1`,
+      [strapiId]
+    );
+  }
+
+  async deleteById(id: string): Promise<void> {
+    await this.client.query(`DELETE FROM ${this.tableName} WHERE id = $1`, [id]);
+  }
+
+  async search(embedding: number[], k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const vectorString = `[${embedding.join(",")}]`;
+    const params: unknown[] = [vectorString, k];
+    const conditions = normalizeSearchFilter(filter);
+
+    // The HNSW index filters after finding its nearest candidates, which can leave
+    // too few rows for a narrow filter. Filtered searches rank every matching row instead.
+    const sql = conditions
+      ? `WITH candidates AS MATERIALIZED (
+           SELECT id, content, metadata, embedding
+           FROM ${this.tableName}
+           WHERE ${buildFilterConditions(conditions, params).join(" AND ")}
+         )
+         SELECT id, content, metadata, embedding <=> $1::vector AS distance
+         FROM candidates
+         ORDER BY distance
+         LIMIT $2`
+      : `SELECT id, content, metadata, embedding <=> $1::vector AS distance
+         FROM ${this.tableName}
+         ORDER BY distance
+         LIMIT $2`;
+
+    const result = await this.client.query(sql, params);
+
+    return result.rows.map((row) => [
+      new Document({ id: row.id, pageContent: row.content || "", metadata: row.metadata || {} }),
+      Number(row.distance),
+    ]);
+  }
+
+  /**
+   * Full-text search on the search_vector column. Query words are OR-ed,
+   * so rows matching more of them rank higher instead of all being required.
+   */
+  async keywordSearch(query: string, k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const params: unknown[] = [query, k];
+    const conditions = normalizeSearchFilter(filter);
+    const filterSql = conditions ? buildFilterConditions(conditions, params).map((condition) => `AND ${condition}`) : [];
+
+    const result = await this.client.query(
+      `SELECT id, content, metadata, ts_rank_cd(search_vector, terms) AS rank
+       FROM ${this.tableName},
+         to_tsquery('simple', replace(plainto_tsquery('simple', $1)::text, ' & ', ' | ')) AS terms
+       WHERE search_vector @@ terms
+       ${filterSql.join("\n       ")}
+       ORDER BY rank DESC
+       LIMIT $2`,
+      params
+    );
+
+    return result.rows.map((row) => [
+      new Document({ id: row.id, pageContent: row.content || "", metadata: row.metadata || {} }),
+      Number(row.rank),
+    ]);
+  }
+
+  async list(options: ListOptions = {}): Promise<StoredVector[]> {
+    const includeContent = options.includeContent !== false;
+    const result = await this.client.query(`
+      SELECT
+        id,
+        ${includeContent ? "content," : ""}
+        strapi_id,
+        metadata->>'title' as title,
+        metadata->>'collectionType' as collection_type,
+        metadata->>'fieldName' as field_name,
+        content_hash,
+        model
+      FROM ${this.tableName}
+      ORDER BY id
+    `);
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      strapiId: row.strapi_id,
+      title: row.title || '',
+      content: row.content || '',
+      collectionType: row.collection_type || 'standalone',
+      fieldName: row.field_name || 'content',
+      contentHash: row.content_hash || null,
+      model: row.model || null,
+    }));
+  }
+
+  async clear(): Promise<number> {
+    const result = await this.client.query(`
+      DELETE FROM ${this.tableName}
+      RETURNING id
+    `);
+
+    return result.rowCount || 0;
+  }
+
+  async drop(): Promise<void> {
+    await this.client.query(`DROP TABLE IF EXISTS ${this.tableName}`);
+    await this.client.query(`DROP TABLE IF EXISTS ${this.tableName}_migrations`);
+  }
+
+  async debug(): Promise<VectorDebugInfo[]> {
+    const result = await this.client.query(`
+      SELECT
+        id,
+        content,
+        metadata,
+        pg_typeof(metadata) as metadata_type,
+        embedding IS NOT NULL as has_embedding,
+        CASE WHEN embedding IS NOT NULL THEN array_length(embedding::float[], 1) ELSE 0 END as embedding_length
+      FROM ${this.tableName}
+      ORDER BY id
+      LIMIT 20
+    `);
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      content: row.content?.substring(0, 200) + (row.content?.length > 200 ? '...' : ''),
+      metadata: row.metadata,
+      metadataType: row.metadata_type,
+      hasEmbedding: row.has_embedding,
+      embeddingLength: row.embedding_length || 0,
+    }));
+  }
+
+  async destroy(): Promise<void> {
+    await this.client.end();
+  }
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { QdrantVectorStore } from "./qdrant";
+
+interface Call {
+  method: string;
+  path: string;
+  body: any;
+}
+
+/**
+ * Replace fetch with a responder; returns the requests it receives
+ */
+function mockFetch(respond: (call: Call) => { status?: number; body?: unknown }): Call[] {
+  const calls: Call[] = [];
+
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const call = {
+      method: init.method || "GET",
+      path: new URL(url).pathname + new URL(url).search,
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    };
+    calls.push(call);
+
+    const { status = 200, body = {} } = respond(call);
+    return new Response(JSON.stringify(body), { status });
+  });
+
+  return calls;
+}
+
+const metadata = {
+  id: "emb-1",
+  title: "Pricing",
+  collectionType: "api::page.page",
+  fieldName: "body",
+  locale: "en",
+  documentId: "page-1",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  custom: { chunkIndex: 2, draft: false, tags: ["nested"] },
+};
+
+describe("QdrantVectorStore", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("creates a cosine collection with keyword indexes when it does not exist", async () => {
+    const calls = mockFetch((call) => (call.method === "GET" ? { status: 404 } : {}));
+
+    await new QdrantVectorStore({ url: "http://qdrant:6333/", collection: "docs" }).initialize(8);
+
+    expect(calls[1]).toMatchObject({ method: "PUT", path: "/collections/docs", body: { vectors: { size: 8, distance: "Cosine" } } });
+    expect(calls.slice(2).map((call) => call.body.field_name)).toEqual(["documentId", "collectionType", "locale"]);
+  });
+
+  it("stores metadata in the payload with text custom values and epoch dates", async () => {
+    const calls = mockFetch(() => ({}));
+    const store = new QdrantVectorStore({ url: "http://qdrant:6333", collection: "docs" });
+
+    const [id] = await store.insertMany([{ content: "Pro costs $10", embedding: [1, 0], metadata }]);
+
+    const [point] = calls[0].body.points;
+    expect(point.id).toBe(id);
+    expect(point.payload).toMatchObject({
+      documentId: "emb-1",
+      sourceDocumentId: "page-1",
+      content: "Pro costs $10",
+      createdAt: Date.parse("2024-01-01T00:00:00.000Z"),
+      custom: { chunkIndex: "2", draft: "false" },
+    });
+  });
+
+  it("returns cosine distances and translates filters", async () => {
+    const calls = mockFetch(() => ({
+      body: {
+        result: [
+          {
+            id: "p1",
+            score: 0.75,
+            payload: { documentId: "emb-1", title: "Pricing", content: "Pro costs $10", createdAt: 1704067200000 },
+          },
+        ],
+      },
+    }));
+    const store = new QdrantVectorStore({ url: "http://qdrant:6333", collection: "docs" });
+
+    const [[document, distance]] = await store.search([1, 0], 3, {
+      collectionType: "api::page.page",
+      metadata: { chunkIndex: 2 },
+    });
+
+    expect(distance).toBeCloseTo(0.25);
+    expect(document.pageContent).toBe("Pro costs $10");
+    expect(document.metadata).toMatchObject({ id: "emb-1", title: "Pricing", createdAt: "2024-01-01T00:00:00.000Z" });
+    expect(calls[0].body.filter.must).toEqual([
+      { key: "collectionType", match: { any: ["api::page.page"] } },
+      { key: "custom.chunkIndex", match: { any: ["2"] } },
+    ]);
+  });
+});
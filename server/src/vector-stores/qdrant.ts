@@ -0,0 +1,292 @@
+/**
+ * Qdrant Vector Store
+ *
+ * Stores vectors as points in a Qdrant collection using the REST API.
+ * Plugin metadata is kept in the point payload:
+ *   documentId, title, collectionType, fieldName, content
+ * A keyword index on documentId backs deletes by Strapi entry.
+ * Search filters map onto Qdrant payload filters; dates are stored
+ * as epoch milliseconds so they can be range-filtered.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Document } from "@langchain/core/documents";
+import { createJsonClient, type JsonClient } from "./http";
+import { customMetadataToText, normalizeSearchFilter, type NormalizedSearchFilter } from "./filters";
+import type {
+  ListOptions,
+  SearchFilter,
+  StoredVector,
+  VectorDebugInfo,
+  VectorMetadata,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+interface QdrantPayload {
+  documentId: string;
+  title: string;
+  collectionType: string;
+  fieldName: string;
+  content: string;
+  contentHash?: string;
+  model?: string;
+  locale?: string | null;
+  /** documentId of the source content entry (documentId holds the embedding entry) */
+  sourceDocumentId?: string | null;
+  createdAt?: number;
+  updatedAt?: number;
+  /** Custom metadata as text, for match filters */
+  custom?: Record<string, string>;
+}
+
+interface QdrantPoint {
+  id: string;
+  score?: number;
+  payload?: QdrantPayload;
+  vector?: number[];
+}
+
+const SCROLL_PAGE_SIZE = 256;
+
+function toMetadata(payload: Partial<QdrantPayload> = {}): VectorMetadata {
+  return {
+    id: payload.documentId || "",
+    title: payload.title || "",
+    collectionType: payload.collectionType || "standalone",
+    fieldName: payload.fieldName || "content",
+    contentHash: payload.contentHash,
+    model: payload.model,
+    locale: payload.locale ?? null,
+    documentId: payload.sourceDocumentId ?? null,
+    createdAt: payload.createdAt ? new Date(payload.createdAt).toISOString() : undefined,
+    updatedAt: payload.updatedAt ? new Date(payload.updatedAt).toISOString() : undefined,
+    custom: payload.custom,
+  };
+}
+
+function toTimestamp(value: string | undefined): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+/**
+ * Qdrant payload filter for a search filter
+ */
+function buildFilter(filter: NormalizedSearchFilter): { must: Array<Record<string, unknown>> } {
+  const must: Array<Record<string, unknown>> = [];
+  const matchAny = (key: string, values: string[] | undefined) => {
+    if (values) must.push({ key, match: { any: values } });
+  };
+  const range = (key: string, gte?: string, lte?: string) => {
+    if (gte || lte) must.push({ key, range: { gte: toTimestamp(gte), lte: toTimestamp(lte) } });
+  };
+
+  matchAny("collectionType", filter.collectionTypes);
+  matchAny("fieldName", filter.fieldNames);
+  matchAny("locale", filter.locales);
+  matchAny("sourceDocumentId", filter.documentIds);
+  range("createdAt", filter.createdAfter, filter.createdBefore);
+  range("updatedAt", filter.updatedAfter, filter.updatedBefore);
+
+  for (const [key, values] of Object.entries(filter.metadata || {})) {
+    matchAny(`custom.${key}`, values);
+  }
+
+  return { must };
+}
+
+export class QdrantVectorStore implements VectorStore {
+  readonly type = "qdrant" as const;
+  private client: JsonClient;
+  private collection: string;
+  private dimensions = 1536;
+
+  constructor(options: { url: string; apiKey?: string; collection: string }) {
+    this.client = createJsonClient(
+      options.url,
+      options.apiKey ? { "api-key": options.apiKey } : {},
+      "Qdrant"
+    );
+    this.collection = encodeURIComponent(options.collection);
+  }
+
+  async initialize(dimensions: number): Promise<void> {
+    this.dimensions = dimensions;
+
+    const existing = await this.client.request("GET", `/collections/${this.collection}`, undefined, {
+      allowNotFound: true,
+    });
+
+    if (!existing) {
+      await this.createCollection();
+    } else {
+      const size = existing.result?.config?.params?.vectors?.size;
+      if (size && size !== dimensions) {
+        console.warn(
+          `Qdrant collection ${this.collection} has dimensions ${size}, expected ${dimensions}. ` +
+          `Delete the collection and run "Recreate All" after changing embedding models.`
+        );
+      }
+    }
+
+    console.log(`Qdrant collection ${this.collection} initialized (dimensions: ${this.dimensions})`);
+  }
+
+  private async createCollection(): Promise<void> {
+    await this.client.request("PUT", `/collections/${this.collection}`, {
+      vectors: { size: this.dimensions, distance: "Cosine" },
+    });
+
+    for (const field of ["documentId", "collectionType", "locale"]) {
+      await this.client.request("PUT", `/collections/${this.collection}/index?wait=true`, {
+        field_name: field,
+        field_schema: "keyword",
+      });
+    }
+  }
+
+  async insert(record: VectorRecord): Promise<string> {
+    const [id] = await this.insertMany([record]);
+    return id;
+  }
+
+  async insertMany(records: VectorRecord[]): Promise<string[]> {
+    const points = records.map((record) => {
+      const payload: QdrantPayload = {
+        documentId: record.metadata.id,
+        title: record.metadata.title,
+        collectionType: record.metadata.collectionType,
+        fieldName: record.metadata.fieldName,
+        content: record.content,
+        contentHash: record.metadata.contentHash,
+        model: record.metadata.model,
+        locale: record.metadata.locale ?? null,
+        sourceDocumentId: record.metadata.documentId ?? null,
+        createdAt: toTimestamp(record.metadata.createdAt),
+        updatedAt: toTimestamp(record.metadata.updatedAt),
+        custom: customMetadataToText(record.metadata.custom),
+      };
+      return { id: randomUUID(), vector: record.embedding, payload };
+    });
+
+    await this.client.request("PUT", `/collections/${this.collection}/points?wait=true`, { points });
+
+    return points.map((point) => point.id);
+  }
+
+  async deleteByStrapiId(strapiId: string): Promise<void> {
+    await this.client.request("POST", `/collections/${this.collection}/points/delete?wait=true`, {
+      filter: { must: [{ key: "documentId", match: { value: strapiId } }] },
+    });
+  }
+
+  async deleteById(id: string): Promise<void> {
+    await this.client.request("POST", `/collections/${this.collection}/points/delete?wait=true`, {
+      points: [id],
+    });
+  }
+
+  async search(embedding: number[], k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const conditions = normalizeSearchFilter(filter);
+    const response = await this.client.request<{ result: QdrantPoint[] }>(
+      "POST",
+      `/collections/${this.collection}/points/search`,
+      {
+        vector: embedding,
+        limit: k,
+        with_payload: true,
+        ...(conditions ? { filter: buildFilter(conditions) } : {}),
+      }
+    );
+
+    // Qdrant returns cosine similarity; convert to distance like pgvector's <=>
+    return (response?.result || []).map((point) => [
+      new Document({
+        id: String(point.id),
+        pageContent: point.payload?.content || "",
+        metadata: toMetadata(point.payload),
+      }),
+      1 - (point.score ?? 0),
+    ]);
+  }
+
+  /**
+   * Page through every point in the collection
+   */
+  private async scroll(limit?: number, withVector = false, withContent = true): Promise<QdrantPoint[]> {
+    const points: QdrantPoint[] = [];
+    let offset: string | number | null = null;
+
+    do {
+      const response = await this.client.request<{
+        result: { points: QdrantPoint[]; next_page_offset: string | number | null };
+      }>("POST", `/collections/${this.collection}/points/scroll`, {
+        limit: limit ? Math.min(limit - points.length, SCROLL_PAGE_SIZE) : SCROLL_PAGE_SIZE,
+        offset: offset ?? undefined,
+        with_payload: withContent ? true : { exclude: ["content"] },
+        with_vector: withVector,
+      });
+
+      points.push(...(response?.result?.points || []));
+      offset = response?.result?.next_page_offset ?? null;
+    } while (offset !== null && (!limit || points.length < limit));
+
+    return points;
+  }
+
+  async list(options: ListOptions = {}): Promise<StoredVector[]> {
+    const points = await this.scroll(undefined, false, options.includeContent !== false);
+
+    return points.map((point) => {
+      const metadata = toMetadata(point.payload);
+      return {
+        id: String(point.id),
+        strapiId: metadata.id,
+        title: metadata.title,
+        content: point.payload?.content || '',
+        collectionType: metadata.collectionType,
+        fieldName: metadata.fieldName,
+        contentHash: metadata.contentHash || null,
+        model: metadata.model || null,
+      };
+    });
+  }
+
+  async clear(): Promise<number> {
+    const response = await this.client.request<{ result: { count: number } }>(
+      "POST",
+      `/collections/${this.collection}/points/count`,
+      { exact: true }
+    );
+
+    // Dropping and recreating the collection is faster than deleting every point
+    await this.client.request("DELETE", `/collections/${this.collection}`);
+    await this.createCollection();
+
+    return response?.result?.count || 0;
+  }
+
+  async drop(): Promise<void> {
+    await this.client.request("DELETE", `/collections/${this.collection}`);
+  }
+
+  async debug(): Promise<VectorDebugInfo[]> {
+    const points = await this.scroll(20, true);
+
+    return points.map((point) => {
+      const content = point.payload?.content || '';
+      return {
+        id: String(point.id),
+        content: content.substring(0, 200) + (content.length > 200 ? '...' : ''),
+        metadata: point.payload,
+        metadataType: "payload",
+        hasEmbedding: Array.isArray(point.vector),
+        embeddingLength: Array.isArray(point.vector) ? point.vector.length : 0,
+      };
+    });
+  }
+
+  async destroy(): Promise<void> {
+    // Stateless HTTP client, nothing to release
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Vector math shared by the stores that search in-process
+ */
+
+/**
+ * Cosine distance between two vectors (0 = identical, 2 = opposite).
+ * Matches pgvector's `<=>` operator so scores are comparable across stores.
+ */
+export function cosineDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 1;
+  }
+
+  return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Keep the k items with the smallest distance, sorted ascending
+ */
+export function nearest<T>(items: Array<[T, number]>, k: number): Array<[T, number]> {
+  return items.sort((a, b) => a[1] - b[1]).slice(0, k);
+}
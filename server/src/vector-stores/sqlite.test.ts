@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import knex, { type Knex } from "knex";
+import type { Core } from "@strapi/strapi";
+import { SqliteVectorStore } from "./sqlite";
+import type { VectorMetadata, VectorRecord } from "./types";
+
+const record = (id: string, embedding: number[], metadata: Partial<VectorMetadata> = {}): VectorRecord => ({
+  content: `${id} content`,
+  metadata: { id, title: id, collectionType: "api::page.page", fieldName: "body", ...metadata },
+  embedding,
+});
+
+describe("SqliteVectorStore", () => {
+  let connection: Knex;
+  let store: SqliteVectorStore;
+
+  beforeEach(async () => {
+    connection = knex({
+      client: "better-sqlite3",
+      connection: { filename: ":memory:" },
+      useNullAsDefault: true,
+    });
+    store = new SqliteVectorStore(connection as unknown as Core.Strapi["db"]["connection"], "vectors");
+    await store.initialize(3);
+  });
+
+  afterEach(async () => {
+    await connection.destroy();
+  });
+
+  it("stores vectors and lists them with their metadata", async () => {
+    const ids = await store.insertMany([
+      record("emb-1", [1, 0, 0], { contentHash: "hash-1", model: "model-a" }),
+      record("emb-2", [0, 1, 0]),
+    ]);
+
+    expect(ids).toHaveLength(2);
+    expect(await store.list()).toEqual(
+      expect.arrayContaining([
+        {
+          id: ids[0],
+          strapiId: "emb-1",
+          title: "emb-1",
+          content: "emb-1 content",
+          collectionType: "api::page.page",
+          fieldName: "body",
+          contentHash: "hash-1",
+          model: "model-a",
+        },
+      ])
+    );
+  });
+
+  it("returns the nearest vectors first with their cosine distance", async () => {
+    await store.insertMany([
+      record("far", [0, 0, 1]),
+      record("near", [1, 0.1, 0]),
+      record("exact", [2, 0, 0]),
+    ]);
+
+    const results = await store.search([1, 0, 0], 2);
+
+    expect(results.map(([document]) => document.metadata.id)).toEqual(["exact", "near"]);
+    expect(results[0][1]).toBeCloseTo(0);
+    expect(results[0][0].pageContent).toBe("exact content");
+  });
+
+  it("filters by collection type, locale, dates and custom metadata", async () => {
+    const january = "2024-01-01T00:00:00.000Z";
+    const june = "2024-06-01T00:00:00.000Z";
+    await store.insertMany([
+      record("en-draft", [1, 0, 0], { locale: "en", createdAt: january, custom: { draft: true } }),
+      record("en-live", [1, 0, 0], { locale: "en", createdAt: june, custom: { draft: false } }),
+      record("de-live", [1, 0, 0], { locale: "de", createdAt: june, custom: { draft: false } }),
+      record("article", [1, 0, 0], { collectionType: "api::article.article", locale: "en" }),
+    ]);
+
+    const ids = async (filter: Parameters<SqliteVectorStore["search"]>[2]) =>
+      (await store.search([1, 0, 0], 10, filter)).map(([document]) => document.metadata.id).sort();
+
+    expect(await ids({ collectionType: "api::page.page", locale: "en" })).toEqual(["en-draft", "en-live"]);
+    expect(await ids({ metadata: { draft: false } })).toEqual(["de-live", "en-live"]);
+    expect(await ids({ createdAfter: "2024-03-01" })).toEqual(["de-live", "en-live"]);
+    expect(await ids({ locale: ["de", "fr"] })).toEqual(["de-live"]);
+  });
+
+  it("deletes the vectors of a Strapi entry, or one vector by id", async () => {
+    await store.insertMany([
+      record("emb-1", [1, 0, 0]),
+      record("emb-1", [0, 1, 0]),
+      record("emb-2", [0, 0, 1]),
+    ]);
+
+    await store.deleteByStrapiId("emb-1");
+    expect((await store.list()).map(({ strapiId }) => strapiId)).toEqual(["emb-2"]);
+
+    const [other] = await store.list();
+    await store.deleteById(other.id);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("skips vectors with other dimensions, as they cannot be compared", async () => {
+    await store.insertMany([record("old-model", [1, 0, 0, 0]), record("current", [0, 1, 0])]);
+
+    const results = await store.search([1, 0, 0], 10);
+
+    expect(results.map(([document]) => document.metadata.id)).toEqual(["current"]);
+  });
+
+  it("ranks keyword matches on title and content", async () => {
+    await store.insertMany([
+      { ...record("pricing", [1, 0, 0]), content: "The Pro plan costs $10" },
+      { ...record("support", [1, 0, 0]), content: "Contact support" },
+    ]);
+
+    const results = await store.keywordSearch("pro plan", 10);
+
+    expect(results.map(([document]) => document.metadata.id)).toEqual(["pricing"]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * SQLite Vector Store
+ *
+ * Stores vectors as Float32 BLOBs in Strapi's own SQLite database and
+ * searches with a brute-force cosine scan. Intended for local development,
+ * where the number of embeddings is small and pgvector is not available.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Document } from "@langchain/core/documents";
+import type { Core } from "@strapi/strapi";
+import { cosineDistance, nearest } from "./similarity";
+import { normalizeSearchFilter, type NormalizedSearchFilter } from "./filters";
+import { rankByKeywords } from "./keyword";
+import type { ListOptions, SearchFilter, StoredVector, VectorDebugInfo, VectorRecord, VectorStore } from "./types";
+
+type Knex = Core.Strapi["db"]["connection"];
+
+/** Rows per INSERT statement */
+const INSERT_BATCH_SIZE = 100;
+
+/**
+ * Encode a vector as a little-endian Float32 BLOB
+ */
+function toBlob(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+/**
+ * Decode a Float32 BLOB (copied, since the Buffer may not be 4-byte aligned)
+ */
+function fromBlob(blob: Buffer | null): Float32Array {
+  if (!blob) {
+    return new Float32Array(0);
+  }
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+function parseMetadata(value: string | null): Record<string, any> {
+  if (!value) {
+    return {};
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * WHERE conditions on the JSON metadata column for a search filter
+ */
+function buildFilterConditions(filter: NormalizedSearchFilter): Array<{ sql: string; bindings: unknown[] }> {
+  const placeholders = (values: unknown[]) => values.map(() => "?").join(", ");
+  const oneOf = (path: string, values: string[]) => ({
+    sql: `json_extract(metadata, '${path}') IN (${placeholders(values)})`,
+    bindings: values,
+  });
+  const compare = (path: string, operator: ">=" | "<=", value: string) => ({
+    sql: `json_extract(metadata, '${path}') ${operator} ?`,
+    bindings: [value],
+  });
+
+  const conditions: Array<{ sql: string; bindings: unknown[] }> = [];
+
+  if (filter.collectionTypes) conditions.push(oneOf("$.collectionType", filter.collectionTypes));
+  if (filter.fieldNames) conditions.push(oneOf("$.fieldName", filter.fieldNames));
+  if (filter.locales) conditions.push(oneOf("$.locale", filter.locales));
+  if (filter.documentIds) conditions.push(oneOf("$.documentId", filter.documentIds));
+  if (filter.createdAfter) conditions.push(compare("$.createdAt", ">=", filter.createdAfter));
+  if (filter.createdBefore) conditions.push(compare("$.createdAt", "<=", filter.createdBefore));
+  if (filter.updatedAfter) conditions.push(compare("$.updatedAt", ">=", filter.updatedAfter));
+  if (filter.updatedBefore) conditions.push(compare("$.updatedAt", "<=", filter.updatedBefore));
+
+  for (const [key, values] of Object.entries(filter.metadata || {})) {
+    // JSON booleans come back as 1/0; compare them as "true"/"false" like the other stores
+    const path = `$.custom."${key}"`;
+    conditions.push({
+      sql:
+        `(CASE json_type(metadata, ?) WHEN 'true' THEN 'true' WHEN 'false' THEN 'false' ` +
+        `ELSE CAST(json_extract(metadata, ?) AS TEXT) END) IN (${placeholders(values)})`,
+      bindings: [path, path, ...values],
+    });
+  }
+
+  return conditions;
+}
+
+export class SqliteVectorStore implements VectorStore {
+  readonly type = "sqlite" as const;
+  private knex: Knex;
+  private tableName: string;
+  private dimensions = 1536;
+
+  constructor(knex: Knex, tableName: string) {
+    this.knex = knex;
+    this.tableName = tableName;
+  }
+
+  async initialize(dimensions: number): Promise<void> {
+    this.dimensions = dimensions;
+
+    const exists = await this.knex.schema.hasTable(this.tableName);
+    if (!exists) {
+      await this.knex.schema.createTable(this.tableName, (table) => {
+        table.string("id", 36).primary();
+        table.text("content");
+        table.text("metadata");
+        table.string("strapi_id").index(`${this.tableName}_strapi_id_idx`);
+        table.binary("embedding");
+      });
+    }
+
+    console.log(`Vector table ${this.tableName} initialized (dimensions: ${this.dimensions})`);
+  }
+
+  async insert(record: VectorRecord): Promise<string> {
+    const [id] = await this.insertMany([record]);
+    return id;
+  }
+
+  async insertMany(records: VectorRecord[]): Promise<string[]> {
+    const rows = records.map((record) => ({
+      id: randomUUID(),
+      content: record.content,
+      metadata: JSON.stringify(record.metadata),
+      strapi_id: record.metadata.id,
+      embedding: toBlob(record.embedding),
+    }));
+
+    // Chunked to stay under SQLite's bound-variable limit
+    await this.knex.batchInsert(this.tableName, rows, INSERT_BATCH_SIZE);
+
+    return rows.map((row) => row.id);
+  }
+
+  async deleteByStrapiId(strapiId: string): Promise<void> {
+    await this.knex(this.tableName).where("strapi_id", strapiId).delete();
+  }
+
+  async deleteById(id: string): Promise<void> {
+    await this.knex(this.tableName).where("id", id).delete();
+  }
+
+  /**
+   * Select rows that match a search filter
+   */
+  private selectFiltered(columns: string[], filter?: SearchFilter) {
+    const query = this.knex(this.tableName).select(columns);
+    const conditions = normalizeSearchFilter(filter);
+    for (const condition of conditions ? buildFilterConditions(conditions) : []) {
+      query.whereRaw(condition.sql, condition.bindings as any[]);
+    }
+    return query;
+  }
+
+  async search(embedding: number[], k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const rows = await this.selectFiltered(["id", "content", "metadata", "embedding"], filter);
+    const scored: Array<[Document, number]> = [];
+
+    for (const row of rows) {
+      const vector = fromBlob(row.embedding);
+
+      // Vectors from a model with different dimensions cannot be compared
+      if (vector.length !== embedding.length) {
+        continue;
+      }
+
+      scored.push([
+        new Document({ id: row.id, pageContent: row.content || "", metadata: parseMetadata(row.metadata) }),
+        cosineDistance(embedding, vector),
+      ]);
+    }
+
+    return nearest(scored, k);
+  }
+
+  async keywordSearch(query: string, k: number, filter?: SearchFilter): Promise<Array<[Document, number]>> {
+    const rows = await this.selectFiltered(["id", "content", "metadata"], filter);
+    const documents = rows.map(
+      (row: any) => new Document({ id: row.id, pageContent: row.content || "", metadata: parseMetadata(row.metadata) })
+    );
+
+    return rankByKeywords(documents, (doc) => `${doc.metadata.title || ""} ${doc.pageContent}`, query, k);
+  }
+
+  async list(options: ListOptions = {}): Promise<StoredVector[]> {
+    const columns = ["id", "metadata", "strapi_id"];
+    if (options.includeContent !== false) {
+      columns.push("content");
+    }
+    const rows = await this.knex(this.tableName).select(columns).orderBy("id");
+
+    return rows.map((row) => {
+      const metadata = parseMetadata(row.metadata);
+      return {
+        id: row.id,
+        strapiId: row.strapi_id,
+        title: metadata.title || '',
+        content: row.content || '',
+        collectionType: metadata.collectionType || 'standalone',
+        fieldName: metadata.fieldName || 'content',
+        contentHash: metadata.contentHash || null,
+        model: metadata.model || null,
+      };
+    });
+  }
+
+  async clear(): Promise<number> {
+    return this.knex(this.tableName).delete();
+  }
+
+  async drop(): Promise<void> {
+    await this.knex.schema.dropTableIfExists(this.tableName);
+  }
+
+  async debug(): Promise<VectorDebugInfo[]> {
+    const rows = await this.knex(this.tableName)
+      .select("id", "content", "metadata", "embedding")
+      .orderBy("id")
+      .limit(20);
+
+    return rows.map((row) => ({
+      id: row.id,
+      content: row.content?.substring(0, 200) + (row.content?.length > 200 ? '...' : ''),
+      metadata: parseMetadata(row.metadata),
+      metadataType: "text",
+      hasEmbedding: !!row.embedding,
+      embeddingLength: fromBlob(row.embedding).length,
+    }));
+  }
+
+  async destroy(): Promise<void> {
+    // Strapi owns the connection
+  }
+}
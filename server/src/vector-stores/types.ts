@@ -0,0 +1,153 @@
+import type { Document } from "@langchain/core/documents";
+
+export type VectorStoreType = "postgres" | "strapi" | "sqlite" | "memory" | "qdrant" | "chroma";
+
+export interface VectorStoreConfig {
+  /**
+   * Where the vector table lives:
+   * - "postgres": a separate PostgreSQL database with pgvector (e.g. Neon)
+   * - "strapi": Strapi's own PostgreSQL connection (requires pgvector)
+   * - "sqlite": Strapi's own SQLite connection (brute-force search, for development)
+   * - "memory": in-process, optionally persisted to a JSON snapshot (tests, demos)
+   * - "qdrant" / "chroma": an external vector database over its REST API
+   * Defaults to "postgres" when a connection string is configured.
+   */
+  type?: VectorStoreType;
+  /** Connection string for "postgres" (falls back to neonConnectionString) */
+  connectionString?: string;
+  /** Vector table name, or collection name for "qdrant"/"chroma" (default: "embeddings_documents") */
+  tableName?: string;
+  /** Use SSL for "postgres" connections (default: true, without certificate verification) */
+  ssl?: boolean;
+  /** Maximum pool size for "postgres" connections (default: 10) */
+  poolSize?: number;
+  /** JSON snapshot file for "memory", relative to the Strapi app root (omit to keep vectors in memory only) */
+  snapshotPath?: string;
+  /** Server URL for "qdrant" (e.g. http://localhost:6333) or "chroma" (e.g. http://localhost:8000) */
+  url?: string;
+  /** API key for "qdrant" (api-key header) or "chroma" (x-chroma-token header) */
+  apiKey?: string;
+  /** Chroma tenant (default: "default_tenant") */
+  tenant?: string;
+  /** Chroma database (default: "default_database") */
+  database?: string;
+}
+
+export interface ResolvedVectorStoreConfig extends VectorStoreConfig {
+  type: VectorStoreType;
+  tableName: string;
+}
+
+/**
+ * Metadata stored alongside each vector
+ */
+export interface VectorMetadata {
+  /** Strapi documentId of the embedding entry */
+  id: string;
+  title: string;
+  collectionType: string;
+  fieldName: string;
+  /** Locale of the source entry, for localized content types */
+  locale?: string | null;
+  /** SHA-256 of the embedded text */
+  contentHash?: string;
+  /** Embedding model that produced the vector */
+  model?: string;
+  /** documentId of the content entry the embedding was created from */
+  documentId?: string | null;
+  /** When the embedding entry was created and last updated (ISO 8601) */
+  createdAt?: string;
+  updatedAt?: string;
+  /** Custom metadata of the embedding entry */
+  custom?: Record<string, unknown>;
+}
+
+export type MetadataFilterValue = string | number | boolean;
+
+/**
+ * Conditions a vector must meet to be returned by search.
+ * Conditions are combined with AND; a list matches any of its values.
+ */
+export interface SearchFilter {
+  /** Content type UIDs, e.g. "api::article.article" */
+  collectionType?: string | string[];
+  fieldName?: string | string[];
+  locale?: string | string[];
+  /** documentIds of the content entries the embeddings were created from */
+  documentIds?: string[];
+  /** Date ranges on when the embedding entry was created / last updated (ISO 8601, inclusive) */
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  /** Custom metadata keys. Values are compared as text, so 5 matches "5". */
+  metadata?: Record<string, MetadataFilterValue | MetadataFilterValue[]>;
+}
+
+export interface VectorRecord {
+  content: string;
+  metadata: VectorMetadata;
+  embedding: number[];
+}
+
+export interface StoredVector {
+  id: string;
+  strapiId: string;
+  title: string;
+  /** Empty when listed without content */
+  content: string;
+  collectionType: string;
+  fieldName: string;
+  /** Null for vectors stored before content hashing */
+  contentHash: string | null;
+  model: string | null;
+}
+
+export interface ListOptions {
+  /** Load the stored text (default: true). Hash comparisons do not need it. */
+  includeContent?: boolean;
+}
+
+export interface VectorDebugInfo {
+  id: string;
+  content: string;
+  metadata: any;
+  metadataType: string;
+  hasEmbedding: boolean;
+  embeddingLength: number;
+}
+
+/**
+ * Backend that stores vectors and runs similarity search.
+ * Scores returned by search are cosine distances (0 = identical).
+ */
+export interface VectorStore {
+  readonly type: VectorStoreType;
+  /** Prepare the backend (connect, create tables/indexes) */
+  initialize(dimensions: number): Promise<void>;
+  /** Store a vector and return its id in the vector store */
+  insert(record: VectorRecord): Promise<string>;
+  /** Store many vectors in one write, returning their ids in input order */
+  insertMany(records: VectorRecord[]): Promise<string[]>;
+  /** Delete all vectors that belong to a Strapi embedding entry */
+  deleteByStrapiId(strapiId: string): Promise<void>;
+  /** Delete a single vector by its vector store id */
+  deleteById(id: string): Promise<void>;
+  /** Find the k nearest vectors that match the filter */
+  search(embedding: number[], k: number, filter?: SearchFilter): Promise<Array<[Document, number]>>;
+  /**
+   * Full-text search on title and content, best match first (scores: higher = better).
+   * Stores without it fall back to vector search in hybrid mode.
+   */
+  keywordSearch?(query: string, k: number, filter?: SearchFilter): Promise<Array<[Document, number]>>;
+  /** List every stored vector (without the vector itself) */
+  list(options?: ListOptions): Promise<StoredVector[]>;
+  /** Delete every vector, returning how many were removed */
+  clear(): Promise<number>;
+  /** Remove the table or collection itself */
+  drop(): Promise<void>;
+  /** Inspect raw rows for troubleshooting */
+  debug(): Promise<VectorDebugInfo[]>;
+  /** Release connections */
+  destroy(): Promise<void>;
+}